@@ -0,0 +1,58 @@
+import { useQuery } from "@tanstack/react-query";
+import type { AnnouncementData } from "@shared/protocol";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { participantAuthHeaders } from "@/lib/participant-token";
+import { Megaphone } from "lucide-react";
+
+export const announcementsQueryKey = (sessionId: string) => ['/api/sessions', sessionId, 'announcements'];
+
+// Add an announcement broadcast to the cached list (the host may already have it)
+export function appendAnnouncement(sessionId: string, announcement: AnnouncementData) {
+  queryClient.setQueryData<AnnouncementData[]>(announcementsQueryKey(sessionId), (announcements = []) =>
+    announcements.some(existing => existing.id === announcement.id) ? announcements : [...announcements, announcement]
+  );
+}
+
+export function removeAnnouncement(sessionId: string, announcementId: string) {
+  queryClient.setQueryData<AnnouncementData[]>(announcementsQueryKey(sessionId), (announcements = []) =>
+    announcements.filter(announcement => announcement.id !== announcementId)
+  );
+}
+
+export function translateAnnouncement(announcement: AnnouncementData, language?: string): string {
+  const match = Object.entries(announcement.translations)
+    .find(([translated]) => !!language && translated.toLowerCase() === language.toLowerCase());
+  return match ? match[1] : announcement.originalText;
+}
+
+interface AnnouncementBannerProps {
+  sessionId: string;
+  participantId?: string; // Viewer; sends their participant token
+  language?: string; // Announcements are shown translated into this language
+}
+
+// Pinned host announcements, newest first, until the host removes them
+export function AnnouncementBanner({ sessionId, participantId, language }: AnnouncementBannerProps) {
+  const { data: announcements = [] } = useQuery<AnnouncementData[]>({
+    queryKey: announcementsQueryKey(sessionId),
+    queryFn: async () => (await apiRequest(
+      'GET', `/api/sessions/${sessionId}/announcements`, undefined, participantId ? participantAuthHeaders(participantId) : {}
+    )).json(),
+    enabled: !!sessionId
+  });
+
+  if (announcements.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-b border-border bg-amber-50 dark:bg-amber-950 px-4 py-2 space-y-1" data-testid="banner-announcements">
+      {[...announcements].reverse().map(announcement => (
+        <p key={announcement.id} className="flex items-start gap-2 text-sm text-black dark:text-white" data-testid={`announcement-${announcement.id}`}>
+          <Megaphone className="w-4 h-4 mt-0.5 shrink-0 text-amber-600" />
+          <span className="break-words">{translateAnnouncement(announcement, language)}</span>
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { Participant } from "@shared/schema";
+import type { ChatMessageData } from "@shared/protocol";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { participantAuthHeaders } from "@/lib/participant-token";
+import { useToast } from "@/hooks/use-toast";
+import { Languages, MessageSquare, MessageSquareOff, Send, Trash2 } from "lucide-react";
+
+interface ChatPanelProps {
+  sessionId: string;
+  participantId?: string; // Viewer; sends their participant token
+  language?: string; // Messages are shown translated into this language
+  canModerate?: boolean; // Host, co-host or moderator: delete messages and mute chatters
+  muted?: boolean; // The viewer was muted in the chat
+}
+
+const chatQueryKey = (sessionId: string) => ['/api/sessions', sessionId, 'chat'];
+
+// Add a chat-message broadcast to the cached history (the sender may already have it)
+export function appendChatMessage(sessionId: string, message: ChatMessageData) {
+  queryClient.setQueryData<ChatMessageData[]>(chatQueryKey(sessionId), (messages = []) =>
+    messages.some(existing => existing.id === message.id) ? messages : [...messages, message]
+  );
+}
+
+export function removeChatMessage(sessionId: string, messageId: string) {
+  queryClient.setQueryData<ChatMessageData[]>(chatQueryKey(sessionId), (messages = []) =>
+    messages.filter(message => message.id !== messageId)
+  );
+}
+
+// The server only sends the viewer's languages; fall back to the original text
+function translationFor(message: ChatMessageData, language?: string): string {
+  const match = Object.entries(message.translations)
+    .find(([translated]) => !language || translated.toLowerCase() === language.toLowerCase());
+  return match ? match[1] : message.originalText;
+}
+
+// Side conversations in the session, each message read in the viewer's language
+export function ChatPanel({ sessionId, participantId, language, canModerate = false, muted = false }: ChatPanelProps) {
+  const { toast } = useToast();
+  const [text, setText] = useState("");
+  const [showingOriginal, setShowingOriginal] = useState<Set<string>>(new Set());
+  const headers = participantId ? participantAuthHeaders(participantId) : {};
+
+  const { data: messages = [] } = useQuery<ChatMessageData[]>({
+    queryKey: chatQueryKey(sessionId),
+    queryFn: async () => (await apiRequest('GET', `/api/sessions/${sessionId}/chat`, undefined, headers)).json(),
+    enabled: !!sessionId
+  });
+
+  const { data: participants = [] } = useQuery<Participant[]>({
+    queryKey: ['/api/sessions', sessionId, 'participants'],
+    queryFn: async () => (await apiRequest('GET', `/api/sessions/${sessionId}/participants`, undefined, headers)).json(),
+    enabled: !!sessionId && canModerate
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const sendMutation = useMutation({
+    mutationFn: async (message: string) => {
+      const res = await apiRequest('POST', `/api/sessions/${sessionId}/chat`, { text: message }, headers);
+      return res.json() as Promise<ChatMessageData>;
+    },
+    onSuccess: (message) => {
+      setText("");
+      appendChatMessage(sessionId, message);
+    },
+    onError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('DELETE', `/api/chat/${id}`, undefined, headers);
+    },
+    onSuccess: (_, id) => {
+      removeChatMessage(sessionId, id);
+    },
+    onError
+  });
+
+  const chatMuteMutation = useMutation({
+    mutationFn: async ({ targetId, isMuted }: { targetId: string; isMuted: boolean }) => {
+      return apiRequest('PATCH', `/api/participants/${targetId}/chat-mute`, { isMuted }, headers);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'participants'] });
+    },
+    onError
+  });
+
+  const toggleOriginal = (id: string) => {
+    setShowingOriginal(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleSend = () => {
+    const message = text.trim();
+    if (message) {
+      sendMutation.mutate(message);
+    }
+  };
+
+  return (
+    <div className="space-y-3" data-testid="chat-panel">
+      <h2 className="text-lg font-medium text-black dark:text-white">Chat</h2>
+
+      {messages.length > 0 && (
+        <ul className="border border-gray-300 dark:border-gray-700 rounded-lg overflow-hidden bg-white dark:bg-black max-h-80 overflow-y-auto">
+          {messages.map((message, index) => {
+            const translated = translationFor(message, language);
+            const original = showingOriginal.has(message.id);
+            const author = participants.find(p => p.id === message.participantId);
+            const canMuteAuthor = canModerate && !!author && author.role !== 'host' && author.id !== participantId;
+            return (
+              <li
+                key={message.id}
+                className={`px-4 py-2 flex items-start justify-between gap-3 ${
+                  index !== messages.length - 1 ? 'border-b border-gray-300 dark:border-gray-700' : ''
+                }`}
+                data-testid={`chat-message-${message.id}`}
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs text-gray-500">
+                    <span className="font-medium text-black dark:text-white">{message.authorName}</span>
+                    {' · '}{new Date(message.createdAt).toLocaleTimeString()}
+                    {original && ` · ${message.originalLanguage}`}
+                  </p>
+                  <p className="text-black dark:text-white break-words">{original ? message.originalText : translated}</p>
+                </div>
+
+                <div className="flex items-center gap-1 shrink-0">
+                  {translated !== message.originalText && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      onClick={() => toggleOriginal(message.id)}
+                      data-testid={`button-show-original-${message.id}`}
+                      title={original ? "Show translation" : "Show original"}
+                    >
+                      <Languages className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {canMuteAuthor && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      onClick={() => chatMuteMutation.mutate({ targetId: author.id, isMuted: !author.chatMuted })}
+                      disabled={chatMuteMutation.isPending}
+                      data-testid={`button-chat-mute-${message.id}`}
+                      title={author.chatMuted ? `Let ${author.name} chat again` : `Mute ${author.name} in the chat`}
+                    >
+                      {author.chatMuted ? <MessageSquare className="w-4 h-4" /> : <MessageSquareOff className="w-4 h-4" />}
+                    </Button>
+                  )}
+                  {canModerate && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      onClick={() => deleteMutation.mutate(message.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-chat-${message.id}`}
+                      title="Delete message"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {muted ? (
+        <p className="text-sm text-gray-500" data-testid="text-chat-muted">A moderator muted you in the chat.</p>
+      ) : (
+        <div className="flex gap-2">
+          <Input
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+            placeholder="Message everyone in your language"
+            maxLength={1000}
+            data-testid="input-chat"
+          />
+          <Button
+            onClick={handleSend}
+            disabled={!text.trim() || sendMutation.isPending}
+            data-testid="button-send-chat"
+          >
+            <Send className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import type { QuestionData } from "@shared/protocol";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { participantAuthHeaders } from "@/lib/participant-token";
+import { useToast } from "@/hooks/use-toast";
+import { Check, CheckCircle, ThumbsUp, X } from "lucide-react";
+
+// Questions as the server lists them for the viewer
+export type QuestionView = QuestionData & { hasUpvoted: boolean };
+
+interface QuestionPanelProps {
+  sessionId: string;
+  participantId?: string; // Viewer; sends their participant token
+  language?: string; // Questions are shown translated into this language
+  canModerate?: boolean; // Host, co-host or moderator: approve, answer and dismiss
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Awaiting approval",
+  answered: "Answered",
+  dismissed: "Dismissed",
+};
+
+// Audience Q&A: ask in your own language, upvote approved questions, and (for moderators)
+// approve, answer or dismiss them. Kept current by question-updated messages.
+export function QuestionPanel({ sessionId, participantId, language, canModerate = false }: QuestionPanelProps) {
+  const { toast } = useToast();
+  const [text, setText] = useState("");
+  const headers = participantId ? participantAuthHeaders(participantId) : {};
+  const queryKey = ['/api/sessions', sessionId, 'questions'];
+
+  const { data: questions = [] } = useQuery<QuestionView[]>({
+    queryKey,
+    queryFn: async () => (await apiRequest('GET', `/api/sessions/${sessionId}/questions`, undefined, headers)).json(),
+    enabled: !!sessionId
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const askMutation = useMutation({
+    mutationFn: async (question: string) => {
+      const res = await apiRequest('POST', `/api/sessions/${sessionId}/questions`, { text: question }, headers);
+      return res.json() as Promise<QuestionView>;
+    },
+    onSuccess: (question) => {
+      setText("");
+      queryClient.invalidateQueries({ queryKey });
+      if (question.status === 'pending') {
+        toast({
+          title: "Question sent",
+          description: "It will be shown to everyone once a moderator approves it.",
+        });
+      }
+    },
+    onError
+  });
+
+  const upvoteMutation = useMutation({
+    mutationFn: async ({ id, upvoted }: { id: string; upvoted: boolean }) => {
+      return apiRequest(upvoted ? 'POST' : 'DELETE', `/api/questions/${id}/upvote`, undefined, headers);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'approve' | 'answer' | 'dismiss' }) => {
+      return apiRequest('POST', `/api/questions/${id}/${action}`, undefined, headers);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError
+  });
+
+  const handleAsk = () => {
+    const question = text.trim();
+    if (question) {
+      askMutation.mutate(question);
+    }
+  };
+
+  return (
+    <div className="space-y-3" data-testid="question-panel">
+      <h2 className="text-lg font-medium text-black dark:text-white">Questions</h2>
+
+      <div className="flex gap-2">
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Ask a question in your language"
+          maxLength={500}
+          rows={2}
+          className="resize-none"
+          data-testid="input-question"
+        />
+        <Button
+          onClick={handleAsk}
+          disabled={!text.trim() || askMutation.isPending}
+          className="self-end"
+          data-testid="button-ask-question"
+        >
+          Ask
+        </Button>
+      </div>
+
+      {questions.length > 0 && (
+        <ul className="border border-gray-300 dark:border-gray-700 rounded-lg overflow-hidden bg-white dark:bg-black">
+          {questions.map((question, index) => {
+            const translated = (language && question.translations[language]) || question.originalText;
+            const showOriginal = translated !== question.originalText;
+            return (
+              <li
+                key={question.id}
+                className={`px-4 py-3 flex items-start justify-between gap-3 ${
+                  index !== questions.length - 1 ? 'border-b border-gray-300 dark:border-gray-700' : ''
+                } ${question.status === 'dismissed' || question.status === 'answered' ? 'opacity-60' : ''}`}
+                data-testid={`question-${question.id}`}
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-black dark:text-white break-words">{translated}</p>
+                  {showOriginal && (
+                    <p className="text-xs text-gray-500 break-words mt-1">
+                      {question.originalLanguage}: {question.originalText}
+                    </p>
+                  )}
+                  <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                    <span>{question.authorName}</span>
+                    {STATUS_LABELS[question.status] && (
+                      <Badge variant="outline" className="text-xs">{STATUS_LABELS[question.status]}</Badge>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    size="sm"
+                    variant={question.hasUpvoted ? "default" : "outline"}
+                    className="h-7 px-2"
+                    onClick={() => upvoteMutation.mutate({ id: question.id, upvoted: !question.hasUpvoted })}
+                    disabled={!participantId || upvoteMutation.isPending || (question.status !== 'approved' && !question.hasUpvoted)}
+                    data-testid={`button-upvote-${question.id}`}
+                    title={question.hasUpvoted ? "Remove upvote" : "Upvote"}
+                  >
+                    <ThumbsUp className="w-3 h-3 mr-1" />
+                    {question.upvoteCount}
+                  </Button>
+                  {canModerate && (question.status === 'pending' || question.status === 'dismissed') && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      onClick={() => moderateMutation.mutate({ id: question.id, action: 'approve' })}
+                      disabled={moderateMutation.isPending}
+                      data-testid={`button-approve-question-${question.id}`}
+                      title="Approve"
+                    >
+                      <Check className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {canModerate && (question.status === 'pending' || question.status === 'approved') && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        onClick={() => moderateMutation.mutate({ id: question.id, action: 'answer' })}
+                        disabled={moderateMutation.isPending}
+                        data-testid={`button-answer-question-${question.id}`}
+                        title="Mark as answered"
+                      >
+                        <CheckCircle className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        onClick={() => moderateMutation.mutate({ id: question.id, action: 'dismiss' })}
+                        disabled={moderateMutation.isPending}
+                        data-testid={`button-dismiss-question-${question.id}`}
+                        title="Dismiss"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
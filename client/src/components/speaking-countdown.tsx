@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+
+interface SpeakingCountdownProps {
+  until: string | Date; // End of the speaking turn
+  className?: string;
+}
+
+// Remaining time of a time-limited speaking turn, e.g. "1:05 left"
+export function SpeakingCountdown({ until, className }: SpeakingCountdownProps) {
+  const end = new Date(until).getTime();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [end]);
+
+  const remaining = Math.max(0, Math.ceil((end - now) / 1000));
+  const minutes = Math.floor(remaining / 60);
+  const seconds = String(remaining % 60).padStart(2, "0");
+
+  return (
+    <span className={`${className ?? ""} ${remaining <= 30 ? "text-red-600" : ""}`} data-testid="text-speaking-countdown">
+      {minutes}:{seconds} left
+    </span>
+  );
+}
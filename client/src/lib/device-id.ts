@@ -0,0 +1,16 @@
+// Random identifier of this browser, sent when joining a session so a host's ban
+// also applies to guests who come back under another name
+const storageKey = "nihki-device-id";
+
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(storageKey);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(storageKey, deviceId);
+  }
+  return deviceId;
+}
+
+export function deviceHeaders(): Record<string, string> {
+  return { "X-Device-Id": getDeviceId() };
+}
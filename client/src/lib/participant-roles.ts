@@ -0,0 +1,24 @@
+import type { Participant } from "@shared/schema";
+
+// Display names of the roles that run the session
+const ROLE_LABELS: Record<string, string> = {
+  host: "Host",
+  "co-host": "Co-host",
+  moderator: "Moderator",
+};
+
+// Roles allowed to grant speaking permission, mute speakers and lower hands (enforced by the server)
+export function isFloorManager(role: string | undefined): boolean {
+  return role === "host" || role === "co-host" || role === "moderator";
+}
+
+// e.g. "(Host & Speaker)", "(Moderator)", "(Speaker, muted)"
+export function describeParticipant(participant: Participant): string {
+  const parts = [ROLE_LABELS[participant.role], participant.isSpeaking ? "Speaker" : undefined]
+    .filter((part): part is string => !!part);
+  let label = parts.join(" & ");
+  if (participant.isMuted) {
+    label = label ? `${label}, muted` : "Muted";
+  }
+  return label ? `(${label})` : "";
+}
@@ -0,0 +1,16 @@
+// Signed tokens issued when joining a session; they authenticate the participant's
+// WebSocket and self-service requests (raise hand, preferences)
+const storageKey = (participantId: string) => `nihki-participant-token:${participantId}`;
+
+export function saveParticipantToken(participantId: string, token: string) {
+  localStorage.setItem(storageKey(participantId), token);
+}
+
+export function getParticipantToken(participantId: string): string | null {
+  return localStorage.getItem(storageKey(participantId));
+}
+
+export function participantAuthHeaders(participantId: string): Record<string, string> {
+  const token = getParticipantToken(participantId);
+  return token ? { "X-Participant-Token": token } : {};
+}
@@ -1,16 +1,42 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
+import { flushSync } from 'react-dom';
+import {
+  CLOSE_CODE_REMOVED,
+  PROTOCOL_VERSION,
+  serverMessageSchema,
+  describeProtocolError,
+  type ClientMessage,
+  type ServerMessage,
+  type ErrorMessage,
+  type LanguageSubscription
+} from '@shared/protocol';
+import { getParticipantToken } from './participant-token';
+import { queryClient } from './queryClient';
 
-export function useWebSocket(sessionId: string) {
+// The connection is bound to one participant: guests authenticate with their
+// participant token, hosts with their session cookie. Only translations and
+// speech for the subscribed languages are delivered (the server defaults to the
+// participant's own language until a subscription is sent). Reconnects resume
+// from the last sequenced message so captions and chat sent while offline are replayed;
+// other state (participants, floor, lobby, Q&A) is refetched instead.
+// Participants waiting in the lobby join the room once the host admits them.
+export function useWebSocket(sessionId: string, participantId?: string, subscription?: LanguageSubscription) {
   const [isConnected, setIsConnected] = useState(false);
-  const [lastMessage, setLastMessage] = useState<MessageEvent | null>(null);
+  const [lastMessage, setLastMessage] = useState<ServerMessage | null>(null);
+  const [lastError, setLastError] = useState<ErrorMessage | null>(null);
   const websocket = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
   const reconnectAttemptsRef = useRef(0);
-  const maxReconnectAttempts = 5;
+  const maxReconnectDelay = 30000;
+  const lastSeqRef = useRef<number | null>(null);
+  const joinedRef = useRef(false);
+  const subscriptionRef = useRef(subscription);
+  subscriptionRef.current = subscription;
+  const subscriptionKey = subscription ? JSON.stringify(subscription) : null;
 
   const connect = useCallback(() => {
-    if (!sessionId) {
-      console.log('[WebSocket] No sessionId provided, skipping connection');
+    if (!sessionId || !participantId) {
+      console.log('[WebSocket] No sessionId or participantId yet, skipping connection');
       return;
     }
 
@@ -18,46 +44,104 @@ export function useWebSocket(sessionId: string) {
       // Construct WebSocket URL safely from current location
       const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
       const host = window.location.host; // Includes both hostname and port
-      const wsUrl = `${protocol}//${host}/ws`;
+      const params = new URLSearchParams({ participantId });
+      const token = getParticipantToken(participantId);
+      if (token) {
+        params.set('token', token);
+      }
+      const wsUrl = `${protocol}//${host}/ws?${params}`;
       
-      console.log('[WebSocket] 🔌 Attempting connection to:', wsUrl);
+      console.log(`[WebSocket] 🔌 Attempting connection to: ${protocol}//${host}/ws as participant ${participantId}`);
       
       websocket.current = new WebSocket(wsUrl);
 
+      const sendJoin = () => {
+        const joinMessage: ClientMessage = {
+          type: 'join-session',
+          sessionId: sessionId,
+          subscription: subscriptionRef.current,
+          lastSeq: lastSeqRef.current ?? undefined
+        };
+        console.log('[WebSocket] 📨 Sending join-session message:', joinMessage);
+        websocket.current?.send(JSON.stringify(joinMessage));
+      };
+
       websocket.current.onopen = () => {
         console.log('[WebSocket] ✅ Connection established!');
         setIsConnected(true);
         reconnectAttemptsRef.current = 0;
         
-        // Join the session room
-        const joinMessage = {
-          type: 'join-session',
-          sessionId: sessionId
-        };
-        console.log('[WebSocket] 📨 Sending join-session message:', joinMessage);
-        websocket.current?.send(JSON.stringify(joinMessage));
+        // Handshake, then join the session room (the server processes messages in order)
+        const helloMessage: ClientMessage = { type: 'hello', protocolVersion: PROTOCOL_VERSION };
+        websocket.current?.send(JSON.stringify(helloMessage));
+        sendJoin();
       };
 
       websocket.current.onmessage = (event) => {
-        console.log('[WebSocket] 📥 Message received:', event.data);
-        setLastMessage(event);
+        let parsed;
+        try {
+          parsed = serverMessageSchema.safeParse(JSON.parse(event.data));
+        } catch (error) {
+          console.error('[WebSocket] ⚠️ Received non-JSON message:', error);
+          return;
+        }
+        if (!parsed.success) {
+          console.error('[WebSocket] ⚠️ Ignoring message that does not match the protocol:', describeProtocolError(parsed.error));
+          return;
+        }
+
+        const message = parsed.data;
+        // Track the latest (not the highest) seq: a restarted single-instance server starts over at 1
+        if (message.seq) {
+          lastSeqRef.current = message.seq;
+        }
+
+        // State changes broadcast while we were away are not replayed
+        if (message.type === 'session-joined') {
+          if (joinedRef.current) {
+            queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId] });
+            queryClient.invalidateQueries({ queryKey: ['/api/participants', participantId] });
+          }
+          joinedRef.current = true;
+        }
+        if (message.type === 'resumed' && !message.complete) {
+          console.warn(`[WebSocket] ⚠️ Some messages after seq ${message.lastSeq} could not be replayed`);
+        }
+        if (message.type === 'admission' && message.data.admission === 'admitted') {
+          sendJoin(); // Was refused with not-admitted while in the lobby
+        }
+        if (message.type === 'error') {
+          console.error(`[WebSocket] ❌ Server rejected ${message.requestType || 'message'} (${message.code}): ${message.message}`);
+          setLastError(message);
+        } else if (message.type !== 'audio-synthesized') {
+          console.log('[WebSocket] 📥 Message received:', message.type);
+        }
+        // Render each message on its own: replayed bursts would otherwise be batched into the last one
+        flushSync(() => setLastMessage(message));
       };
 
       websocket.current.onclose = (event) => {
         console.log('[WebSocket] ❌ Connection closed. Code:', event.code, 'Reason:', event.reason);
         setIsConnected(false);
         
-        // Attempt to reconnect
-        if (reconnectAttemptsRef.current < maxReconnectAttempts) {
-          reconnectAttemptsRef.current++;
-          const delay = Math.pow(2, reconnectAttemptsRef.current) * 1000;
-          console.log(`[WebSocket] 🔄 Reconnecting in ${delay}ms (attempt ${reconnectAttemptsRef.current}/${maxReconnectAttempts})`);
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connect();
-          }, delay);
-        } else {
-          console.error('[WebSocket] ⛔ Max reconnection attempts reached');
+        // The server only closes with 1002 when it cannot speak our protocol version
+        if (event.code === 1002) {
+          console.error('[WebSocket] ⛔ Protocol version rejected, not reconnecting');
+          return;
+        }
+        if (event.code === CLOSE_CODE_REMOVED) {
+          console.warn('[WebSocket] ⛔ Removed from the session, not reconnecting');
+          return;
         }
+
+        // Keep reconnecting with capped, jittered backoff; the session is resumed on reconnect
+        reconnectAttemptsRef.current++;
+        const backoff = Math.min(Math.pow(2, reconnectAttemptsRef.current) * 1000, maxReconnectDelay);
+        const delay = Math.round(backoff / 2 + Math.random() * backoff / 2);
+        console.log(`[WebSocket] 🔄 Reconnecting in ${delay}ms (attempt ${reconnectAttemptsRef.current})`);
+        reconnectTimeoutRef.current = setTimeout(() => {
+          connect();
+        }, delay);
       };
 
       websocket.current.onerror = (error) => {
@@ -69,13 +153,12 @@ export function useWebSocket(sessionId: string) {
       console.error('[WebSocket] ❌ Failed to create connection:', error);
       setIsConnected(false);
     }
-  }, [sessionId]);
+  }, [sessionId, participantId]);
 
-  const sendMessage = useCallback((message: any) => {
+  const sendMessage = useCallback((message: ClientMessage) => {
     if (websocket.current?.readyState === WebSocket.OPEN) {
-      const msgType = message.type || 'unknown';
-      if (msgType !== 'audio-chunk') {
-        console.log('[WebSocket] 📤 Sending message:', msgType);
+      if (message.type !== 'audio-chunk-metadata') {
+        console.log('[WebSocket] 📤 Sending message:', message.type);
       }
       websocket.current.send(JSON.stringify(message));
     } else {
@@ -104,6 +187,7 @@ export function useWebSocket(sessionId: string) {
     }
     
     if (websocket.current) {
+      websocket.current.onclose = null; // Closed on purpose, don't reconnect
       websocket.current.close();
       websocket.current = null;
     }
@@ -111,6 +195,19 @@ export function useWebSocket(sessionId: string) {
     setIsConnected(false);
   }, []);
 
+  // Switch language channels on the open connection when the subscription changes
+  useEffect(() => {
+    if (subscriptionRef.current && isConnected) {
+      sendMessage({ type: 'subscribe', ...subscriptionRef.current });
+    }
+  }, [subscriptionKey, isConnected, sendMessage]);
+
+  // Sequence numbers are per session
+  useEffect(() => {
+    lastSeqRef.current = null;
+    joinedRef.current = false;
+  }, [sessionId]);
+
   useEffect(() => {
     connect();
     
@@ -122,6 +219,7 @@ export function useWebSocket(sessionId: string) {
   return {
     isConnected,
     lastMessage,
+    lastError,
     sendMessage,
     sendBinaryMessage,
     disconnect
@@ -5,7 +5,9 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { type Session, type Participant } from "@shared/schema";
+import { type FloorPolicy, type ModerationAction, type Participant, type SessionStatus } from "@shared/schema";
+import type { AnnouncementData, LanguageSubscription, SpeakerQueueData } from "@shared/protocol";
+import type { PublicSession } from "@shared/session-access";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { QRCodeGenerator } from "@/components/qr-code";
@@ -14,6 +16,12 @@ import { useAuth } from "@/lib/auth-context";
 import { useAudioCapture } from "@/lib/audio";
 import { AudioQueue } from "@/lib/audio-queue";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { describeParticipant } from "@/lib/participant-roles";
+import { SpeakingCountdown } from "@/components/speaking-countdown";
+import { QuestionPanel } from "@/components/question-panel";
+import { appendChatMessage, ChatPanel, removeChatMessage } from "@/components/chat-panel";
+import { announcementsQueryKey, appendAnnouncement, removeAnnouncement } from "@/components/announcement-banner";
 import { 
   Mic,
   Hand,
@@ -25,7 +33,18 @@ import {
   Users,
   FileDown,
   MicOff,
-  Power
+  Power,
+  Play,
+  Pause,
+  Volume2,
+  VolumeX,
+  DoorOpen,
+  UserX,
+  Ban,
+  ChevronUp,
+  ChevronDown,
+  SkipForward,
+  Megaphone
 } from "lucide-react";
 
 export default function AdminDashboard() {
@@ -42,7 +61,7 @@ export default function AdminDashboard() {
   const metadataSentRef = useRef(false);
 
   // Find the host participant (current user)
-  const { data: session, isLoading } = useQuery<Session>({
+  const { data: session, isLoading } = useQuery<PublicSession>({
     queryKey: ['/api/sessions', sessionId],
     enabled: !!sessionId
   });
@@ -54,7 +73,52 @@ export default function AdminDashboard() {
 
   const hostParticipant = participants.find(p => p.userId === user?.id);
 
-  const { sendMessage, sendBinaryMessage, lastMessage, isConnected } = useWebSocket(sessionId || '');
+  // Only admitted attendees with an open connection (kept current by participant-joined/left)
+  const connectedParticipants = participants.filter(p => p.isActive && p.admission === 'admitted');
+
+  // Joiners waiting for the host to admit them (kept current by lobby-updated)
+  const lobbyParticipants = participants.filter(p => p.admission === 'waiting');
+
+  // Translation memory reuse for this session (refreshed while the host watches)
+  const { data: memoryStats } = useQuery<{
+    session: { exactHits: number; fuzzyHits: number; misses: number; hitRate: number };
+    memory: { entries: number; totalHits: number };
+  }>({
+    queryKey: ['/api/sessions', sessionId, 'translation-memory'],
+    enabled: !!sessionId,
+    refetchInterval: 30000
+  });
+
+  // Raised hands in speaking order (kept current by speaker-queue broadcasts)
+  const { data: speakerQueue } = useQuery<SpeakerQueueData>({
+    queryKey: ['/api/sessions', sessionId, 'speaker-queue'],
+    enabled: !!sessionId
+  });
+  const queue = speakerQueue?.queue ?? [];
+  const [turnLimit, setTurnLimit] = useState<string>('session');
+  const [floorLostTo, setFloorLostTo] = useState<string | null>(null);
+
+  // Pinned announcements (kept current by announcement broadcasts)
+  const { data: announcements = [] } = useQuery<AnnouncementData[]>({
+    queryKey: announcementsQueryKey(sessionId || ''),
+    enabled: !!sessionId
+  });
+  const [announcementText, setAnnouncementText] = useState('');
+
+  // Kicks and bans, newest first
+  const { data: moderationLog = [] } = useQuery<ModerationAction[]>({
+    queryKey: ['/api/sessions', sessionId, 'moderation-log'],
+    enabled: !!sessionId
+  });
+
+  // The host listens to other speakers in their own language
+  const subscription: LanguageSubscription | undefined = hostParticipant && {
+    languages: [hostParticipant.language],
+    audio: true,
+    voice: hostParticipant.preferredVoice ?? null
+  };
+
+  const { sendMessage, sendBinaryMessage, lastMessage, isConnected } = useWebSocket(sessionId || '', hostParticipant?.id, subscription);
 
   // Queue audio for sequential playback
   const queueAudio = useCallback((audioUrl: string, id: string) => {
@@ -120,6 +184,37 @@ export default function AdminDashboard() {
     }
   }, [isRecording, actualSampleRate, hostParticipant, sendMessage]);
 
+  // The server refuses audio unless the session is live
+  const sessionStatus: SessionStatus = session?.status ?? 'draft';
+  const isLive = sessionStatus === 'live';
+
+  useEffect(() => {
+    if (!isLive && isRecording) {
+      stopRecording();
+      setIsRecording(false);
+      metadataSentRef.current = false;
+    }
+  }, [isLive, isRecording, stopRecording]);
+
+  // Under a single floor, another speaker taking it stops the host's microphone
+  const floorHolder = session?.floorPolicy === 'single' && session.floorHolderId
+    ? participants.find(p => p.id === session.floorHolderId)
+    : undefined;
+
+  useEffect(() => {
+    if (!floorLostTo) return;
+    if (isRecording) {
+      stopRecording();
+      setIsRecording(false);
+      metadataSentRef.current = false;
+      toast({
+        title: "Floor taken",
+        description: `${floorLostTo} has the floor. Turn your microphone on again to take it back.`,
+      });
+    }
+    setFloorLostTo(null);
+  }, [floorLostTo, isRecording, stopRecording, toast]);
+
   const handleHostMicToggle = async () => {
     if (!hostParticipant) return;
     
@@ -167,16 +262,8 @@ export default function AdminDashboard() {
     mutationFn: async ({ participantId, granted }: { participantId: string, granted: boolean }) => {
       return apiRequest('PATCH', `/api/participants/${participantId}/speaking`, { isSpeaking: granted });
     },
-    onSuccess: (_, { participantId, granted }) => {
+    onSuccess: (_, { granted }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'participants'] });
-      sendMessage({
-        type: 'speak-permission',
-        data: {
-          sessionId: sessionId,
-          participantId: participantId,
-          isSpeaking: granted
-        }
-      });
       toast({
         title: granted ? "Permission Granted" : "Permission Denied",
         description: granted ? "Participant can now speak." : "Participant speaking permission removed.",
@@ -191,16 +278,185 @@ export default function AdminDashboard() {
     }
   });
 
-  const endSessionMutation = useMutation({
+  const roleMutation = useMutation({
+    mutationFn: async ({ participantId, role }: { participantId: string, role: string }) => {
+      return apiRequest('PATCH', `/api/participants/${participantId}/role`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'participants'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const muteMutation = useMutation({
+    mutationFn: async ({ participantId, isMuted }: { participantId: string, isMuted: boolean }) => {
+      return apiRequest('PATCH', `/api/participants/${participantId}/mute`, { isMuted });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'participants'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const admissionMutation = useMutation({
+    mutationFn: async ({ participantId, decision }: { participantId: string, decision: 'admit' | 'reject' }) => {
+      return apiRequest('POST', `/api/participants/${participantId}/${decision}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'participants'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const announceMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const res = await apiRequest('POST', `/api/sessions/${sessionId}/announcements`, { text });
+      return res.json() as Promise<AnnouncementData>;
+    },
+    onSuccess: (announcement) => {
+      setAnnouncementText('');
+      appendAnnouncement(announcement.sessionId, announcement);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const removeAnnouncementMutation = useMutation({
+    mutationFn: async (announcementId: string) => {
+      return apiRequest('DELETE', `/api/announcements/${announcementId}`);
+    },
+    onSuccess: (_, announcementId) => {
+      removeAnnouncement(sessionId || '', announcementId);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const floorPolicyMutation = useMutation({
+    mutationFn: async (floorPolicy: FloorPolicy) => {
+      return apiRequest('PATCH', `/api/sessions/${sessionId}`, { floorPolicy });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const reorderQueueMutation = useMutation({
+    mutationFn: async (participantIds: string[]) => {
+      const response = await apiRequest('PUT', `/api/sessions/${sessionId}/speaker-queue`, { participantIds });
+      return response.json() as Promise<SpeakerQueueData>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['/api/sessions', sessionId, 'speaker-queue'], data);
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'speaker-queue'] });
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Promotes the head of the queue and revokes the attendee who spoke before
+  const nextSpeakerMutation = useMutation({
     mutationFn: async () => {
-      return apiRequest('DELETE', `/api/sessions/${sessionId}`);
+      const body = turnLimit === 'session' ? {} : { timeLimitSeconds: turnLimit === 'none' ? null : Number(turnLimit) };
+      return apiRequest('POST', `/api/sessions/${sessionId}/speaker-queue/next`, body);
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'participants'] });
+    },
+    onError: (error) => {
       toast({
-        title: "Session Ended",
-        description: "You have ended the session.",
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
       });
-      navigate('/dashboard');
+    }
+  });
+
+  const moveInQueue = (index: number, offset: number) => {
+    const ids = queue.map(entry => entry.participantId);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    reorderQueueMutation.mutate(ids);
+  };
+
+  // Kicked attendees may join again; banned ones cannot
+  const removeMutation = useMutation({
+    mutationFn: async ({ participantId, action }: { participantId: string, action: 'kick' | 'ban' }) => {
+      return apiRequest('POST', `/api/participants/${participantId}/${action}`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'participants'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'moderation-log'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Ending keeps the session and its transcript; attendees are notified over the WebSocket
+  const transitionMutation = useMutation({
+    mutationFn: async (action: 'start' | 'pause' | 'resume' | 'end') => {
+      const response = await apiRequest('POST', `/api/sessions/${sessionId}/${action}`);
+      return response.json() as Promise<PublicSession>;
+    },
+    onSuccess: (updated, action) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId] });
+      if (action === 'end') {
+        toast({
+          title: "Session Ended",
+          description: "You have ended the session. Its transcript is still available.",
+        });
+        navigate('/dashboard');
+      } else {
+        toast({
+          title: updated.status === 'live' ? "Session Live" : "Session Paused",
+          description: updated.status === 'live' ? "Attendees can now hear speakers." : "Audio is paused for everyone.",
+        });
+      }
     },
     onError: (error) => {
       toast({
@@ -215,14 +471,20 @@ export default function AdminDashboard() {
     if (!lastMessage) return;
 
     try {
-      const message = JSON.parse(lastMessage.data);
+      const message = lastMessage;
 
       switch (message.type) {
         case 'audio-synthesized':
           console.log('[Audio] Host received audio-synthesized from:', message.data.participantId, 'Language:', message.data.language, 'Host language:', hostParticipant?.language);
           
           // Host only listens to OTHER speakers' interpretations in their preferred language
-          if (message.data.audioContent && hostParticipant && message.data.participantId !== hostParticipant.id && message.data.language === hostParticipant.language) {
+          if (
+            message.data.audioContent &&
+            hostParticipant &&
+            message.data.participantId !== hostParticipant.id &&
+            message.data.language === hostParticipant.language &&
+            (message.data.voice ?? null) === (hostParticipant.preferredVoice ?? null)
+          ) {
             try {
               audioQueueRef.current.forceInitializeAudioContext().then(() => {
                 console.log('[Audio] Audio context initialized');
@@ -237,11 +499,11 @@ export default function AdminDashboard() {
                 bytes[i] = binaryString.charCodeAt(i);
               }
               
-              const audioBlob = new Blob([bytes], { type: 'audio/mpeg' });
+              const audioBlob = new Blob([bytes], { type: message.data.mimeType || 'audio/mpeg' });
               const audioUrl = URL.createObjectURL(audioBlob);
               
               console.log('[Audio] Host queuing audio from speaker in', message.data.language);
-              queueAudio(audioUrl, `audio-${message.data.participantId}-${message.data.timestamp}`);
+              queueAudio(audioUrl, `audio-${message.data.announcementId ?? message.data.participantId}-${message.data.timestamp}`);
             } catch (err) {
               console.error('[Audio] Error processing audio content:', err);
             }
@@ -251,13 +513,56 @@ export default function AdminDashboard() {
         case 'hand-raise':
         case 'speak-permission':
         case 'participant-joined':
+        case 'participant-left':
+        case 'participant-role':
+        case 'speaker-status':
+        case 'lobby-updated':
           queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'participants'] });
           break;
+
+        case 'session-status':
+          queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId] });
+          break;
+
+        case 'question-updated':
+          queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'questions'] });
+          break;
+
+        case 'chat-message':
+          appendChatMessage(message.data.sessionId, message.data);
+          break;
+
+        case 'chat-message-deleted':
+          removeChatMessage(message.data.sessionId, message.data.messageId);
+          break;
+
+        case 'chat-muted':
+          queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'participants'] });
+          break;
+
+        case 'announcement':
+          appendAnnouncement(message.data.sessionId, message.data);
+          break;
+
+        case 'announcement-removed':
+          removeAnnouncement(message.data.sessionId, message.data.announcementId);
+          break;
+
+        case 'speaker-queue':
+          queryClient.setQueryData(['/api/sessions', sessionId, 'speaker-queue'], message.data);
+          break;
+
+        case 'floor-changed':
+          queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId] });
+          if (message.data.holderId && message.data.holderId !== hostParticipant?.id) {
+            setFloorLostTo(message.data.holderName || 'Another speaker');
+          }
+          break;
       }
     } catch (error) {
-      console.error('Error parsing WebSocket message:', error);
+      console.error('Error handling WebSocket message:', error);
     }
-  }, [lastMessage, sessionId, queueAudio]);
+  }, [lastMessage, sessionId, queueAudio, hostParticipant?.id]);
 
   const joinUrl = typeof window !== 'undefined' 
     ? `${window.location.origin}/join/${sessionId}`
@@ -322,8 +627,6 @@ export default function AdminDashboard() {
     }
   };
 
-  const participantsWithHandRaised = participants.filter(p => p.handRaised);
-
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center p-4">
@@ -361,20 +664,48 @@ export default function AdminDashboard() {
               <div className="flex items-center gap-3 text-sm text-muted-foreground">
                 <div className="flex items-center gap-1.5">
                   <Users className="w-4 h-4" />
-                  <span>{participants.length}</span>
+                  <span>{connectedParticipants.length}</span>
                 </div>
                 <span>•</span>
                 <div className="flex items-center gap-1.5">
                   <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-muted-foreground'}`}></div>
-                  {isConnected ? 'Live' : 'Disconnected'}
+                  {isConnected ? 'Connected' : 'Disconnected'}
                 </div>
+                <Badge variant={isLive ? "default" : "secondary"} className="capitalize" data-testid="badge-session-status">
+                  {sessionStatus}
+                </Badge>
               </div>
             </div>
+            {(sessionStatus === 'draft' || sessionStatus === 'scheduled') && (
+              <Button
+                size="sm"
+                onClick={() => transitionMutation.mutate('start')}
+                disabled={transitionMutation.isPending}
+                data-testid="button-start-session"
+                className="shrink-0"
+              >
+                <Play className="w-4 h-4 mr-1" />
+                Start
+              </Button>
+            )}
+            {(sessionStatus === 'live' || sessionStatus === 'paused') && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => transitionMutation.mutate(isLive ? 'pause' : 'resume')}
+                disabled={transitionMutation.isPending}
+                data-testid="button-pause-session"
+                className="shrink-0"
+              >
+                {isLive ? <Pause className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+                {isLive ? 'Pause' : 'Resume'}
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="icon"
-              onClick={() => endSessionMutation.mutate()}
-              disabled={endSessionMutation.isPending}
+              onClick={() => transitionMutation.mutate('end')}
+              disabled={transitionMutation.isPending || sessionStatus === 'ended'}
               data-testid="button-end-session"
               className="shrink-0 text-red-600 hover:bg-red-100 dark:hover:bg-red-900 ml-auto"
               title="End session"
@@ -389,32 +720,175 @@ export default function AdminDashboard() {
       <main className="flex-1 flex flex-col p-4 overflow-y-auto">
         <div className="max-w-2xl w-full mx-auto space-y-6">
           
+          {/* Lobby: joiners waiting for approval */}
+          {lobbyParticipants.length > 0 && (
+            <div className="space-y-3">
+              <h2 className="text-lg font-medium text-black dark:text-white">
+                Lobby <span className="text-sm font-normal text-gray-600 dark:text-gray-400">({lobbyParticipants.length} waiting)</span>
+              </h2>
+              <div className="space-y-0 border border-gray-300 dark:border-gray-700 rounded-lg overflow-hidden bg-white dark:bg-black">
+                {lobbyParticipants.map((participant, index) => (
+                  <div
+                    key={participant.id}
+                    className={`p-4 flex items-center justify-between ${
+                      index !== lobbyParticipants.length - 1 ? 'border-b border-gray-300 dark:border-gray-700' : ''
+                    }`}
+                    data-testid={`lobby-${participant.id}`}
+                  >
+                    <div className="flex-1 min-w-0 flex items-center gap-2">
+                      <DoorOpen className="w-4 h-4 text-gray-500 shrink-0" />
+                      <p className="font-medium text-black dark:text-white truncate font-['Poppins']">
+                        {participant.name} <span className="text-gray-600 dark:text-gray-400 font-normal">({participant.language})</span>
+                      </p>
+                    </div>
+                    <div className="flex gap-2 ml-3">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => admissionMutation.mutate({ participantId: participant.id, decision: 'admit' })}
+                        disabled={admissionMutation.isPending}
+                        data-testid={`button-admit-${participant.id}`}
+                      >
+                        <Check className="w-4 h-4 mr-1 text-green-600" />
+                        Admit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => admissionMutation.mutate({ participantId: participant.id, decision: 'reject' })}
+                        disabled={admissionMutation.isPending}
+                        data-testid={`button-reject-${participant.id}`}
+                      >
+                        <X className="w-4 h-4 mr-1 text-red-600" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Floor control: who may be heard when speakers overlap */}
+          <div className="flex items-center justify-between gap-2" data-testid="floor-control">
+            <p className="text-sm text-gray-600 dark:text-gray-400" data-testid="text-floor-holder">
+              {session.floorPolicy === 'single'
+                ? (floorHolder ? `${floorHolder.name} has the floor` : 'The floor is free')
+                : 'Everyone with permission can speak at once'}
+            </p>
+            <Select
+              value={session.floorPolicy}
+              onValueChange={(policy) => floorPolicyMutation.mutate(policy as FloorPolicy)}
+              disabled={floorPolicyMutation.isPending}
+            >
+              <SelectTrigger className="h-8 w-40 text-xs" data-testid="select-floor-policy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open floor</SelectItem>
+                <SelectItem value="single">One speaker at a time</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Speaker Queue: raised hands in speaking order */}
+          {queue.length > 0 && (
+            <div className="space-y-3" data-testid="speaker-queue">
+              <div className="flex items-center justify-between gap-2">
+                <h2 className="text-lg font-medium text-black dark:text-white">Speaker Queue</h2>
+                <div className="flex items-center gap-2">
+                  <Select value={turnLimit} onValueChange={setTurnLimit}>
+                    <SelectTrigger className="h-8 w-36 text-xs" data-testid="select-turn-limit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="session">
+                        {session.speakerTimeLimitSeconds ? `Default (${Math.round(session.speakerTimeLimitSeconds / 60)} min)` : "Default (no limit)"}
+                      </SelectItem>
+                      <SelectItem value="none">No time limit</SelectItem>
+                      <SelectItem value="60">1 minute</SelectItem>
+                      <SelectItem value="120">2 minutes</SelectItem>
+                      <SelectItem value="180">3 minutes</SelectItem>
+                      <SelectItem value="300">5 minutes</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    onClick={() => nextSpeakerMutation.mutate()}
+                    disabled={nextSpeakerMutation.isPending}
+                    data-testid="button-next-speaker"
+                  >
+                    <SkipForward className="w-4 h-4 mr-1" />
+                    Next Speaker
+                  </Button>
+                </div>
+              </div>
+              <ol className="border border-gray-300 dark:border-gray-700 rounded-lg overflow-hidden bg-white dark:bg-black">
+                {queue.map((entry, index) => (
+                  <li
+                    key={entry.participantId}
+                    className={`px-4 py-2 flex items-center justify-between ${
+                      index !== queue.length - 1 ? 'border-b border-gray-300 dark:border-gray-700' : ''
+                    }`}
+                    data-testid={`queue-${entry.participantId}`}
+                  >
+                    <span className="font-['Poppins'] text-black dark:text-white truncate">
+                      <span className="text-gray-500 mr-2">{index + 1}.</span>
+                      {entry.name}
+                    </span>
+                    <div className="flex gap-1 ml-3">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        onClick={() => moveInQueue(index, -1)}
+                        disabled={index === 0 || reorderQueueMutation.isPending}
+                        data-testid={`button-queue-up-${entry.participantId}`}
+                        title="Move up"
+                      >
+                        <ChevronUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        onClick={() => moveInQueue(index, 1)}
+                        disabled={index === queue.length - 1 || reorderQueueMutation.isPending}
+                        data-testid={`button-queue-down-${entry.participantId}`}
+                        title="Move down"
+                      >
+                        <ChevronDown className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
           {/* Unified Attendees Section */}
           <div className="space-y-3">
             <h2 className="text-lg font-medium text-black dark:text-white">Attendees</h2>
             
-            {participants.length === 0 ? (
+            {connectedParticipants.length === 0 ? (
               <Card className="bg-white dark:bg-black border-gray-300 dark:border-gray-700">
                 <CardContent className="p-6 text-center">
                   <Users className="w-8 h-8 text-gray-400 mx-auto mb-2" />
-                  <p className="text-gray-600 dark:text-gray-400 text-sm">No participants yet</p>
+                  <p className="text-gray-600 dark:text-gray-400 text-sm">No one is connected yet</p>
                   <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">Share the invite link to get started</p>
                 </CardContent>
               </Card>
             ) : (
               <div className="space-y-0 border border-gray-300 dark:border-gray-700 rounded-lg overflow-hidden bg-white dark:bg-black">
-                {participants.map((participant, index) => {
+                {connectedParticipants.map((participant, index) => {
                   const isHost = participant.role === 'host';
-                  const roleLabel = isHost && participant.isSpeaking ? '(Host & Speaker)' 
-                    : isHost ? '(Host)' 
-                    : participant.isSpeaking ? '(Speaker)' 
-                    : '';
+                  const roleLabel = describeParticipant(participant);
                   
                   return (
                     <div 
                       key={participant.id} 
                       className={`p-4 flex items-center justify-between ${
-                        index !== participants.length - 1 ? 'border-b border-gray-300 dark:border-gray-700' : ''
+                        index !== connectedParticipants.length - 1 ? 'border-b border-gray-300 dark:border-gray-700' : ''
                       }`}
                       data-testid={`attendee-${participant.id}`}
                     >
@@ -422,6 +896,9 @@ export default function AdminDashboard() {
                         <p className="font-medium text-black dark:text-white truncate font-['Poppins']">
                           {participant.name} {roleLabel && <span className="text-gray-600 dark:text-gray-400 font-normal">{roleLabel}</span>}
                         </p>
+                        {participant.isSpeaking && participant.speakingUntil && (
+                          <SpeakingCountdown until={participant.speakingUntil} className="text-xs text-gray-500" />
+                        )}
                       </div>
                       
                       <div className="flex items-center gap-3 ml-3">
@@ -472,7 +949,67 @@ export default function AdminDashboard() {
                             <X className="w-4 h-4 text-red-600" />
                           </Button>
                         )}
+
+                        {participant.isSpeaking && !isHost && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-8 w-8 p-0 hover:bg-gray-100 dark:hover:bg-gray-800"
+                            onClick={() => muteMutation.mutate({
+                              participantId: participant.id,
+                              isMuted: !participant.isMuted
+                            })}
+                            data-testid={`button-mute-${participant.id}`}
+                            title={participant.isMuted ? "Unmute speaker" : "Mute speaker"}
+                          >
+                            {participant.isMuted ? <VolumeX className="w-4 h-4 text-red-600" /> : <Volume2 className="w-4 h-4" />}
+                          </Button>
+                        )}
+
+                        {!isHost && (
+                          <Select
+                            value={participant.role === 'co-host' || participant.role === 'moderator' ? participant.role : 'participant'}
+                            onValueChange={(role) => roleMutation.mutate({ participantId: participant.id, role })}
+                          >
+                            <SelectTrigger className="h-8 w-32 text-xs" data-testid={`select-role-${participant.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="participant">Attendee</SelectItem>
+                              <SelectItem value="moderator">Moderator</SelectItem>
+                              <SelectItem value="co-host">Co-host</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        )}
                         
+                        {!isHost && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-8 w-8 p-0 hover:bg-gray-100 dark:hover:bg-gray-800"
+                            onClick={() => removeMutation.mutate({ participantId: participant.id, action: 'kick' })}
+                            disabled={removeMutation.isPending}
+                            data-testid={`button-kick-${participant.id}`}
+                            title="Remove from session"
+                          >
+                            <UserX className="w-4 h-4" />
+                          </Button>
+                        )}
+
+                        {!isHost && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-8 w-8 p-0 hover:bg-gray-100 dark:hover:bg-gray-800"
+                            onClick={() => removeMutation.mutate({ participantId: participant.id, action: 'ban' })}
+                            disabled={removeMutation.isPending}
+                            data-testid={`button-ban-${participant.id}`}
+                            title="Ban from session"
+                          >
+                            <Ban className="w-4 h-4 text-red-600" />
+                          </Button>
+                        )}
+
                         {isHost && (
                           <Button
                             size="sm"
@@ -480,7 +1017,8 @@ export default function AdminDashboard() {
                             className="h-10 w-10 rounded-full p-0 border-gray-300 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800"
                             data-testid={`button-mic-${participant.id}`}
                             onClick={handleHostMicToggle}
-                            disabled={!isSupported}
+                            disabled={!isSupported || (!isLive && !isRecording)}
+                            title={isLive ? undefined : "Start the session to speak"}
                           >
                             {isRecording ? (
                               <MicOff className="w-5 h-5" />
@@ -497,6 +1035,94 @@ export default function AdminDashboard() {
             )}
           </div>
 
+          {/* Announcements: pinned for everyone, translated and voiced */}
+          <div className="space-y-3" data-testid="announcements">
+            <h2 className="text-lg font-medium text-black dark:text-white">Announcements</h2>
+            <div className="flex gap-2">
+              <Input
+                value={announcementText}
+                onChange={(e) => setAnnouncementText(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && announcementText.trim() && announceMutation.mutate(announcementText.trim())}
+                placeholder="e.g. We resume at 14:00 in room B"
+                maxLength={500}
+                data-testid="input-announcement"
+              />
+              <Button
+                onClick={() => announceMutation.mutate(announcementText.trim())}
+                disabled={!announcementText.trim() || announceMutation.isPending || session.status === 'ended'}
+                data-testid="button-announce"
+              >
+                <Megaphone className="w-4 h-4 mr-1" />
+                Announce
+              </Button>
+            </div>
+            {announcements.length > 0 && (
+              <ul className="border border-gray-300 dark:border-gray-700 rounded-lg overflow-hidden bg-white dark:bg-black">
+                {announcements.map((announcement, index) => (
+                  <li
+                    key={announcement.id}
+                    className={`px-4 py-2 flex items-center justify-between gap-3 ${
+                      index !== announcements.length - 1 ? 'border-b border-gray-300 dark:border-gray-700' : ''
+                    }`}
+                    data-testid={`announcement-${announcement.id}`}
+                  >
+                    <span className="text-black dark:text-white break-words min-w-0">{announcement.originalText}</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0 shrink-0"
+                      onClick={() => removeAnnouncementMutation.mutate(announcement.id)}
+                      disabled={removeAnnouncementMutation.isPending}
+                      data-testid={`button-remove-announcement-${announcement.id}`}
+                      title="Remove announcement"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Audience Q&A */}
+          <QuestionPanel
+            sessionId={session.id}
+            participantId={hostParticipant?.id}
+            language={hostParticipant?.language}
+            canModerate
+          />
+
+          {/* Translated chat */}
+          <ChatPanel
+            sessionId={session.id}
+            participantId={hostParticipant?.id}
+            language={hostParticipant?.language}
+            canModerate
+          />
+
+          {moderationLog.length > 0 && (
+            <div className="space-y-2" data-testid="moderation-log">
+              <h2 className="text-sm font-medium text-gray-600 dark:text-gray-400">Removed Participants</h2>
+              <ul className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+                {moderationLog.map((entry) => (
+                  <li key={entry.id}>
+                    {entry.participantName} was {entry.action === 'ban' ? 'banned' : 'removed'} by {entry.performedBy}
+                    {' '}at {new Date(entry.createdAt).toLocaleTimeString()}
+                    {entry.reason && ` (${entry.reason})`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {memoryStats && memoryStats.session.exactHits + memoryStats.session.fuzzyHits + memoryStats.session.misses > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 text-center" data-testid="text-translation-memory-stats">
+              Translation memory: {Math.round(memoryStats.session.hitRate * 100)}% reused
+              ({memoryStats.session.exactHits} exact, {memoryStats.session.fuzzyHits} fuzzy, {memoryStats.session.misses} new)
+              · {memoryStats.memory.entries} saved
+            </p>
+          )}
+
           {/* Action Buttons */}
           <div className="space-y-3 pb-6">
             <Dialog open={isQrDialogOpen} onOpenChange={setIsQrDialogOpen}>
@@ -520,6 +1146,15 @@ export default function AdminDashboard() {
                     <p className="text-sm text-muted-foreground mt-4 text-center">
                       Scan this QR code to join
                     </p>
+                    {(session.hasPasscode || session.inviteOnly || session.requireApproval) && (
+                      <p className="text-xs text-muted-foreground mt-1 text-center" data-testid="text-join-requirements">
+                        {[
+                          session.inviteOnly && "Invited accounts only",
+                          session.hasPasscode && "passcode required",
+                          session.requireApproval && "you admit each joiner"
+                        ].filter(Boolean).join(" · ")}
+                      </p>
+                    )}
                   </div>
                   
                   <div className="flex gap-2">
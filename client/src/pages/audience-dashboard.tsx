@@ -1,14 +1,24 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { type Session, type Participant } from "@shared/schema";
+import { type Participant } from "@shared/schema";
+import type { LanguageSubscription, RemovedData, SpeakerQueueData } from "@shared/protocol";
+import type { PublicSession } from "@shared/session-access";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useWebSocket } from "@/lib/websocket";
-import { Volume2, VolumeX, Hand, LogOut, Mic, MicOff, Users } from "lucide-react";
+import { Volume2, VolumeX, Hand, LogOut, Mic, MicOff, Users, Check, X, Loader2 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { participantAuthHeaders } from "@/lib/participant-token";
+import { describeParticipant, isFloorManager } from "@/lib/participant-roles";
 import { useAudioCapture } from "@/lib/audio";
+import { useToast } from "@/hooks/use-toast";
+import { SpeakingCountdown } from "@/components/speaking-countdown";
+import { QuestionPanel } from "@/components/question-panel";
+import { appendChatMessage, ChatPanel, removeChatMessage } from "@/components/chat-panel";
+import { AnnouncementBanner, appendAnnouncement, removeAnnouncement, translateAnnouncement } from "@/components/announcement-banner";
 import { SmoothTranslationDisplay } from "@/components/smooth-translation-display";
 import { AudioQueue } from "@/lib/audio-queue";
 
@@ -18,36 +28,61 @@ interface Translation {
   speakerName: string;
   originalText: string;
   translatedText: string;
+  untranslated: boolean; // Translation failed for this language; translatedText is the original
   timestamp: number;
 }
 
 export default function AudienceDashboard() {
   const { sessionId, participantId } = useParams();
   const [, navigate] = useLocation();
+  const { toast } = useToast();
   const [translations, setTranslations] = useState<Translation[]>([]);
   const [activeSpeakers, setActiveSpeakers] = useState<Record<string, boolean>>({});
   const [handRaised, setHandRaised] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
+  const [removal, setRemoval] = useState<RemovedData | null>(null);
+  const [floorLostTo, setFloorLostTo] = useState<string | null>(null);
   const audioQueueRef = useRef<AudioQueue>(new AudioQueue(0.8));
   const metadataSentRef = useRef(false);
 
-  const { data: session, isLoading } = useQuery<Session>({
+  const { data: session, isLoading } = useQuery<PublicSession>({
     queryKey: ['/api/sessions', sessionId],
     enabled: !!sessionId
   });
 
+  // Participant reads are limited to session members; guests prove it with their token
   const { data: participant } = useQuery<Participant>({
     queryKey: ['/api/participants', participantId],
+    queryFn: async () => (await apiRequest('GET', `/api/participants/${participantId}`, undefined, participantAuthHeaders(participantId!))).json(),
     enabled: !!participantId
   });
 
   const { data: allParticipants = [] } = useQuery<Participant[]>({
     queryKey: ['/api/sessions', sessionId, 'participants'],
-    enabled: !!sessionId
+    queryFn: async () => (await apiRequest('GET', `/api/sessions/${sessionId}/participants`, undefined, participantAuthHeaders(participantId!))).json(),
+    enabled: !!sessionId && !!participantId && participant?.admission === 'admitted'
+  });
+
+  // Raised hands in speaking order (kept current by speaker-queue broadcasts)
+  const { data: speakerQueue } = useQuery<SpeakerQueueData>({
+    queryKey: ['/api/sessions', sessionId, 'speaker-queue'],
+    queryFn: async () => (await apiRequest('GET', `/api/sessions/${sessionId}/speaker-queue`, undefined, participantAuthHeaders(participantId!))).json(),
+    enabled: !!sessionId && !!participantId && participant?.admission === 'admitted'
   });
+  const queuePosition = (speakerQueue?.queue.findIndex(entry => entry.participantId === participantId) ?? -1) + 1;
 
-  const { lastMessage, isConnected, sendMessage, sendBinaryMessage } = useWebSocket(sessionId || '');
+  // Only admitted attendees with an open connection
+  const connectedParticipants = allParticipants.filter(p => p.isActive && p.admission === 'admitted');
+
+  // Receive only this participant's language, and speech in the voice they picked
+  const subscription: LanguageSubscription | undefined = participant && {
+    languages: [participant.language],
+    audio: participant.preferredOutput === 'voice',
+    voice: participant.preferredVoice ?? null
+  };
+
+  const { lastMessage, isConnected, sendMessage, sendBinaryMessage } = useWebSocket(sessionId || '', participantId, subscription);
 
   // Wrap audio callbacks in useCallback with proper dependencies
   const handleAudioData = useCallback((audioData: Uint8Array) => {
@@ -113,14 +148,40 @@ export default function AudienceDashboard() {
     }
   }, [participant?.handRaised]);
 
+  // The server only accepts audio while the session is live, from unmuted speakers still in it
+  const isLive = session?.status === 'live';
+  const canSpeak = !!participant?.isSpeaking && !participant?.isMuted && !removal;
+
+  useEffect(() => {
+    if ((!canSpeak || !isLive) && isRecording) {
+      stopRecording();
+      setIsRecording(false);
+      metadataSentRef.current = false;
+    }
+  }, [canSpeak, isLive, isRecording, stopRecording]);
+
+  // Under a single floor, another speaker taking it stops this microphone
+  const floorHolder = session?.floorPolicy === 'single' && session.floorHolderId
+    ? allParticipants.find(p => p.id === session.floorHolderId)
+    : undefined;
+
   useEffect(() => {
-    if (!participant?.isSpeaking && isRecording) {
+    if (!floorLostTo) return;
+    if (isRecording) {
       stopRecording();
       setIsRecording(false);
+      metadataSentRef.current = false;
+      toast({
+        title: "Floor taken",
+        description: `${floorLostTo} has the floor. Turn your microphone on again to take it back.`,
+      });
     }
-  }, [participant?.isSpeaking, isRecording, stopRecording]);
+    setFloorLostTo(null);
+  }, [floorLostTo, isRecording, stopRecording, toast]);
 
   const handleMicToggle = () => {
+    if (!participantId) return;
+
     if (isRecording) {
       stopRecording();
       setIsRecording(false);
@@ -135,7 +196,7 @@ export default function AudienceDashboard() {
         }
       });
     } else {
-      if (isSupported && participant?.isSpeaking) {
+      if (isSupported && canSpeak && isLive) {
         startRecording();
         setIsRecording(true);
         sendMessage({
@@ -172,9 +233,10 @@ export default function AudienceDashboard() {
   const raiseHandMutation = useMutation({
     mutationFn: async (raised: boolean) => {
       if (!participantId) return;
-      return apiRequest('PATCH', `/api/participants/${participantId}/raise-hand`, { handRaised: raised });
+      return apiRequest('PATCH', `/api/participants/${participantId}/raise-hand`, { handRaised: raised }, participantAuthHeaders(participantId));
     },
     onSuccess: (_, raised) => {
+      if (!participantId) return;
       setHandRaised(raised);
       sendMessage({
         type: 'hand-raise',
@@ -188,12 +250,42 @@ export default function AudienceDashboard() {
     }
   });
 
+  // Co-hosts and moderators manage the floor from here (the server checks their role)
+  const canModerate = isFloorManager(participant?.role);
+
+  const moderationMutation = useMutation({
+    mutationFn: async ({ targetId, action, value }: { targetId: string, action: 'speaking' | 'mute' | 'raise-hand', value: boolean }) => {
+      if (!participantId) return;
+      const body = action === 'speaking' ? { isSpeaking: value } : action === 'mute' ? { isMuted: value } : { handRaised: value };
+      return apiRequest('PATCH', `/api/participants/${targetId}/${action}`, body, participantAuthHeaders(participantId));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'participants'] });
+    }
+  });
+
+  // Voices available for the participant's language (voice output only)
+  const { data: voiceData } = useQuery<{ voices: Array<{ name: string; label: string; gender: string }> }>({
+    queryKey: ['/api/audio/voices', participant?.language],
+    enabled: !!participant?.language && participant?.preferredOutput === 'voice'
+  });
+
+  const voiceMutation = useMutation({
+    mutationFn: async (preferredVoice: string | null) => {
+      if (!participantId) return;
+      return apiRequest('PATCH', `/api/participants/${participantId}/preferences`, { preferredVoice }, participantAuthHeaders(participantId));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/participants', participantId] });
+    }
+  });
+
   useEffect(() => {
     if (!lastMessage) return;
 
     const processMessage = async () => {
       try {
-        const message = JSON.parse(lastMessage.data);
+        const message = lastMessage;
 
         switch (message.type) {
           case 'translation':
@@ -203,6 +295,7 @@ export default function AudienceDashboard() {
               speakerName: message.data.speakerName,
               originalText: message.data.originalText,
               translatedText: message.data.translations[participant?.language || ''] || message.data.originalText,
+              untranslated: message.data.failedLanguages.includes(participant?.language || ''),
               timestamp: message.data.timestamp,
             };
             setTranslations(prev => [...prev.slice(-9), translation]);
@@ -214,6 +307,9 @@ export default function AudienceDashboard() {
               [message.data.participantId]: message.data.isActive && !message.data.isMuted
             }));
             queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'participants'] });
+            if (message.data.participantId === participantId) {
+              queryClient.invalidateQueries({ queryKey: ['/api/participants', participantId] });
+            }
             break;
 
           case 'audio-synthesized':
@@ -221,8 +317,13 @@ export default function AudienceDashboard() {
             
             // Only queue audio if:
             // 1. Participant wants voice output AND
-            // 2. Audio is in their preferred language
-            if (participant?.preferredOutput === 'voice' && message.data.language === participant?.language) {
+            // 2. Audio is in their preferred language AND
+            // 3. Audio uses the voice they picked
+            if (
+              participant?.preferredOutput === 'voice' &&
+              message.data.language === participant?.language &&
+              (message.data.voice ?? null) === (participant?.preferredVoice ?? null)
+            ) {
               const audioContent = message.data.audioContent;
               console.log('[Audio] ✅ Queuing synthesized audio for', participant.language);
               
@@ -243,11 +344,11 @@ export default function AudienceDashboard() {
                     bytes[i] = binaryString.charCodeAt(i);
                   }
                   
-                  const audioBlob = new Blob([bytes], { type: 'audio/mpeg' });
+                  const audioBlob = new Blob([bytes], { type: message.data.mimeType || 'audio/mpeg' });
                   const audioUrl = URL.createObjectURL(audioBlob);
                   
                   console.log('[Audio] Created audio URL, queuing:', audioUrl);
-                  queueAudio(audioUrl, `audio-${message.data.participantId}-${message.data.timestamp}`);
+                  queueAudio(audioUrl, `audio-${message.data.announcementId ?? message.data.participantId}-${message.data.timestamp}`);
                 } catch (err) {
                   console.error('[Audio] Error processing audio content:', err);
                 }
@@ -259,14 +360,9 @@ export default function AudienceDashboard() {
             }
             break;
 
-          case 'translation-word':
-            if (message.data.audioUrl) {
-              queueAudio(message.data.audioUrl, `word-${message.data.id}`);
-            }
-            break;
-
           case 'participant-joined':
           case 'participant-left':
+          case 'participant-role':
           case 'hand-raise':
           case 'speak-permission':
             queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'participants'] });
@@ -274,14 +370,79 @@ export default function AudienceDashboard() {
               queryClient.invalidateQueries({ queryKey: ['/api/participants', participantId] });
             }
             break;
+
+          case 'session-status':
+            queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId] });
+            break;
+
+          case 'admission':
+            queryClient.invalidateQueries({ queryKey: ['/api/participants', participantId] });
+            break;
+
+          case 'removed':
+            setRemoval(message.data);
+            break;
+
+          case 'question-updated':
+            queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'questions'] });
+            break;
+
+          case 'chat-message':
+            appendChatMessage(message.data.sessionId, message.data);
+            break;
+
+          case 'chat-message-deleted':
+            removeChatMessage(message.data.sessionId, message.data.messageId);
+            break;
+
+          case 'announcement':
+            appendAnnouncement(message.data.sessionId, message.data);
+            toast({
+              title: "Announcement",
+              description: translateAnnouncement(message.data, participant?.language),
+            });
+            break;
+
+          case 'announcement-removed':
+            removeAnnouncement(message.data.sessionId, message.data.announcementId);
+            break;
+
+          case 'chat-muted':
+            queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'participants'] });
+            if (message.data.participantId === participantId) {
+              queryClient.invalidateQueries({ queryKey: ['/api/participants', participantId] });
+            }
+            break;
+
+          case 'speaker-queue':
+            queryClient.setQueryData(['/api/sessions', sessionId, 'speaker-queue'], message.data);
+            break;
+
+          case 'floor-changed':
+            queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId] });
+            if (message.data.holderId && message.data.holderId !== participantId) {
+              setFloorLostTo(message.data.holderName || 'Another speaker');
+            }
+            break;
+
+          case 'speaking-time-warning':
+            toast({
+              title: "Time is almost up",
+              description: `You have ${message.data.remainingSeconds} seconds left to speak.`,
+            });
+            break;
+
+          case 'lobby-updated':
+            queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'participants'] });
+            break;
         }
       } catch (error) {
-        console.error('Error parsing WebSocket message:', error);
+        console.error('Error handling WebSocket message:', error);
       }
     };
 
     processMessage();
-  }, [lastMessage, participant?.language, participant?.preferredOutput, participantId, queueAudio]);
+  }, [lastMessage, participant?.language, participant?.preferredOutput, participant?.preferredVoice, participantId, queueAudio]);
 
   const handleLeave = () => {
     if (isRecording) {
@@ -301,6 +462,30 @@ export default function AudienceDashboard() {
     );
   }
 
+  // Kicked or banned: the server closed the connection and deleted this participant
+  if (removal || participant?.admission === 'removed') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6 text-center" data-testid="removed-status">
+            <h1 className="text-2xl font-bold mb-4">Removed from Session</h1>
+            <p className="text-muted-foreground mb-2">
+              {removal?.banned
+                ? 'The host removed you from this session. You cannot rejoin it.'
+                : 'The host removed you from this session.'}
+            </p>
+            {removal?.reason && (
+              <p className="text-sm text-muted-foreground mb-4">Reason: {removal.reason}</p>
+            )}
+            <Button onClick={() => navigate('/')} data-testid="button-back-home">
+              Back to Home
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (!session || !participant) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center p-4">
@@ -319,6 +504,29 @@ export default function AudienceDashboard() {
     );
   }
 
+  // Lobby: the connection stays open and joins the room once the host admits this participant
+  if (participant.admission !== 'admitted') {
+    const rejected = participant.admission === 'rejected';
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6 text-center" data-testid="lobby-status">
+            <h1 className="text-2xl font-bold mb-4">{rejected ? 'Not Admitted' : 'Waiting for the Host'}</h1>
+            {!rejected && <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-muted-foreground" />}
+            <p className="text-muted-foreground mb-4">
+              {rejected
+                ? `The host of ${session.name} did not admit you to the session.`
+                : `You're in the lobby of ${session.name}. You'll join as soon as the host admits you.`}
+            </p>
+            <Button variant="outline" onClick={handleLeave} data-testid="button-leave-lobby">
+              {rejected ? 'Back to Home' : 'Leave'}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   const activeSpeaker = Object.keys(activeSpeakers).find(id => activeSpeakers[id]);
 
   return (
@@ -335,6 +543,25 @@ export default function AudienceDashboard() {
               <Badge variant="outline" className="text-xs" data-testid="badge-participant-language">
                 {participant.language}
               </Badge>
+              {participant.preferredOutput === 'voice' && voiceData && voiceData.voices.length > 0 && (
+                <Select
+                  value={participant.preferredVoice ?? 'default'}
+                  onValueChange={(value) => voiceMutation.mutate(value === 'default' ? null : value)}
+                  disabled={voiceMutation.isPending}
+                >
+                  <SelectTrigger className="h-6 w-auto text-xs px-2" data-testid="select-preferred-voice">
+                    <SelectValue placeholder="Voice" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Default voice</SelectItem>
+                    {voiceData.voices.map((voice) => (
+                      <SelectItem key={voice.name} value={voice.name}>
+                        {voice.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
           </div>
           <Button
@@ -349,6 +576,26 @@ export default function AudienceDashboard() {
         </div>
       </header>
 
+      <AnnouncementBanner sessionId={session.id} participantId={participant.id} language={participant.language} />
+
+      {session.status !== 'live' && (
+        <div className="border-b border-border bg-muted px-4 py-2 text-center text-sm text-muted-foreground" data-testid="banner-session-status">
+          {session.status === 'paused' && 'The host has paused the session. Interpretation will resume shortly.'}
+          {session.status === 'ended' && 'This session has ended.'}
+          {(session.status === 'draft' || session.status === 'scheduled') && (
+            session.scheduledStartAt
+              ? `The session starts at ${new Date(session.scheduledStartAt).toLocaleString()}.`
+              : 'Waiting for the host to start the session.'
+          )}
+        </div>
+      )}
+
+      {session.status === 'live' && floorHolder && (
+        <div className="border-b border-border bg-muted px-4 py-2 text-center text-sm text-muted-foreground" data-testid="banner-floor-holder">
+          {floorHolder.id === participantId ? 'You have the floor.' : `${floorHolder.name} has the floor.`}
+        </div>
+      )}
+
       {/* Main Content - Interpretation Display */}
       <main className="flex-1 flex flex-col overflow-hidden">
         <div className="flex-1 overflow-y-auto p-4">
@@ -357,7 +604,7 @@ export default function AudienceDashboard() {
             <div className="space-y-3">
               <h2 className="text-lg font-medium text-black dark:text-white">Attendees</h2>
               
-              {allParticipants.length === 0 ? (
+              {connectedParticipants.length === 0 ? (
                 <Card className="bg-white dark:bg-black border-gray-300 dark:border-gray-700">
                   <CardContent className="p-6 text-center">
                     <Users className="w-8 h-8 text-gray-400 mx-auto mb-2" />
@@ -366,19 +613,17 @@ export default function AudienceDashboard() {
                 </Card>
               ) : (
                 <div className="space-y-0 border border-gray-300 dark:border-gray-700 rounded-lg overflow-hidden bg-white dark:bg-black">
-                  {allParticipants.map((p, index) => {
+                  {connectedParticipants.map((p, index) => {
                     const isHost = p.role === 'host';
                     const isActivelySpeaking = activeSpeakers[p.id];
-                    const roleLabel = isHost && p.isSpeaking ? '(Host & Speaker)' 
-                      : isHost ? '(Host)' 
-                      : p.isSpeaking ? '(Speaker)' 
-                      : '';
+                    const roleLabel = describeParticipant(p);
+                    const canManage = canModerate && !isHost && p.id !== participantId;
                     
                     return (
                       <div 
                         key={p.id} 
                         className={`p-4 flex items-center justify-between ${
-                          index !== allParticipants.length - 1 ? 'border-b border-gray-300 dark:border-gray-700' : ''
+                          index !== connectedParticipants.length - 1 ? 'border-b border-gray-300 dark:border-gray-700' : ''
                         }`}
                         data-testid={`attendee-${p.id}`}
                       >
@@ -395,6 +640,57 @@ export default function AudienceDashboard() {
                               <Mic className="w-5 h-5 text-green-500 animate-pulse" />
                             </div>
                           )}
+
+                          {canManage && p.handRaised && !p.isSpeaking && (
+                            <div className="flex items-center gap-1">
+                              <Hand className="w-4 h-4 text-orange-500 animate-pulse" />
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-8 w-8 p-0"
+                                onClick={() => moderationMutation.mutate({ targetId: p.id, action: 'speaking', value: true })}
+                                data-testid={`button-approve-${p.id}`}
+                                title="Let them speak"
+                              >
+                                <Check className="w-4 h-4 text-green-600" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-8 w-8 p-0"
+                                onClick={() => moderationMutation.mutate({ targetId: p.id, action: 'raise-hand', value: false })}
+                                data-testid={`button-lower-hand-${p.id}`}
+                                title="Lower their hand"
+                              >
+                                <X className="w-4 h-4 text-red-600" />
+                              </Button>
+                            </div>
+                          )}
+
+                          {canManage && p.isSpeaking && (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-8 w-8 p-0"
+                                onClick={() => moderationMutation.mutate({ targetId: p.id, action: 'mute', value: !p.isMuted })}
+                                data-testid={`button-mute-${p.id}`}
+                                title={p.isMuted ? "Unmute speaker" : "Mute speaker"}
+                              >
+                                {p.isMuted ? <VolumeX className="w-4 h-4 text-red-600" /> : <Volume2 className="w-4 h-4" />}
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-8 w-8 p-0"
+                                onClick={() => moderationMutation.mutate({ targetId: p.id, action: 'speaking', value: false })}
+                                data-testid={`button-revoke-speaker-${p.id}`}
+                                title="Revoke speaking permission"
+                              >
+                                <X className="w-4 h-4 text-red-600" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </div>
                     );
@@ -402,6 +698,23 @@ export default function AudienceDashboard() {
                 </div>
               )}
             </div>
+
+            {/* Audience Q&A */}
+            <QuestionPanel
+              sessionId={session.id}
+              participantId={participantId}
+              language={participant.language}
+              canModerate={canModerate}
+            />
+
+            {/* Translated chat */}
+            <ChatPanel
+              sessionId={session.id}
+              participantId={participantId}
+              language={participant.language}
+              canModerate={canModerate}
+              muted={participant.chatMuted}
+            />
           </div>
         </div>
 
@@ -428,7 +741,7 @@ export default function AudienceDashboard() {
             className="h-14 px-6 rounded-full shadow-lg"
           >
             <Hand className={`w-5 h-5 mr-2 ${handRaised ? 'animate-pulse' : ''}`} />
-            {handRaised ? 'Hand Raised' : 'Raise Hand'}
+            {handRaised ? (queuePosition > 0 ? `#${queuePosition} in Line` : 'Hand Raised') : 'Raise Hand'}
           </Button>
 
           {/* Microphone (if permitted) */}
@@ -437,13 +750,16 @@ export default function AudienceDashboard() {
               variant={isRecording ? "secondary" : "outline"}
               size="lg"
               onClick={handleMicToggle}
-              disabled={!isSupported}
+              disabled={!isSupported || ((!isLive || !canSpeak) && !isRecording)}
               data-testid="button-toggle-mic"
               className="h-14 w-14 rounded-full shadow-lg"
             >
               {isRecording ? <Mic className="w-5 h-5" /> : <MicOff className="w-5 h-5" />}
             </Button>
           )}
+          {participant.isSpeaking && participant.speakingUntil && (
+            <SpeakingCountdown until={participant.speakingUntil} className="text-sm font-medium" />
+          )}
         </div>
       </main>
     </div>
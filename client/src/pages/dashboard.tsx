@@ -1,10 +1,13 @@
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation } from "@tanstack/react-query";
 import { insertSessionSchema, type InsertSession } from "@shared/schema";
+import { getPlan } from "@shared/plans";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -13,15 +16,20 @@ import { useAuth } from "@/lib/auth-context";
 import logoImage from "@assets/nihki-logo.jpg";
 import { LogOut } from "lucide-react";
 
-const languages = [
-  "English", "Spanish", "French", "German", "Italian", "Portuguese", "Russian",
-  "Chinese", "Japanese", "Korean", "Arabic", "Hindi", "Dutch", "Swedish", 
-  "Danish", "Norwegian", "Finnish", "Polish", "Turkish"
-];
+// Invite list as typed: emails separated by commas, spaces or new lines
+function parseEmailList(value: string | undefined): string[] {
+  return (value || "").split(/[\s,;]+/).map(email => email.trim().toLowerCase()).filter(Boolean);
+}
 
 const sessionFormSchema = z.object({
   sessionName: z.string().min(1, "Session name is required"),
-  description: z.string().optional()
+  description: z.string().optional(),
+  passcode: z.string().refine(value => value === "" || (value.length >= 4 && value.length <= 64), "Passcode must be 4 to 64 characters").optional(),
+  inviteEmails: z.string().refine(
+    value => parseEmailList(value).every(email => z.string().email().safeParse(email).success),
+    "Enter valid email addresses separated by commas"
+  ).optional(),
+  requireApproval: z.boolean()
 });
 
 type SessionFormData = z.infer<typeof sessionFormSchema>;
@@ -39,19 +47,24 @@ export default function Dashboard() {
     resolver: zodResolver(sessionFormSchema),
     defaultValues: {
       sessionName: "",
-      description: ""
+      description: "",
+      passcode: "",
+      inviteEmails: "",
+      requireApproval: false
     }
   });
 
   const createSessionMutation = useMutation({
     mutationFn: async (data: SessionFormData) => {
+      // Seats and expiry default to the account plan's limits; attendees add languages as they join
+      const inviteEmails = parseEmailList(data.inviteEmails);
       const sessionData = {
         name: data.sessionName,
         description: data.description || `Interpretation session hosted by ${user.name}`,
-        languages: languages,
-        maxParticipants: 500,
-        plan: "professional",
-        expiresAt: new Date(Date.now() + 8 * 60 * 60 * 1000)
+        languages: [user.preferredLanguage],
+        passcode: data.passcode || undefined,
+        allowedEmails: inviteEmails.length ? inviteEmails : null,
+        requireApproval: data.requireApproval
       };
       const response = await apiRequest("POST", "/api/sessions", sessionData);
       return response.json();
@@ -74,6 +87,9 @@ export default function Dashboard() {
     }
   });
 
+  // The server applies the account's plan; it is not chosen per session
+  const accountPlan = getPlan(user.plan);
+
   const onSubmit = (data: SessionFormData) => {
     createSessionMutation.mutate(data);
   };
@@ -163,6 +179,62 @@ export default function Dashboard() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="passcode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-black dark:text-white">Passcode (Optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        placeholder="Attendees must enter it to join"
+                        className="bg-white dark:bg-black border-gray-300 dark:border-gray-700 text-black dark:text-white"
+                        data-testid="input-passcode"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="inviteEmails"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-black dark:text-white">Invite Only (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="Emails of the accounts allowed to join, separated by commas"
+                        className="bg-white dark:bg-black border-gray-300 dark:border-gray-700 text-black dark:text-white"
+                        data-testid="input-invite-emails"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="requireApproval"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <FormLabel className="text-black dark:text-white">Admit attendees from a lobby</FormLabel>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        data-testid="switch-require-approval"
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
               <Button
                 type="submit"
                 className="w-full bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 font-['Poppins'] text-lg py-6"
@@ -174,9 +246,12 @@ export default function Dashboard() {
             </form>
           </Form>
 
-          <div className="text-center text-sm text-gray-500 dark:text-gray-500">
+          <div className="text-center text-sm text-gray-500 dark:text-gray-500" data-testid="text-plan-limits">
             <p>Sessions include automatic AI-powered interpretation</p>
-            <p className="mt-1">Support for 19+ languages with real-time voice translation</p>
+            <p className="mt-1">
+              {accountPlan.label}: up to {accountPlan.maxParticipants} participants, {accountPlan.maxLanguages} languages
+              and {accountPlan.maxDurationHours} hours, {accountPlan.voiceOutput ? "with real-time voice translation" : "text translation only"}
+            </p>
           </div>
         </div>
       </div>
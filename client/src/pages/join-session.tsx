@@ -3,15 +3,24 @@ import { useParams, useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { insertParticipantSchema, type InsertParticipant, type Session } from "@shared/schema";
+import { insertParticipantSchema, type InsertParticipant } from "@shared/schema";
+import { getPlan, PLAN_ERROR_MESSAGES, planErrorCodes, type PlanErrorCode } from "@shared/plans";
+import {
+  SESSION_ACCESS_ERROR_MESSAGES,
+  sessionAccessErrorCodes,
+  type PublicSession,
+  type SessionAccessErrorCode
+} from "@shared/session-access";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { apiRequest } from "@/lib/queryClient";
+import { saveParticipantToken } from "@/lib/participant-token";
+import { deviceHeaders } from "@/lib/device-id";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Users, Globe, Volume2 } from "lucide-react";
+import { Loader2, Users, Globe, Volume2, Lock } from "lucide-react";
 import logoImage from "@assets/nihki-logo.jpg";
 
 const languages = [
@@ -19,13 +28,30 @@ const languages = [
   "Chinese", "Japanese", "Korean", "Hindi", "Dutch", "Swedish"
 ];
 
+// API errors arrive as "<status>: <json body>"; plan limit and access errors carry a code to explain
+function describeJoinError(error: Error): string {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    const { message, code } = JSON.parse(body) as { message?: string; code?: string };
+    if (code && (planErrorCodes as readonly string[]).includes(code)) {
+      return PLAN_ERROR_MESSAGES[code as PlanErrorCode];
+    }
+    if (code && (sessionAccessErrorCodes as readonly string[]).includes(code)) {
+      return SESSION_ACCESS_ERROR_MESSAGES[code as SessionAccessErrorCode];
+    }
+    return message || body;
+  } catch {
+    return body;
+  }
+}
+
 export default function JoinSession() {
   const params = useParams();
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const sessionId = params.sessionId;
 
-  const { data: session, isLoading } = useQuery<Session>({
+  const { data: session, isLoading } = useQuery<PublicSession>({
     queryKey: ['/api/sessions', sessionId],
     enabled: !!sessionId
   });
@@ -36,17 +62,25 @@ export default function JoinSession() {
       sessionId: sessionId || "",
       name: "",
       language: "",
-      preferredOutput: "voice"
+      preferredOutput: "voice",
+      passcode: ""
     }
   });
 
   const joinSessionMutation = useMutation({
     mutationFn: async (data: InsertParticipant) => {
-      const response = await apiRequest("POST", "/api/participants", data);
+      // Text-only plans have no synthesized speech
+      const preferredOutput = getPlan(session?.plan).voiceOutput ? data.preferredOutput : "text";
+      const passcode = session?.hasPasscode ? data.passcode : undefined;
+      const response = await apiRequest("POST", "/api/participants", { ...data, preferredOutput, passcode }, deviceHeaders());
       return response.json();
     },
     onSuccess: (participant) => {
-      toast({
+      saveParticipantToken(participant.id, participant.token);
+      toast(participant.admission === "waiting" ? {
+        title: "Waiting for the host",
+        description: "You'll join as soon as the host admits you.",
+      } : {
         title: "Joined Session",
         description: "Welcome to the interpretation session!",
       });
@@ -54,8 +88,8 @@ export default function JoinSession() {
     },
     onError: (error) => {
       toast({
-        title: "Error",
-        description: error.message,
+        title: "Could not join",
+        description: describeJoinError(error),
         variant: "destructive",
       });
     }
@@ -119,6 +153,12 @@ export default function JoinSession() {
             <p className="text-sm text-muted-foreground mt-1">
               Speaks {(session as any).hostLanguage || "English"}
             </p>
+            {session.inviteOnly && (
+              <p className="flex items-center justify-center gap-1 text-sm text-muted-foreground" data-testid="text-invite-only">
+                <Lock className="w-3 h-3" />
+                Invite only: sign in with the email address you were invited with
+              </p>
+            )}
           </div>
 
           {/* Join Form */}
@@ -168,6 +208,28 @@ export default function JoinSession() {
                 )}
               />
 
+              {session.hasPasscode && (
+                <FormField
+                  control={form.control}
+                  name="passcode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-base">Session Passcode</FormLabel>
+                      <FormControl>
+                        <Input
+                          data-testid="input-session-passcode"
+                          type="password"
+                          placeholder="Enter the passcode from the host"
+                          className="h-12 text-base"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <Button
                 type="submit"
                 disabled={joinSessionMutation.isPending}
@@ -0,0 +1,32 @@
+// Assign a subscription plan to an account; the sessions it hosts from then on get that plan's limits.
+// Usage: npm run user:plan -- <email> <basic|professional|enterprise>
+import { DbStorage } from '../server/db-storage';
+import { pool } from '../server/db';
+import { isPlanId, planIds } from '../shared/plans';
+
+async function setUserPlan() {
+    const [email, plan] = process.argv.slice(2);
+    if (!email || !plan || !isPlanId(plan)) {
+        console.error(`Usage: npm run user:plan -- <email> <${planIds.join('|')}>`);
+        process.exit(1);
+    }
+
+    try {
+        const storage = new DbStorage();
+        const user = await storage.getUserByEmail(email);
+        if (!user) {
+            console.error(`No account with email ${email}`);
+            process.exit(1);
+        }
+
+        await storage.setUserPlan(user.id, plan);
+        console.log(`${user.email}: ${user.plan} -> ${plan}`);
+        await pool.end();
+        process.exit(0);
+    } catch (err) {
+        console.error('Failed to set plan:', err);
+        process.exit(1);
+    }
+}
+
+setUserPlan();
@@ -1,4 +1,4 @@
-import { eq, and } from "drizzle-orm";
+import { eq, and, isNull, isNotNull, between, desc, sql, inArray, lt, ne, or } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/node-postgres";
 import { pool } from "./db";
 import bcrypt from "bcrypt";
@@ -8,17 +8,45 @@ import {
   type LoginCredentials,
   type Session,
   type InsertSession,
+  type SessionStatus,
   type Participant,
   type InsertParticipant,
   type Speaker,
   type InsertSpeaker,
   type Translation,
+  type GlossaryTerm,
+  type InsertGlossaryTerm,
+  type GlossaryScope,
+  type TranslationMemoryEntry,
+  type InsertTranslationMemoryEntry,
+  type TranslationMemoryLookupCounts,
+  type TranslationMemoryOutcome,
+  type ModerationAction,
+  type InsertModerationAction,
+  type BanIdentifiers,
+  type Question,
+  type InsertQuestion,
+  type QuestionStatus,
+  type ChatMessage,
+  type InsertChatMessage,
+  type Announcement,
+  type InsertAnnouncement,
   users,
   sessions,
   participants,
   speakers,
-  translations
+  translations,
+  glossaryTerms,
+  translationMemory,
+  translationMemoryStats,
+  participantOrigins,
+  moderationActions,
+  questions,
+  questionVotes,
+  chatMessages,
+  announcements
 } from "@shared/schema";
+import type { PlanId } from "@shared/plans";
 import type { IStorage } from "./storage";
 
 const db = drizzle(pool);
@@ -55,6 +83,24 @@ export class DbStorage implements IStorage {
     return user;
   }
 
+  async setUserPlan(id: string, plan: PlanId): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ plan, planSetAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Accounts created while the plan column defaulted to basic were never meant to be downgraded:
+  // sessions were professional before plans were enforced. Plans an operator assigned are kept.
+  async backfillUserPlans(): Promise<number> {
+    const updated = await db.update(users)
+      .set({ plan: 'professional' })
+      .where(and(eq(users.plan, 'basic'), isNull(users.planSetAt)))
+      .returning({ id: users.id });
+    return updated.length;
+  }
+
   async validatePassword(email: string, password: string): Promise<User | null> {
     const user = await this.getUserByEmail(email);
     console.log(`[Auth] Lookup email '${email}': ${user ? 'Found' : 'Not Found'}`);
@@ -70,23 +116,19 @@ export class DbStorage implements IStorage {
   // Session management
   async getSession(id: string): Promise<Session | undefined> {
     const [session] = await db.select().from(sessions).where(eq(sessions.id, id));
-
-    // Check if session has expired
-    if (session && new Date() > new Date(session.expiresAt)) {
-      await this.deleteSession(id);
-      return undefined;
-    }
-
     return session;
   }
 
-  async createSession(sessionData: InsertSession & { expiresAt: Date, hostUserId: string, hostName: string, hostEmail: string }): Promise<Session> {
+  async createSession(sessionData: InsertSession & { expiresAt: Date, plan: string, hostUserId: string, hostName: string, hostEmail: string, passcodeHash?: string | null }): Promise<Session> {
     const [session] = await db.insert(sessions).values({
       ...sessionData,
+      scheduledStartAt: sessionData.scheduledStartAt ? new Date(sessionData.scheduledStartAt) : null,
+      status: sessionData.scheduledStartAt ? 'scheduled' : 'draft',
       description: sessionData.description || null,
       languages: (sessionData.languages || []) as string[],
+      allowedEmails: sessionData.allowedEmails ?? null,
       maxParticipants: sessionData.maxParticipants || 50,
-      plan: sessionData.plan || "professional",
+      plan: sessionData.plan,
       isActive: false,
     }).returning();
 
@@ -102,23 +144,59 @@ export class DbStorage implements IStorage {
     return session;
   }
 
+  // Apply a lifecycle transition only if the session is still in the expected state
+  async transitionSession(id: string, fromStatus: SessionStatus, updates: Partial<Session>): Promise<Session | undefined> {
+    const [session] = await db.update(sessions)
+      .set(updates)
+      .where(and(eq(sessions.id, id), eq(sessions.status, fromStatus)))
+      .returning();
+
+    return session;
+  }
+
+  async getExpiredSessions(now: Date): Promise<Session[]> {
+    return await db.select().from(sessions)
+      .where(and(ne(sessions.status, 'ended'), lt(sessions.expiresAt, now)));
+  }
+
+  // Transitions keep isActive equal to status = 'live', so only legacy rows are draft and active
+  async backfillSessionStatus(): Promise<number> {
+    const updated = await db.update(sessions)
+      .set({ status: 'live' })
+      .where(and(eq(sessions.status, 'draft'), eq(sessions.isActive, true)))
+      .returning({ id: sessions.id });
+    return updated.length;
+  }
+
+  async releaseFloor(sessionId: string, participantId: string): Promise<Session | undefined> {
+    const [session] = await db.update(sessions)
+      .set({ floorHolderId: null })
+      .where(and(eq(sessions.id, sessionId), eq(sessions.floorHolderId, participantId)))
+      .returning();
+
+    return session;
+  }
+
   async deleteSession(id: string): Promise<void> {
     await db.delete(sessions).where(eq(sessions.id, id));
   }
 
   // Atomic transaction: create session with host participant
   async createSessionWithHostParticipant(
-    sessionData: InsertSession & { expiresAt: Date; hostUserId: string; hostName: string; hostEmail: string },
+    sessionData: InsertSession & { expiresAt: Date; plan: string; hostUserId: string; hostName: string; hostEmail: string; passcodeHash?: string | null },
     hostParticipantData: Omit<InsertParticipant, 'sessionId'>
   ): Promise<Session> {
     return withTransaction(async (tx) => {
       // Create session
       const [session] = await tx.insert(sessions).values({
         ...sessionData,
+        scheduledStartAt: sessionData.scheduledStartAt ? new Date(sessionData.scheduledStartAt) : null,
+        status: sessionData.scheduledStartAt ? 'scheduled' : 'draft',
         description: sessionData.description || null,
         languages: (sessionData.languages || []) as string[],
+        allowedEmails: sessionData.allowedEmails ?? null,
         maxParticipants: sessionData.maxParticipants || 50,
-        plan: sessionData.plan || "professional",
+        plan: sessionData.plan,
         isActive: false,
       }).returning();
 
@@ -128,7 +206,7 @@ export class DbStorage implements IStorage {
         sessionId: session.id,
         userId: sessionData.hostUserId,
         preferredVoice: null,
-        isActive: true,
+        isActive: false,
         isSpeaking: true,
         handRaised: false,
       });
@@ -158,16 +236,26 @@ export class DbStorage implements IStorage {
   }
 
   async createParticipant(participantData: InsertParticipant): Promise<Participant> {
-    const [participant] = await db.insert(participants).values({
-      ...participantData,
-      userId: participantData.userId || null,
-      preferredVoice: null,
-      isActive: true,
-      isSpeaking: participantData.isSpeaking ?? false,
-      handRaised: false,
-    }).returning();
+    const { deviceId, ipAddress, ...fields } = participantData;
+    return withTransaction(async (tx) => {
+      const [participant] = await tx.insert(participants).values({
+        ...fields,
+        userId: fields.userId || null,
+        preferredVoice: null,
+        isActive: false,
+        isSpeaking: fields.isSpeaking ?? false,
+        handRaised: false,
+      }).returning();
 
-    return participant;
+      if (deviceId || ipAddress) {
+        await tx.insert(participantOrigins).values({
+          participantId: participant.id,
+          deviceId: deviceId ?? null,
+          ipAddress: ipAddress ?? null,
+        });
+      }
+      return participant;
+    });
   }
 
   async getParticipantsBySession(sessionId: string): Promise<Participant[]> {
@@ -198,6 +286,77 @@ export class DbStorage implements IStorage {
     });
   }
 
+  async getTimedSpeakers(): Promise<Participant[]> {
+    return await db.select().from(participants)
+      .where(and(eq(participants.isSpeaking, true), isNotNull(participants.speakingUntil)));
+  }
+
+  async endSpeakingTurn(id: string, speakingUntil: Date): Promise<Participant | undefined> {
+    const [participant] = await db.update(participants)
+      .set({ isSpeaking: false, speakingUntil: null })
+      .where(and(eq(participants.id, id), eq(participants.isSpeaking, true), eq(participants.speakingUntil, speakingUntil)))
+      .returning();
+    return participant;
+  }
+
+  async removeParticipant(id: string): Promise<Participant | undefined> {
+    const [participant] = await db.update(participants)
+      .set({
+        admission: 'removed',
+        isActive: false,
+        isSpeaking: false,
+        handRaised: false,
+        handRaisedAt: null,
+        queuePosition: null,
+        speakingUntil: null,
+      })
+      .where(eq(participants.id, id))
+      .returning();
+    return participant;
+  }
+
+  // Presence (isActive = connected over WebSocket)
+  async setParticipantPresence(id: string, isActive: boolean): Promise<Participant | undefined> {
+    const [participant] = await db.update(participants)
+      .set({ isActive, lastSeenAt: new Date() })
+      .where(and(eq(participants.id, id), eq(participants.isActive, !isActive)))
+      .returning();
+
+    if (!participant && isActive) {
+      await db.update(participants).set({ lastSeenAt: new Date() }).where(eq(participants.id, id));
+    }
+    return participant;
+  }
+
+  // Heartbeat for connected participants; returns the ones that had been marked inactive
+  async touchParticipants(ids: string[]): Promise<Participant[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const now = new Date();
+    const reactivated = await db.update(participants)
+      .set({ isActive: true, lastSeenAt: now })
+      .where(and(inArray(participants.id, ids), eq(participants.isActive, false)))
+      .returning();
+    await db.update(participants)
+      .set({ lastSeenAt: now })
+      .where(and(inArray(participants.id, ids), eq(participants.isActive, true)));
+
+    return reactivated;
+  }
+
+  // Mark participants inactive whose instance stopped sending heartbeats (e.g. it crashed)
+  async expireStaleParticipants(seenBefore: Date): Promise<Participant[]> {
+    return await db.update(participants)
+      .set({ isActive: false })
+      .where(and(
+        eq(participants.isActive, true),
+        or(isNull(participants.lastSeenAt), lt(participants.lastSeenAt, seenBefore))
+      ))
+      .returning();
+  }
+
   // Speaker management (legacy - kept for compatibility)
   async getSpeaker(id: string): Promise<Speaker | undefined> {
     const [speaker] = await db.select().from(speakers).where(eq(speakers.id, id));
@@ -252,4 +411,291 @@ export class DbStorage implements IStorage {
   async getTranslationsBySpeaker(participantId: string): Promise<Translation[]> {
     return await db.select().from(translations).where(eq(translations.participantId, participantId));
   }
-}
\ No newline at end of file
+
+  // Glossary management
+  private glossaryScopeFilter(scope: GlossaryScope) {
+    return 'sessionId' in scope
+      ? eq(glossaryTerms.sessionId, scope.sessionId)
+      : and(eq(glossaryTerms.ownerUserId, scope.ownerUserId), isNull(glossaryTerms.sessionId));
+  }
+
+  async getGlossaryTerms(scope: GlossaryScope): Promise<GlossaryTerm[]> {
+    return await db.select().from(glossaryTerms)
+      .where(this.glossaryScopeFilter(scope))
+      .orderBy(glossaryTerms.term);
+  }
+
+  async getGlossaryTerm(id: string): Promise<GlossaryTerm | undefined> {
+    const [term] = await db.select().from(glossaryTerms).where(eq(glossaryTerms.id, id));
+    return term;
+  }
+
+  // Atomic transaction: optionally clear the scope, then insert all terms
+  async createGlossaryTerms(scope: GlossaryScope, terms: InsertGlossaryTerm[], replace = false): Promise<GlossaryTerm[]> {
+    return withTransaction(async (tx) => {
+      if (replace) {
+        await tx.delete(glossaryTerms).where(this.glossaryScopeFilter(scope));
+      }
+      if (terms.length === 0) {
+        return [];
+      }
+
+      return await tx.insert(glossaryTerms).values(terms.map(term => ({
+        ...term,
+        sessionId: 'sessionId' in scope ? scope.sessionId : null,
+        ownerUserId: 'ownerUserId' in scope ? scope.ownerUserId : null,
+      }))).returning();
+    });
+  }
+
+  async updateGlossaryTerm(id: string, updates: Partial<InsertGlossaryTerm>): Promise<GlossaryTerm | undefined> {
+    const [term] = await db.update(glossaryTerms)
+      .set(updates)
+      .where(eq(glossaryTerms.id, id))
+      .returning();
+
+    return term;
+  }
+
+  async deleteGlossaryTerm(id: string): Promise<void> {
+    await db.delete(glossaryTerms).where(eq(glossaryTerms.id, id));
+  }
+
+  // Translation memory
+  async findTranslationMemory(
+    ownerUserId: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    normalizedSource: string
+  ): Promise<TranslationMemoryEntry | undefined> {
+    const [entry] = await db.select().from(translationMemory).where(and(
+      eq(translationMemory.ownerUserId, ownerUserId),
+      eq(translationMemory.sourceLanguage, sourceLanguage),
+      eq(translationMemory.targetLanguage, targetLanguage),
+      eq(translationMemory.normalizedSource, normalizedSource)
+    ));
+    return entry;
+  }
+
+  async getTranslationMemoryCandidates(
+    ownerUserId: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    minLength: number,
+    maxLength: number,
+    limit: number
+  ): Promise<TranslationMemoryEntry[]> {
+    return await db.select().from(translationMemory)
+      .where(and(
+        eq(translationMemory.ownerUserId, ownerUserId),
+        eq(translationMemory.sourceLanguage, sourceLanguage),
+        eq(translationMemory.targetLanguage, targetLanguage),
+        between(translationMemory.sourceLength, minLength, maxLength)
+      ))
+      .orderBy(desc(translationMemory.lastUsedAt))
+      .limit(limit);
+  }
+
+  // Insert, or refresh the translation if the same sentence was translated again
+  async saveTranslationMemory(entry: InsertTranslationMemoryEntry): Promise<void> {
+    await db.insert(translationMemory)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [
+          translationMemory.ownerUserId,
+          translationMemory.sourceLanguage,
+          translationMemory.targetLanguage,
+          translationMemory.normalizedSource
+        ],
+        set: {
+          translatedText: entry.translatedText,
+          provider: entry.provider,
+          lastUsedAt: new Date(),
+        },
+      });
+  }
+
+  async recordTranslationMemoryHit(id: string): Promise<void> {
+    await db.update(translationMemory)
+      .set({
+        hitCount: sql`${translationMemory.hitCount} + 1`,
+        lastUsedAt: new Date(),
+      })
+      .where(eq(translationMemory.id, id));
+  }
+
+  async getTranslationMemorySummary(ownerUserId: string): Promise<{ entries: number; totalHits: number }> {
+    const [summary] = await db.select({
+      entries: sql<number>`count(*)::int`,
+      totalHits: sql<number>`coalesce(sum(${translationMemory.hitCount}), 0)::int`,
+    }).from(translationMemory).where(eq(translationMemory.ownerUserId, ownerUserId));
+    return summary || { entries: 0, totalHits: 0 };
+  }
+
+  // Counted in the database so every instance adds to the same totals
+  async recordTranslationMemoryLookup(sessionId: string, outcome: TranslationMemoryOutcome): Promise<void> {
+    await db.insert(translationMemoryStats)
+      .values({ sessionId, [outcome]: 1 })
+      .onConflictDoUpdate({
+        target: translationMemoryStats.sessionId,
+        set: { [outcome]: sql`${translationMemoryStats[outcome]} + 1` },
+      });
+  }
+
+  async getTranslationMemoryLookups(sessionId: string): Promise<TranslationMemoryLookupCounts> {
+    const [stats] = await db.select({
+      exactHits: translationMemoryStats.exactHits,
+      fuzzyHits: translationMemoryStats.fuzzyHits,
+      misses: translationMemoryStats.misses,
+    }).from(translationMemoryStats).where(eq(translationMemoryStats.sessionId, sessionId));
+    return stats || { exactHits: 0, fuzzyHits: 0, misses: 0 };
+  }
+
+  // Moderation
+  async recordModerationAction(action: InsertModerationAction): Promise<ModerationAction> {
+    const [record] = await db.insert(moderationActions).values(action).returning();
+    return record;
+  }
+
+  async getModerationActionsBySession(sessionId: string): Promise<ModerationAction[]> {
+    return await db.select().from(moderationActions)
+      .where(eq(moderationActions.sessionId, sessionId))
+      .orderBy(desc(moderationActions.createdAt));
+  }
+
+  // A ban matches if any identifier the joiner has is one the banned participant had
+  async findSessionBan(sessionId: string, identifiers: BanIdentifiers): Promise<ModerationAction | undefined> {
+    const matches = [
+      identifiers.userId ? eq(moderationActions.userId, identifiers.userId) : undefined,
+      identifiers.deviceId ? eq(moderationActions.deviceId, identifiers.deviceId) : undefined,
+      identifiers.ipAddress ? eq(moderationActions.ipAddress, identifiers.ipAddress) : undefined,
+    ].filter((match) => match !== undefined);
+    if (matches.length === 0) {
+      return undefined;
+    }
+
+    const [ban] = await db.select().from(moderationActions)
+      .where(and(
+        eq(moderationActions.sessionId, sessionId),
+        eq(moderationActions.action, 'ban'),
+        or(...matches)
+      ))
+      .limit(1);
+    return ban;
+  }
+
+  async getParticipantOrigin(participantId: string): Promise<BanIdentifiers> {
+    const [origin] = await db.select().from(participantOrigins).where(eq(participantOrigins.participantId, participantId));
+    return { deviceId: origin?.deviceId ?? null, ipAddress: origin?.ipAddress ?? null };
+  }
+
+  // Audience Q&A
+  async createQuestion(question: InsertQuestion): Promise<Question> {
+    const [created] = await db.insert(questions).values(question).returning();
+    return created;
+  }
+
+  async getQuestion(id: string): Promise<Question | undefined> {
+    const [question] = await db.select().from(questions).where(eq(questions.id, id));
+    return question;
+  }
+
+  async getQuestionsBySession(sessionId: string): Promise<Question[]> {
+    return await db.select().from(questions)
+      .where(eq(questions.sessionId, sessionId))
+      .orderBy(questions.createdAt);
+  }
+
+  async transitionQuestion(id: string, fromStatus: QuestionStatus, updates: Partial<Question>): Promise<Question | undefined> {
+    const [question] = await db.update(questions)
+      .set(updates)
+      .where(and(eq(questions.id, id), eq(questions.status, fromStatus)))
+      .returning();
+
+    return question;
+  }
+
+  async setQuestionVote(questionId: string, participantId: string, upvoted: boolean): Promise<Question | undefined> {
+    return withTransaction(async (tx) => {
+      if (upvoted) {
+        await tx.insert(questionVotes).values({ questionId, participantId }).onConflictDoNothing();
+      } else {
+        await tx.delete(questionVotes)
+          .where(and(eq(questionVotes.questionId, questionId), eq(questionVotes.participantId, participantId)));
+      }
+
+      const [question] = await tx.update(questions)
+        .set({ upvoteCount: sql`(select count(*)::int from ${questionVotes} where ${questionVotes.questionId} = ${questionId})` })
+        .where(eq(questions.id, questionId))
+        .returning();
+      return question;
+    });
+  }
+
+  async getUpvotedQuestionIds(sessionId: string, participantId: string): Promise<string[]> {
+    const votes = await db.select({ questionId: questionVotes.questionId })
+      .from(questionVotes)
+      .innerJoin(questions, eq(questions.id, questionVotes.questionId))
+      .where(and(eq(questions.sessionId, sessionId), eq(questionVotes.participantId, participantId)));
+    return votes.map(vote => vote.questionId);
+  }
+
+  // Session chat
+  async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+    const [created] = await db.insert(chatMessages).values(message).returning();
+    return created;
+  }
+
+  async getChatMessage(id: string): Promise<ChatMessage | undefined> {
+    const [message] = await db.select().from(chatMessages).where(eq(chatMessages.id, id));
+    return message;
+  }
+
+  async getChatMessagesBySession(sessionId: string): Promise<ChatMessage[]> {
+    return await db.select().from(chatMessages)
+      .where(eq(chatMessages.sessionId, sessionId))
+      .orderBy(chatMessages.createdAt);
+  }
+
+  async deleteChatMessage(id: string, deletedBy: string): Promise<ChatMessage | undefined> {
+    const [message] = await db.update(chatMessages)
+      .set({ deletedAt: new Date(), deletedBy })
+      .where(and(eq(chatMessages.id, id), isNull(chatMessages.deletedAt)))
+      .returning();
+
+    return message;
+  }
+
+  // Host announcements
+  async createAnnouncement(announcement: InsertAnnouncement): Promise<Announcement> {
+    const [created] = await db.insert(announcements).values(announcement).returning();
+    return created;
+  }
+
+  async getAnnouncement(id: string): Promise<Announcement | undefined> {
+    const [announcement] = await db.select().from(announcements).where(eq(announcements.id, id));
+    return announcement;
+  }
+
+  async getAnnouncementsBySession(sessionId: string): Promise<Announcement[]> {
+    return await db.select().from(announcements)
+      .where(eq(announcements.sessionId, sessionId))
+      .orderBy(announcements.createdAt);
+  }
+
+  // Merged into the stored translations, so concurrent readers adding other languages keep theirs
+  async addAnnouncementTranslation(id: string, language: string, translated: string): Promise<Announcement | undefined> {
+    const [announcement] = await db.update(announcements)
+      .set({
+        translations: sql`${announcements.translations} || ${JSON.stringify({ [language]: translated })}::jsonb`,
+        failedLanguages: sql`${announcements.failedLanguages} - ${language}::text`,
+      })
+      .where(eq(announcements.id, id))
+      .returning();
+    return announcement;
+  }
+
+  async deleteAnnouncement(id: string): Promise<void> {
+    await db.delete(announcements).where(eq(announcements.id, id));
+  }
+}
@@ -15,9 +15,8 @@ if (process.env.NODE_ENV === "production") {
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
-// Session configuration with PostgreSQL store
-app.use(
-  session({
+// Session configuration with PostgreSQL store (also used to authenticate WebSocket upgrades)
+const sessionMiddleware = session({
     store: new PgSession({
       pool,
       tableName: 'session',
@@ -34,8 +33,8 @@ app.use(
       sameSite: process.env.NODE_ENV === "production" ? 'lax' : 'strict',
       path: '/',
     },
-  })
-);
+});
+app.use(sessionMiddleware);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -68,7 +67,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  const server = await registerRoutes(app);
+  const server = await registerRoutes(app, sessionMiddleware);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -1,4 +1,4 @@
-import type { Express, Request } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer as WSServer, WebSocket } from "ws";
 import { streamingTranscriptionManager as streamingManager } from "./services/streaming-transcription";
@@ -7,11 +7,104 @@ import { TextToSpeechClient } from "@google-cloud/text-to-speech";
 import prism from "prism-media";
 import { Readable, Transform } from "stream";
 import { DbStorage } from "./db-storage";
-import { insertSessionSchema, insertParticipantSchema, insertSpeakerSchema, insertUserSchema, loginSchema, type User } from "@shared/schema";
+import { insertSessionSchema, insertParticipantSchema, insertSpeakerSchema, insertUserSchema, loginSchema, insertGlossaryTermSchema, glossaryImportSchema, scheduleSessionSchema, updateSessionSchema, updateSpeakerSchema, raiseHandSchema, participantPreferencesSchema, speakingPermissionSchema, assignRoleSchema, muteParticipantSchema, removeParticipantSchema, reorderSpeakerQueueSchema, nextSpeakerSchema, askQuestionSchema, sendChatMessageSchema, createAnnouncementSchema, type User, type Session, type Participant, type GlossaryScope, type GlossaryTerm, type SessionStatus, type ParticipantAdmission, type ModerationActionType, type Question, type QuestionStatus, type Announcement } from "@shared/schema";
 
 const storage = new DbStorage();
-import { translateAudio, transcribeAudio } from "./services/translation";
+import { translateAudio, transcribeAudio, standardizeLanguageName } from "./services/translation";
+import { translationProviders } from "./services/translation-providers";
+import type { SentenceEvent, SpeakerStreamRecognizer } from "./services/streaming-audio";
+import { mergeGlossaries, getPhraseHints } from "./services/glossary";
+import {
+  normalizeGlossaryTerm,
+  parseGlossaryCsv,
+  parseGlossaryTbx,
+  formatGlossaryCsv,
+  formatGlossaryTbx
+} from "./services/glossary-formats";
+import { getSpeechSynthesisProvider } from "./services/speech-synthesis";
+import { TranslationMemory } from "./services/translation-memory";
+import { createAudioCache, makeAudioCacheKey } from "./services/audio-cache";
+import { createParticipantToken, verifyParticipantToken } from "./services/participant-token";
+import { createSessionEventBus, type SessionEvent } from "./services/session-bus";
+import { ReplayBuffer } from "./services/replay-buffer";
+import { acceptsAudio, planTransition, sessionActions, SessionTransitionError } from "./services/session-lifecycle";
+import {
+  ownsParticipant,
+  participantRole,
+  parseSessionRole,
+  resolveSessionRole,
+  roleCan,
+  type Actor,
+  type SessionRole,
+  type SessionPermission
+} from "./services/session-policy";
+import {
+  applyPlanToNewSession,
+  assertLanguagesAllowed,
+  assertSeatAvailable,
+  assertSessionUpdateAllowed,
+  holdsSeat,
+  PlanLimitError
+} from "./services/plan-limits";
+import { checkJoinAccess, hashPasscode, initialAdmission, SessionAccessError, toPublicSession } from "./services/session-access";
+import {
+  getSpeakerQueue,
+  nextQueuePosition,
+  reorderSpeakerQueue,
+  SpeakerQueueError,
+  SpeakingTimers
+} from "./services/speaker-queue";
+import { floorStateOf, mayTransmit, type FloorState } from "./services/floor-control";
+import {
+  canSeeQuestion,
+  isPublicQuestion,
+  planQuestionTransition,
+  questionActions,
+  QuestionTransitionError,
+  sortQuestions,
+  toQuestionData
+} from "./services/questions";
+import { localizeChatMessage, toChatMessageData } from "./services/chat";
+import { getPlan } from "@shared/plans";
+import {
+  clientMessageSchema,
+  CLOSE_CODE_REMOVED,
+  describeProtocolError,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type ClientMessage,
+  type ServerMessage,
+  type ProtocolErrorCode,
+  type InterimTranscriptData,
+  type LanguageSubscription,
+  type TranslationData,
+  type AudioSynthesizedData,
+  type ChatMessageData,
+  type AnnouncementData,
+  type SpeakerQueueData
+} from "@shared/protocol";
+import { getLanguageCode as getLocaleCode } from "./services/googlecloud";
 import multer from "multer";
+import type { ZodError } from "zod";
+
+const speechSynthesis = getSpeechSynthesisProvider();
+const translationMemory = new TranslationMemory(storage);
+
+// Synthesized speech cache (memory LRU + disk), shared by live sessions and the REST endpoint
+const audioCache = createAudioCache();
+
+function synthesizeCached(text: string, languageCode: string, voice?: string | null) {
+  const key = makeAudioCacheKey({
+    provider: speechSynthesis.name,
+    audioConfig: speechSynthesis.audioConfig,
+    languageCode,
+    voice,
+    text
+  });
+  return audioCache.getOrCreate(key, () => {
+    console.log(`[Audio] Cache MISS for: "${text.substring(0, 50)}..." (${languageCode}, ${voice || 'default voice'})`);
+    return speechSynthesis.synthesize({ text, languageCode, voice });
+  });
+}
 
 // Configure multer for audio file uploads
 const upload = multer({
@@ -28,6 +121,46 @@ const upload = multer({
   }
 });
 
+// Rejected WebSocket message; sent back to the client as a structured error reply
+class ProtocolError extends Error {
+  constructor(public code: ProtocolErrorCode, message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+// Participant a WebSocket connection is bound to, fixed at upgrade time
+interface ConnectionIdentity {
+  participantId: string;
+  sessionId: string;
+  role: SessionRole; // Kept current by participant-role broadcasts
+  admission: ParticipantAdmission; // Kept current by admission messages
+}
+
+// Who a request acts as: the logged-in user and/or the participant of a valid signed
+// token (guests send it in X-Participant-Token, WebSocket clients in the URL)
+function getActor(req: Request, token: string | null | undefined = req.get('X-Participant-Token')): Actor {
+  return {
+    userId: req.session.userId || null,
+    participantId: verifyParticipantToken(token)?.participantId || null,
+  };
+}
+
+// Summarize zod issues for a 400 response
+function describeValidationError(error: ZodError): string {
+  return error.issues
+    .map(issue => issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message)
+    .join("; ");
+}
+
+// A session's provider chain may only name registered translation providers
+function describeUnknownProviders(names: string[] | null | undefined): string | null {
+  const unknown = translationProviders.findUnknownProviders(names || []);
+  return unknown.length > 0
+    ? `translationProviders: unknown provider ${unknown.join(', ')} (available: ${translationProviders.getProviderNames().join(', ')})`
+    : null;
+}
+
 // Extend Express Session to include userId
 declare module "express-session" {
   interface SessionData {
@@ -35,7 +168,7 @@ declare module "express-session" {
   }
 }
 
-export async function registerRoutes(app: Express): Promise<Server> {
+export async function registerRoutes(app: Express, sessionMiddleware: RequestHandler): Promise<Server> {
   const httpServer = createServer(app);
 
   // Authentication Routes
@@ -128,6 +261,111 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(userWithoutPassword);
   });
 
+  const PERMISSION_DENIED: Record<SessionPermission, string> = {
+    'update-session': "Only the host or a co-host can edit the session",
+    'change-session-state': "Only the host or a co-host can change the session state",
+    'delete-session': "Only the host can delete the session",
+    'manage-speakers': "Only the host or a co-host can manage speakers",
+    'grant-speaking': "Only the host, a co-host or a moderator can change speaking permission",
+    'mute-speakers': "Only the host, a co-host or a moderator can mute speakers",
+    'manage-hand-raises': "Only the host, a co-host or a moderator can lower other attendees' hands",
+    'assign-roles': "Only the host can change attendee roles",
+    'admit-participants': "Only the host or a co-host can admit or reject participants",
+    'remove-participants': "Only the host or a co-host can remove participants",
+    'moderate-questions': "Only the host, a co-host or a moderator can moderate questions",
+    'moderate-chat': "Only the host, a co-host or a moderator can moderate the chat",
+    'make-announcements': "Only the host or a co-host can make announcements",
+  };
+
+  // Load the session a mutation targets and check the requester may perform it;
+  // sends the error response and returns null otherwise
+  async function authorizeSessionMutation(req: Request, res: Response, sessionId: string, permission: SessionPermission): Promise<Session | null> {
+    const session = await storage.getSession(sessionId);
+    if (!session) {
+      res.status(404).json({ message: "Session not found" });
+      return null;
+    }
+
+    const actor = getActor(req);
+    if (!actor.userId && !actor.participantId) {
+      res.status(401).json({ message: "Not authenticated" });
+      return null;
+    }
+
+    const isHost = !!actor.userId && session.hostUserId === actor.userId;
+    const role = isHost ? 'host' : resolveSessionRole(session, actor, await storage.getParticipantsBySession(session.id));
+    if (!roleCan(role, permission)) {
+      res.status(403).json({ message: PERMISSION_DENIED[permission] });
+      return null;
+    }
+    return session;
+  }
+
+  // Name of the account or participant a request acts as, for moderation records
+  async function getActorName(actor: Actor): Promise<string> {
+    const performer = actor.userId
+      ? await storage.getUserById(actor.userId)
+      : actor.participantId ? await storage.getParticipant(actor.participantId) : undefined;
+    return performer?.name || 'Unknown';
+  }
+
+  // The admitted participant a request acts as in a session, if any; the token's participant wins
+  function findActingParticipant(actor: Actor, participants: Participant[]): Participant | undefined {
+    const admitted = participants.filter(participant => participant.admission === 'admitted');
+    return admitted.find(participant => participant.id === actor.participantId)
+      || admitted.find(participant => ownsParticipant(actor, participant));
+  }
+
+  // Session-scoped reads are for admitted participants and the host or co-hosts (a passcode,
+  // invite list or lobby only guards the join); sends the error response and returns null otherwise
+  async function authorizeSessionRead(
+    req: Request,
+    res: Response,
+    sessionId: string,
+    deniedMessage: string = "Join the session to see it"
+  ): Promise<{ session: Session; participants: Participant[]; viewer: Participant | undefined } | null> {
+    const session = await storage.getSession(sessionId);
+    if (!session) {
+      res.status(404).json({ message: "Session not found" });
+      return null;
+    }
+
+    const actor = getActor(req);
+    if (!actor.userId && !actor.participantId) {
+      res.status(401).json({ message: "Not authenticated" });
+      return null;
+    }
+
+    const participants = await storage.getParticipantsBySession(session.id);
+    const viewer = findActingParticipant(actor, participants);
+    const role = resolveSessionRole(session, actor, participants);
+    if (!viewer && role !== 'host' && role !== 'co-host') {
+      res.status(403).json({ message: deniedMessage });
+      return null;
+    }
+    return { session, participants, viewer };
+  }
+
+  function sendSessionAccessError(res: Response, error: SessionAccessError) {
+    const status = error.code === 'session-ended' ? 410 : error.code === 'login-required' ? 401 : 403;
+    res.status(status).json({ message: error.message, code: error.code });
+  }
+
+  function sendPlanLimitError(res: Response, error: PlanLimitError) {
+    res.status(error.code === 'unknown-plan' ? 400 : 403).json({ message: error.message, code: error.code });
+  }
+
+  // Languages a session already translates into: its configured languages, those of
+  // participants holding a seat, and live subscriptions on this instance
+  function getLanguagesInUse(session: Session, participants: Participant[]): string[] {
+    const languages = [
+      ...session.languages.map(standardizeLanguageName),
+      ...participants.filter(holdsSeat).map(participant => standardizeLanguageName(participant.language))
+    ];
+    sessionRooms.get(session.id)?.clients.forEach(({ subscription }) => languages.push(...subscription.languages));
+    return languages;
+  }
+
   // Session Management Routes
   app.post("/api/sessions", async (req, res) => {
     try {
@@ -143,23 +381,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "User not found" });
       }
 
-      const validatedData = insertSessionSchema.parse(req.body);
-
-      // Handle expiresAt - convert string to Date if needed, or use default
-      let expiresAt: Date;
-      if (validatedData.expiresAt) {
-        expiresAt = new Date(validatedData.expiresAt);
-      } else {
-        expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours from now (supports all-day conferences)
+      const { passcode, ...validatedData } = insertSessionSchema.parse(req.body);
+      const unknownProviders = describeUnknownProviders(validatedData.translationProviders);
+      if (unknownProviders) {
+        return res.status(400).json({ message: unknownProviders });
       }
 
+      // Seats, languages and duration must fit the host's plan; seats and expiry default to its limits
+      const { plan, maxParticipants, expiresAt } = applyPlanToNewSession({
+        plan: user.plan,
+        maxParticipants: validatedData.maxParticipants,
+        languages: ((validatedData.languages || []) as string[]).map(standardizeLanguageName),
+        expiresAt: validatedData.expiresAt ? new Date(validatedData.expiresAt) : undefined
+      });
+
       // Create session with host participant in a single atomic transaction
       const session = await storage.createSessionWithHostParticipant({
         ...validatedData,
+        plan: plan.id,
+        maxParticipants,
         hostUserId: userId,
         hostName: user.name,
         hostEmail: user.email,
-        expiresAt
+        expiresAt,
+        passcodeHash: passcode ? await hashPasscode(passcode) : null
       }, {
         userId: userId,
         name: user.name,
@@ -168,8 +413,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         preferredOutput: 'voice',
       });
 
-      res.json(session);
+      res.json(toPublicSession(session, true));
     } catch (error) {
+      if (error instanceof PlanLimitError) {
+        return sendPlanLimitError(res, error);
+      }
       res.status(400).json({
         message: error instanceof Error ? error.message : "Invalid session data"
       });
@@ -192,7 +440,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      res.json({ ...session, hostLanguage });
+      // Only the host sees the invite list
+      const isHost = !!req.session.userId && session.hostUserId === req.session.userId;
+      res.json({ ...toPublicSession(session, isHost), hostLanguage });
     } catch (error) {
       res.status(500).json({
         message: error instanceof Error ? error.message : "Failed to get session"
@@ -202,27 +452,100 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/sessions/:id", async (req, res) => {
     try {
-      const session = await storage.updateSession(req.params.id, req.body);
+      // Lifecycle state only changes through the transition routes below
+      const parsed = updateSessionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const unknownProviders = describeUnknownProviders(parsed.data.translationProviders);
+      if (unknownProviders) {
+        return res.status(400).json({ message: unknownProviders });
+      }
+      const existing = await authorizeSessionMutation(req, res, req.params.id, 'update-session');
+      if (!existing) return;
+      assertSessionUpdateAllowed(existing, {
+        maxParticipants: parsed.data.maxParticipants,
+        languages: parsed.data.languages?.map(standardizeLanguageName)
+      });
+
+      // A null passcode removes it
+      const { passcode, ...fields } = parsed.data;
+      const updates: Partial<Session> = { ...fields };
+      if (passcode !== undefined) {
+        updates.passcodeHash = passcode ? await hashPasscode(passcode) : null;
+      }
+      // A new floor policy starts with a free floor
+      const floorPolicyChanged = !!fields.floorPolicy && fields.floorPolicy !== existing.floorPolicy;
+      if (floorPolicyChanged) {
+        updates.floorHolderId = null;
+      }
+
+      const session = await storage.updateSession(req.params.id, updates);
       if (!session) {
         return res.status(404).json({ message: "Session not found" });
       }
-      res.json(session);
+      if (floorPolicyChanged) {
+        console.log(`[Floor] 🔧 Session ${session.id} floor policy is now ${session.floorPolicy}`);
+        broadcastToSession(session.id, {
+          type: 'floor-changed',
+          data: { sessionId: session.id, policy: session.floorPolicy, holderId: null, holderName: null, reason: 'policy' }
+        });
+      }
+      res.json(toPublicSession(session, true));
     } catch (error) {
+      if (error instanceof PlanLimitError) {
+        return sendPlanLimitError(res, error);
+      }
       res.status(500).json({
         message: error instanceof Error ? error.message : "Failed to update session"
       });
     }
   });
 
+  // Lifecycle transitions: POST /api/sessions/:id/{schedule,start,pause,resume,end}
+  for (const action of sessionActions) {
+    app.post(`/api/sessions/:id/${action}`, async (req, res) => {
+      try {
+        const session = await authorizeSessionMutation(req, res, req.params.id, 'change-session-state');
+        if (!session) return;
+
+        let scheduledStartAt: Date | undefined;
+        if (action === 'schedule') {
+          const parsed = scheduleSessionSchema.safeParse(req.body);
+          if (!parsed.success) {
+            return res.status(400).json({ message: describeValidationError(parsed.error) });
+          }
+          scheduledStartAt = parsed.data.scheduledStartAt;
+        }
+
+        const updates = planTransition(session, action, { scheduledStartAt });
+        const updated = await storage.transitionSession(session.id, session.status, updates);
+        if (!updated) {
+          return res.status(409).json({ message: "Session state changed concurrently; reload and try again" });
+        }
+
+        console.log(`[Session] 🔄 ${session.id}: ${session.status} → ${updated.status}`);
+        broadcastSessionStatus(updated);
+        res.json(toPublicSession(updated, true));
+      } catch (error) {
+        if (error instanceof SessionTransitionError) {
+          return res.status(409).json({ message: error.message });
+        }
+        res.status(500).json({
+          message: error instanceof Error ? error.message : `Failed to ${action} session`
+        });
+      }
+    });
+  }
+
   app.delete("/api/sessions/:id", async (req, res) => {
     try {
-      const session = await storage.getSession(req.params.id);
-      if (!session) {
-        return res.status(404).json({ message: "Session not found" });
-      }
+      if (!await authorizeSessionMutation(req, res, req.params.id, 'delete-session')) return;
 
       // Delete session and all related data in atomic transaction
       await storage.deleteSessionWithParticipants(req.params.id);
+      replayBuffer.clear(req.params.id);
+      sessionBus.forgetSession(req.params.id);
       res.json({ message: "Session deleted successfully" });
     } catch (error) {
       res.status(500).json({
@@ -234,7 +557,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Participant Management Routes
   app.post("/api/participants", async (req, res) => {
     try {
-      const validatedData = insertParticipantSchema.parse(req.body);
+      const { passcode, ...validatedData } = insertParticipantSchema.parse(req.body);
 
       // Check if session exists
       const session = await storage.getSession(validatedData.sessionId);
@@ -242,22 +565,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Session not found" });
       }
 
-      // Check participant limit
-      const existingParticipants = await storage.getParticipantsBySession(validatedData.sessionId);
-      if (existingParticipants.length >= session.maxParticipants) {
-        return res.status(400).json({ message: "Session is full" });
+      // Banned accounts, devices and addresses cannot rejoin
+      const deviceId = req.get('X-Device-Id')?.slice(0, 100) || null;
+      const ipAddress = req.ip || null;
+      if (await storage.findSessionBan(session.id, { userId: req.session.userId, deviceId, ipAddress })) {
+        throw new SessionAccessError('banned');
       }
 
-      const participant = await storage.createParticipant(validatedData);
+      // Invite list and passcode; invitees are matched by the email of their account
+      const user = req.session.userId ? await storage.getUserById(req.session.userId) : undefined;
+      await checkJoinAccess(session, { email: user?.email, passcode });
 
-      // Broadcast participant joined to session
-      broadcastToSession(validatedData.sessionId, {
-        type: 'participant-joined',
-        participant
+      // Seat and language limits of the session's plan
+      const existingParticipants = await storage.getParticipantsBySession(validatedData.sessionId);
+      assertSeatAvailable(session, existingParticipants);
+      const language = standardizeLanguageName(validatedData.language);
+      assertLanguagesAllowed(session, getLanguagesInUse(session, existingParticipants), [language]);
+
+      // Joining never grants host rights, speaking permission or another user's identity
+      const participant = await storage.createParticipant({
+        ...validatedData,
+        preferredOutput: getPlan(session.plan).voiceOutput ? validatedData.preferredOutput : 'text',
+        userId: req.session.userId || null,
+        role: 'participant',
+        isSpeaking: false,
+        admission: initialAdmission(session),
+        deviceId,
+        ipAddress
       });
 
-      res.json(participant);
+      // participant-joined is broadcast once the participant connects (see presence tracking);
+      // those waiting in the lobby are announced to the host right away
+      if (participant.admission === 'waiting') {
+        console.log(`[Lobby] 🚪 ${participant.name} (${participant.id}) is waiting to join session ${session.id}`);
+        announceLobbyUpdate(participant);
+      }
+
+      // Token authenticates this participant's WebSocket and self-service updates
+      res.json({
+        ...participant,
+        token: createParticipantToken(participant.id, session.id, session.expiresAt)
+      });
     } catch (error) {
+      if (error instanceof SessionAccessError) {
+        return sendSessionAccessError(res, error);
+      }
+      if (error instanceof PlanLimitError) {
+        return sendPlanLimitError(res, error);
+      }
       res.status(400).json({
         message: error instanceof Error ? error.message : "Invalid participant data"
       });
@@ -270,6 +625,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!participant) {
         return res.status(404).json({ message: "Participant not found" });
       }
+      // Participants may always read their own record (e.g. while waiting in the lobby)
+      if (!ownsParticipant(getActor(req), participant) && !await authorizeSessionRead(req, res, participant.sessionId)) return;
       res.json(participant);
     } catch (error) {
       res.status(500).json({
@@ -280,8 +637,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/sessions/:sessionId/participants", async (req, res) => {
     try {
-      const participants = await storage.getParticipantsBySession(req.params.sessionId);
-      res.json(participants);
+      const access = await authorizeSessionRead(req, res, req.params.sessionId);
+      if (!access) return;
+      res.json(access.participants.filter(participant => participant.admission !== 'removed'));
     } catch (error) {
       res.status(500).json({
         message: error instanceof Error ? error.message : "Failed to get participants"
@@ -294,15 +652,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { sessionId } = req.params;
 
-      // Verify session exists
-      const session = await storage.getSession(sessionId);
-      if (!session) {
-        return res.status(404).json({ message: "Session not found" });
-      }
+      // Captions and chat are for the session's members only
+      const access = await authorizeSessionRead(req, res, sessionId, "Join the session to download its transcript");
+      if (!access) return;
+      const { session, participants } = access;
 
       // Get all translations for the session with error handling
       const translations = await storage.getTranslationsBySession(sessionId) || [];
-      const participants = await storage.getParticipantsBySession(sessionId) || [];
+      const chatMessages = (await storage.getChatMessagesBySession(sessionId)).filter(message => !message.deletedAt);
 
       // Create a map of participant IDs to names
       const participantMap = new Map(participants.map(p => [p.id, p.name]));
@@ -367,6 +724,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // Chat messages in the language they were written in
+      if (chatMessages.length > 0) {
+        doc.moveDown();
+        doc.fontSize(14).font('Helvetica').text('Chat', { underline: true });
+        doc.moveDown();
+
+        chatMessages.forEach((message, index) => {
+          const timestamp = new Date(message.createdAt).toLocaleTimeString();
+
+          doc.fontSize(10)
+            .font('Helvetica-Bold')
+            .text(`${message.authorName} (${timestamp})`, { continued: false });
+
+          doc.fontSize(10)
+            .font('Helvetica')
+            .text(`${message.originalLanguage}: ${message.originalText}`, {
+              indent: 20
+            });
+
+          doc.moveDown(0.5);
+
+          if (index < chatMessages.length - 1 && doc.y > 700) {
+            doc.addPage();
+          }
+        });
+      }
+
       // Footer
       doc.moveDown(2);
       doc.fontSize(8)
@@ -383,16 +767,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Speaker Management Routes
-  app.post("/api/speakers", async (req, res) => {
+  // Translation memory hit/miss stats for the session host
+  app.get("/api/sessions/:sessionId/translation-memory", async (req, res) => {
     try {
-      const validatedData = insertSpeakerSchema.parse(req.body);
+      const userId = req.session.userId;
+      if (!userId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
 
-      // Check if session exists
-      const session = await storage.getSession(validatedData.sessionId);
+      const session = await storage.getSession(req.params.sessionId);
       if (!session) {
         return res.status(404).json({ message: "Session not found" });
       }
+      if (session.hostUserId !== userId) {
+        return res.status(403).json({ message: "Only the host can view translation memory stats" });
+      }
+
+      res.json({
+        session: await translationMemory.getSessionStats(session.id),
+        memory: await translationMemory.getSummary(userId)
+      });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to get translation memory stats"
+      });
+    }
+  });
+
+  // Speaker Management Routes
+  app.post("/api/speakers", async (req, res) => {
+    try {
+      const validatedData = insertSpeakerSchema.parse(req.body);
+      if (!await authorizeSessionMutation(req, res, validatedData.sessionId, 'manage-speakers')) return;
 
       const speaker = await storage.createSpeaker(validatedData);
       res.json(speaker);
@@ -416,7 +822,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/speakers/:id", async (req, res) => {
     try {
-      const speaker = await storage.updateSpeaker(req.params.id, req.body);
+      const parsed = updateSpeakerSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const existing = await storage.getSpeaker(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Speaker not found" });
+      }
+      if (!await authorizeSessionMutation(req, res, existing.sessionId, 'manage-speakers')) return;
+
+      const speaker = await storage.updateSpeaker(req.params.id, parsed.data);
       if (!speaker) {
         return res.status(404).json({ message: "Speaker not found" });
       }
@@ -430,6 +846,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/speakers/:id", async (req, res) => {
     try {
+      const existing = await storage.getSpeaker(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Speaker not found" });
+      }
+      if (!await authorizeSessionMutation(req, res, existing.sessionId, 'manage-speakers')) return;
+
       await storage.deleteSpeaker(req.params.id);
       res.json({ message: "Speaker deleted successfully" });
     } catch (error) {
@@ -442,13 +864,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Moderation Routes
   app.patch("/api/participants/:id/raise-hand", async (req, res) => {
     try {
-      const { handRaised } = req.body;
-      const participant = await storage.updateParticipant(req.params.id, { handRaised });
+      const parsed = raiseHandSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const { handRaised } = parsed.data;
+      const existing = await storage.getParticipant(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+
+      // Attendees raise and lower their own hand; floor managers may lower anyone's
+      const isSelf = ownsParticipant(getActor(req), existing);
+      if (!isSelf) {
+        if (handRaised) {
+          return res.status(403).json({ message: "Not authorized for this participant" });
+        }
+        if (!await authorizeSessionMutation(req, res, existing.sessionId, 'manage-hand-raises')) return;
+      }
 
+      // Raising a hand joins the back of the speaker queue; lowering it leaves the queue
+      const queueUpdate = !handRaised
+        ? { handRaisedAt: null, queuePosition: null }
+        : existing.handRaised
+          ? {}
+          : { handRaisedAt: new Date(), queuePosition: nextQueuePosition(await storage.getParticipantsBySession(existing.sessionId)) };
+      const participant = await storage.updateParticipant(req.params.id, { handRaised, ...queueUpdate });
       if (!participant) {
         return res.status(404).json({ message: "Participant not found" });
       }
 
+      // The attendee relays their own change; lowered hands are announced here
+      if (!isSelf) {
+        broadcastToSession(participant.sessionId, {
+          type: 'hand-raise',
+          data: { sessionId: participant.sessionId, participantId: participant.id, participantName: participant.name, handRaised: false }
+        });
+      }
+      await broadcastSpeakerQueue(participant.sessionId);
+
       res.json(participant);
     } catch (error) {
       res.status(500).json({
@@ -459,9 +913,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/participants/:id/preferences", async (req, res) => {
     try {
-      const { preferredVoice } = req.body;
-      const participant = await storage.updateParticipant(req.params.id, { preferredVoice });
+      const parsed = participantPreferencesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const { preferredVoice } = parsed.data;
+      const existing = await storage.getParticipant(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+      if (!ownsParticipant(getActor(req), existing)) {
+        return res.status(403).json({ message: "Not authorized for this participant" });
+      }
 
+      const participant = await storage.updateParticipant(req.params.id, { preferredVoice });
       if (!participant) {
         return res.status(404).json({ message: "Participant not found" });
       }
@@ -476,17 +941,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/participants/:id/speaking", async (req, res) => {
     try {
-      const { isSpeaking } = req.body;
-      // Clear handRaised when permission is granted or denied
-      const participant = await storage.updateParticipant(req.params.id, {
-        isSpeaking,
-        handRaised: false
-      });
+      const parsed = speakingPermissionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const { isSpeaking, timeLimitSeconds } = parsed.data;
+      const existing = await storage.getParticipant(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+
+      // Only the host, co-hosts and moderators grant or revoke speaking permission
+      const session = await authorizeSessionMutation(req, res, existing.sessionId, 'grant-speaking');
+      if (!session) return;
+
+      // Granting or denying takes the participant out of the speaker queue
+      if (!isSpeaking) {
+        speakingTimers.cancel(existing.id);
+      }
+      const participant = isSpeaking
+        ? await grantFloor(existing, timeLimitSeconds ?? null)
+        : await storage.updateParticipant(req.params.id, {
+          isSpeaking,
+          handRaised: false,
+          handRaisedAt: null,
+          queuePosition: null,
+          speakingUntil: null
+        });
 
       if (!participant) {
         return res.status(404).json({ message: "Participant not found" });
       }
 
+      // Hosts may always speak; anyone else stops being transcribed right away
+      if (!isSpeaking && participant.role !== 'host') {
+        revokeRecognizer(participant, 'not-speaking', 'Speaking permission was revoked');
+      }
+      broadcastToSession(participant.sessionId, {
+        type: 'speak-permission',
+        data: { sessionId: participant.sessionId, participantId: participant.id, isSpeaking }
+      });
+      if (isSpeaking) {
+        await takeFloor(session, participant, 'grant');
+      } else {
+        await releaseFloor(participant.sessionId, participant.id);
+      }
+      await broadcastSpeakerQueue(participant.sessionId);
+
       res.json(participant);
     } catch (error) {
       res.status(500).json({
@@ -495,184 +996,1354 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Audio Processing Routes
-  app.post("/api/audio/transcribe", upload.single('audio'), async (req, res) => {
+  app.patch("/api/participants/:id/mute", async (req, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No audio file provided" });
+      const parsed = muteParticipantSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const { isMuted } = parsed.data;
+      const existing = await storage.getParticipant(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+      if (!await authorizeSessionMutation(req, res, existing.sessionId, 'mute-speakers')) return;
+      if (existing.role === 'host') {
+        return res.status(403).json({ message: "The host cannot be muted" });
       }
 
-      const transcription = await transcribeAudio(req.file.buffer);
-      res.json({ transcription });
+      const participant = await storage.updateParticipant(req.params.id, { isMuted });
+      if (!participant) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+
+      if (isMuted) {
+        revokeRecognizer(participant, 'muted', 'A moderator muted you');
+        await releaseFloor(participant.sessionId, participant.id);
+      }
+      broadcastToSession(participant.sessionId, {
+        type: 'speaker-status',
+        data: { sessionId: participant.sessionId, participantId: participant.id, speakerName: participant.name, isActive: false, isMuted }
+      });
+
+      res.json(participant);
     } catch (error) {
       res.status(500).json({
-        message: error instanceof Error ? error.message : "Failed to transcribe audio"
+        message: error instanceof Error ? error.message : "Failed to update mute status"
       });
     }
   });
 
-  app.post("/api/audio/translate", async (req, res) => {
+  app.patch("/api/participants/:id/role", async (req, res) => {
     try {
-      const { text, fromLanguage, toLanguage } = req.body;
+      const parsed = assignRoleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const { role } = parsed.data;
+      const existing = await storage.getParticipant(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+      if (!await authorizeSessionMutation(req, res, existing.sessionId, 'assign-roles')) return;
+      if (existing.role === 'host') {
+        return res.status(403).json({ message: "The host's role cannot be changed" });
+      }
 
-      if (!text || !fromLanguage || !toLanguage) {
-        return res.status(400).json({
-          message: "Missing required fields: text, fromLanguage, toLanguage"
-        });
+      const participant = await storage.updateParticipant(req.params.id, { role });
+      if (!participant) {
+        return res.status(404).json({ message: "Participant not found" });
       }
 
-      const translation = await translateAudio(text, fromLanguage, toLanguage);
-      res.json({ translation });
+      console.log(`[Moderation] 🎖️ ${participant.name} (${participant.id}) is now ${role} in session ${participant.sessionId}`);
+      broadcastToSession(participant.sessionId, {
+        type: 'participant-role',
+        data: { sessionId: participant.sessionId, participantId: participant.id, role }
+      });
+
+      res.json(participant);
     } catch (error) {
       res.status(500).json({
-        message: error instanceof Error ? error.message : "Failed to translate text"
+        message: error instanceof Error ? error.message : "Failed to change role"
       });
     }
   });
 
-  app.post("/api/audio/synthesize", async (req, res) => {
+  // Speaker queue: raised hands in order, reordered and promoted by floor managers
+  app.get("/api/sessions/:sessionId/speaker-queue", async (req, res) => {
     try {
-      const { text, language, voiceName } = req.body;
+      const access = await authorizeSessionRead(req, res, req.params.sessionId, "Join the session to see its speaker queue");
+      if (!access) return;
+      res.json(describeSpeakerQueue(access.session.id, access.participants));
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to get speaker queue"
+      });
+    }
+  });
 
-      if (!text || !language) {
-        return res.status(400).json({
-          message: "Missing required fields: text, language"
-        });
+  app.put("/api/sessions/:sessionId/speaker-queue", async (req, res) => {
+    try {
+      const parsed = reorderSpeakerQueueSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
       }
+      const session = await authorizeSessionMutation(req, res, req.params.sessionId, 'manage-hand-raises');
+      if (!session) return;
 
-      const { generateSpeech } = await import("./services/googlecloud");
-      const { getLanguageCode } = await import("./services/translation");
-
-      const languageCode = getLanguageCode(language);
-      const audioBuffer = await generateSpeech(text, languageCode, voiceName);
+      const queue = getSpeakerQueue(await storage.getParticipantsBySession(session.id));
+      const positions = reorderSpeakerQueue(queue, parsed.data.participantIds);
+      await Promise.all(positions.map(({ id, queuePosition }) => storage.updateParticipant(id, { queuePosition })));
 
-      res.set({
-        'Content-Type': 'audio/mpeg',
-        'Content-Length': audioBuffer.length
-      });
-      res.send(audioBuffer);
+      const data = await broadcastSpeakerQueue(session.id);
+      res.json(data);
     } catch (error) {
+      if (error instanceof SpeakerQueueError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({
-        message: error instanceof Error ? error.message : "Failed to synthesize speech"
+        message: error instanceof Error ? error.message : "Failed to reorder speaker queue"
       });
     }
   });
 
-  app.get("/api/audio/voices/:languageCode", async (req, res) => {
+  // Give the floor to the head of the queue; the attendee who spoke before loses it
+  app.post("/api/sessions/:sessionId/speaker-queue/next", async (req, res) => {
     try {
-      const { languageCode } = req.params;
+      const parsed = nextSpeakerSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const session = await authorizeSessionMutation(req, res, req.params.sessionId, 'grant-speaking');
+      if (!session) return;
 
-      // Voice options for each language (male/female/neutral variations)
-      const voiceOptions: Record<string, Array<{ name: string; label: string; gender: string }>> = {
-        'en-US': [
-          { name: 'en-US-Neural2-F', label: 'Female - Warm', gender: 'female' },
-          { name: 'en-US-Neural2-C', label: 'Female - Clear', gender: 'female' },
-          { name: 'en-US-Neural2-D', label: 'Male - Deep', gender: 'male' },
-          { name: 'en-US-Neural2-A', label: 'Male - Friendly', gender: 'male' },
-        ],
-        'es-ES': [
-          { name: 'es-ES-Neural2-A', label: 'Female', gender: 'female' },
-          { name: 'es-ES-Neural2-B', label: 'Male', gender: 'male' },
-        ],
-        'fr-FR': [
-          { name: 'fr-FR-Neural2-A', label: 'Female', gender: 'female' },
-          { name: 'fr-FR-Neural2-B', label: 'Male', gender: 'male' },
-        ],
-        'de-DE': [
-          { name: 'de-DE-Neural2-A', label: 'Female', gender: 'female' },
-          { name: 'de-DE-Neural2-B', label: 'Male', gender: 'male' },
-        ],
-        'it-IT': [
-          { name: 'it-IT-Neural2-A', label: 'Female', gender: 'female' },
-          { name: 'it-IT-Neural2-C', label: 'Male', gender: 'male' },
-        ],
-        'pt-PT': [
-          { name: 'pt-PT-Wavenet-A', label: 'Female', gender: 'female' },
-          { name: 'pt-PT-Wavenet-B', label: 'Male', gender: 'male' },
-        ],
-        'pt-BR': [
-          { name: 'pt-BR-Neural2-A', label: 'Female', gender: 'female' },
-          { name: 'pt-BR-Neural2-B', label: 'Male', gender: 'male' },
-        ],
-        'ja-JP': [
-          { name: 'ja-JP-Neural2-B', label: 'Female', gender: 'female' },
-          { name: 'ja-JP-Neural2-C', label: 'Male', gender: 'male' },
-        ],
-        'ko-KR': [
-          { name: 'ko-KR-Neural2-A', label: 'Female', gender: 'female' },
-          { name: 'ko-KR-Neural2-C', label: 'Male', gender: 'male' },
-        ],
-        'ar-XA': [
-          { name: 'ar-XA-Wavenet-A', label: 'Female', gender: 'female' },
-          { name: 'ar-XA-Wavenet-B', label: 'Male', gender: 'male' },
-          { name: 'ar-XA-Wavenet-C', label: 'Male - Deep', gender: 'male' },
-        ],
-        'ar-SA': [
-          { name: 'ar-XA-Wavenet-A', label: 'Female', gender: 'female' },
-          { name: 'ar-XA-Wavenet-B', label: 'Male', gender: 'male' },
-          { name: 'ar-XA-Wavenet-C', label: 'Male - Deep', gender: 'male' },
-        ],
-        'zh-CN': [
-          { name: 'cmn-CN-Wavenet-A', label: 'Female', gender: 'female' },
-          { name: 'cmn-CN-Wavenet-B', label: 'Male', gender: 'male' },
-        ],
-        'hi-IN': [
-          { name: 'hi-IN-Neural2-A', label: 'Female', gender: 'female' },
-          { name: 'hi-IN-Neural2-B', label: 'Female - Warm', gender: 'female' },
-          { name: 'hi-IN-Neural2-C', label: 'Male', gender: 'male' },
-        ],
-        'ru-RU': [
-          { name: 'ru-RU-Wavenet-A', label: 'Female', gender: 'female' },
-          { name: 'ru-RU-Wavenet-B', label: 'Male', gender: 'male' },
-        ],
-      };
-
-      const voices = voiceOptions[languageCode] || [];
-
-      // If no specific voices found, return default using the language code
-      if (voices.length === 0) {
-        const baseCode = languageCode.split('-')[0];
-        return res.json({
-          voices: [
-            { name: `${languageCode}-Wavenet-A`, label: 'Default', gender: 'neutral' }
-          ]
-        });
+      const participants = await storage.getParticipantsBySession(session.id);
+      const [next] = getSpeakerQueue(participants);
+      if (!next) {
+        return res.status(409).json({ message: "No one is waiting to speak" });
+      }
+
+      // Staff (host, co-hosts, moderators) keep their permission
+      for (const previous of participants) {
+        if (!previous.isSpeaking || previous.id === next.id || participantRole(previous) !== 'participant') {
+          continue;
+        }
+        speakingTimers.cancel(previous.id);
+        const revoked = await storage.updateParticipant(previous.id, { isSpeaking: false, speakingUntil: null });
+        if (revoked) {
+          revokeRecognizer(revoked, 'not-speaking', 'The next speaker has the floor');
+          broadcastToSession(session.id, {
+            type: 'speak-permission',
+            data: { sessionId: session.id, participantId: revoked.id, isSpeaking: false }
+          });
+        }
       }
 
-      res.json({ voices });
+      const timeLimitSeconds = parsed.data.timeLimitSeconds !== undefined
+        ? parsed.data.timeLimitSeconds
+        : session.speakerTimeLimitSeconds;
+      const speaker = await grantFloor(next, timeLimitSeconds);
+      if (!speaker) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+
+      console.log(`[Floor] 🎤 ${speaker.name} (${speaker.id}) has the floor in session ${session.id}${timeLimitSeconds ? ` for ${timeLimitSeconds}s` : ''}`);
+      broadcastToSession(session.id, {
+        type: 'speak-permission',
+        data: { sessionId: session.id, participantId: speaker.id, isSpeaking: true }
+      });
+      await takeFloor(session, speaker, 'grant');
+      await broadcastSpeakerQueue(session.id);
+
+      res.json(speaker);
     } catch (error) {
       res.status(500).json({
-        message: error instanceof Error ? error.message : "Failed to get voices"
+        message: error instanceof Error ? error.message : "Failed to promote the next speaker"
       });
     }
   });
 
-  // Audio cache: store synthesized speech to avoid re-generating same translations
-  const audioCache = new Map<string, string>();
+  // Lobby: POST /api/participants/:id/{admit,reject} decides on a participant waiting to join
+  const LOBBY_DECISIONS: Record<'admit' | 'reject', ParticipantAdmission> = { admit: 'admitted', reject: 'rejected' };
+  for (const [decision, admission] of Object.entries(LOBBY_DECISIONS)) {
+    app.post(`/api/participants/:id/${decision}`, async (req, res) => {
+      try {
+        const existing = await storage.getParticipant(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ message: "Participant not found" });
+        }
+        if (!await authorizeSessionMutation(req, res, existing.sessionId, 'admit-participants')) return;
+        if (existing.admission !== 'waiting') {
+          return res.status(409).json({ message: `Participant was already ${existing.admission}` });
+        }
 
-  // WebSocket Server for Real-time Communication
-  const wss = new WSServer({
-    server: httpServer,
-    path: '/ws'
-  });
+        const participant = await storage.updateParticipant(req.params.id, { admission });
+        if (!participant) {
+          return res.status(404).json({ message: "Participant not found" });
+        }
 
-  interface SessionRoom {
-    sessionId: string;
-    clients: Set<WebSocket>;
+        console.log(`[Lobby] ${admission === 'admitted' ? '✅' : '⛔'} ${participant.name} (${participant.id}) ${admission} to session ${participant.sessionId}`);
+        publishSessionEvent({
+          type: 'participant-message',
+          sessionId: participant.sessionId,
+          participantId: participant.id,
+          message: { type: 'admission', data: { sessionId: participant.sessionId, participantId: participant.id, admission } }
+        });
+        announceLobbyUpdate(participant);
+
+        res.json(participant);
+      } catch (error) {
+        res.status(500).json({
+          message: error instanceof Error ? error.message : `Failed to ${decision} participant`
+        });
+      }
+    });
   }
 
-  const sessionRooms = new Map<string, SessionRoom>();
+  // Removal: POST /api/participants/:id/{kick,ban}; a kicked participant may join again,
+  // a banned one is blocked by account, device and IP address. Both are logged for the host.
+  const moderationActionTypes: ModerationActionType[] = ['kick', 'ban'];
+  for (const action of moderationActionTypes) {
+    app.post(`/api/participants/:id/${action}`, async (req, res) => {
+      try {
+        const parsed = removeParticipantSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+          return res.status(400).json({ message: describeValidationError(parsed.error) });
+        }
+        const participant = await storage.getParticipant(req.params.id);
+        if (!participant) {
+          return res.status(404).json({ message: "Participant not found" });
+        }
+        if (!await authorizeSessionMutation(req, res, participant.sessionId, 'remove-participants')) return;
+        if (participant.role === 'host') {
+          return res.status(403).json({ message: "The host cannot be removed" });
+        }
 
-  // Streaming audio manager for real-time transcription
-  const { StreamingAudioManager } = await import('./services/streaming-audio');
-  const streamingManager = new StreamingAudioManager();
+        if (participant.admission === 'removed') {
+          return res.status(409).json({ message: "Participant was already removed" });
+        }
 
-  // Helper function to broadcast to session
-  function broadcastToSession(sessionId: string, message: any) {
-    const room = sessionRooms.get(sessionId);
+        const reason = parsed.data.reason || null;
+        const { deviceId, ipAddress } = await storage.getParticipantOrigin(participant.id);
+
+        const record = await storage.recordModerationAction({
+          sessionId: participant.sessionId,
+          action,
+          participantId: participant.id,
+          participantName: participant.name,
+          userId: participant.userId,
+          deviceId: deviceId ?? null,
+          ipAddress: ipAddress ?? null,
+          reason,
+          performedBy: await getActorName(getActor(req)),
+        });
+        // Their words stay in the transcript; they lose their seat and any speaking rights
+        await storage.removeParticipant(participant.id);
+        speakingTimers.cancel(participant.id);
+        await releaseFloor(participant.sessionId, participant.id);
+
+        console.log(`[Moderation] 🚪 ${participant.name} (${participant.id}) ${action === 'ban' ? 'banned from' : 'kicked from'} session ${participant.sessionId} by ${record.performedBy}`);
+        revokeRecognizer(participant, 'removed', 'You were removed from the session');
+        publishSessionEvent({
+          type: 'participant-message',
+          sessionId: participant.sessionId,
+          participantId: participant.id,
+          message: { type: 'removed', data: { sessionId: participant.sessionId, participantId: participant.id, banned: action === 'ban', reason } }
+        });
+        // Removal marks them inactive, so presence tracking will not announce the departure
+        broadcastToSession(participant.sessionId, {
+          type: 'participant-left',
+          data: { sessionId: participant.sessionId, participantId: participant.id, name: participant.name }
+        });
+        if (participant.handRaised) {
+          await broadcastSpeakerQueue(participant.sessionId);
+        }
+
+        res.json(record);
+      } catch (error) {
+        res.status(500).json({
+          message: error instanceof Error ? error.message : `Failed to ${action} participant`
+        });
+      }
+    });
+  }
+
+  // Kicks and bans of a session, newest first, for the session host
+  app.get("/api/sessions/:sessionId/moderation-log", async (req, res) => {
+    try {
+      const userId = req.session.userId;
+      if (!userId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (session.hostUserId !== userId) {
+        return res.status(403).json({ message: "Only the host can view the moderation log" });
+      }
+
+      res.json(await storage.getModerationActionsBySession(session.id));
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to get moderation log"
+      });
+    }
+  });
+
+  // Audience Q&A: questions are asked in the asker's language, translated for the host and
+  // the session's languages, and shown to everyone once a moderator approves them
+  app.get("/api/sessions/:sessionId/questions", async (req, res) => {
+    try {
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const actor = getActor(req);
+      if (!actor.userId && !actor.participantId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const participants = await storage.getParticipantsBySession(session.id);
+      const role = resolveSessionRole(session, actor, participants);
+      const viewer = findActingParticipant(actor, participants);
+      if (role !== 'host' && !viewer) {
+        return res.status(403).json({ message: "Join the session to see its questions" });
+      }
+
+      const upvoted = new Set(viewer ? await storage.getUpvotedQuestionIds(session.id, viewer.id) : []);
+      const visible = sortQuestions(await storage.getQuestionsBySession(session.id))
+        .filter(question => canSeeQuestion(question, { participantId: viewer?.id || null, moderator: roleCan(role, 'moderate-questions') }));
+      res.json(visible.map(question => ({ ...toQuestionData(question), hasUpvoted: upvoted.has(question.id) })));
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to get questions"
+      });
+    }
+  });
+
+  app.post("/api/sessions/:sessionId/questions", async (req, res) => {
+    try {
+      const parsed = askQuestionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (session.status === 'ended') {
+        return res.status(409).json({ message: "This session has ended" });
+      }
+      const actor = getActor(req);
+      if (!actor.userId && !actor.participantId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const participants = await storage.getParticipantsBySession(session.id);
+      const asker = findActingParticipant(actor, participants);
+      if (!asker) {
+        return res.status(403).json({ message: "Join the session to ask a question" });
+      }
+
+      // The host reads every question, even if nobody else uses their language
+      const hostLanguage = participants.find(participant => participant.role === 'host')?.language
+        || (session.hostUserId ? (await storage.getUserById(session.hostUserId))?.preferredLanguage : undefined);
+      const originalLanguage = standardizeLanguageName(asker.language);
+      const { translations, failedLanguages } = await translateForSession(
+        session, participants, parsed.data.text, originalLanguage, hostLanguage ? [hostLanguage] : []
+      );
+      // Questions from the host, co-hosts and moderators need no approval
+      const status: QuestionStatus = roleCan(participantRole(asker), 'moderate-questions') ? 'approved' : 'pending';
+      const question = await storage.createQuestion({
+        sessionId: session.id,
+        participantId: asker.id,
+        authorName: asker.name,
+        originalText: parsed.data.text,
+        originalLanguage,
+        translations,
+        failedLanguages,
+        status,
+      });
+
+      console.log(`[Q&A] ❓ ${asker.name} (${asker.id}) asked a question in session ${session.id} (${status}, ${Object.keys(translations).length} languages)`);
+      await announceQuestion(question);
+      res.status(201).json({ ...toQuestionData(question), hasUpvoted: false });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to ask question"
+      });
+    }
+  });
+
+  // POST /api/questions/:id/upvote upvotes an approved question, DELETE takes the upvote back
+  for (const [method, upvoted] of [['post', true], ['delete', false]] as const) {
+    app[method]("/api/questions/:id/upvote", async (req, res) => {
+      try {
+        const existing = await storage.getQuestion(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ message: "Question not found" });
+        }
+        const voter = findActingParticipant(getActor(req), await storage.getParticipantsBySession(existing.sessionId));
+        if (!voter) {
+          return res.status(403).json({ message: "Join the session to upvote questions" });
+        }
+        if (upvoted && existing.status !== 'approved') {
+          return res.status(409).json({ message: "Only approved questions can be upvoted" });
+        }
+
+        const question = await storage.setQuestionVote(existing.id, voter.id, upvoted);
+        if (!question) {
+          return res.status(404).json({ message: "Question not found" });
+        }
+
+        await announceQuestion(question);
+        res.json({ ...toQuestionData(question), hasUpvoted: upvoted });
+      } catch (error) {
+        res.status(500).json({
+          message: error instanceof Error ? error.message : "Failed to update upvote"
+        });
+      }
+    });
+  }
+
+  // Moderation: POST /api/questions/:id/{approve,answer,dismiss}
+  for (const action of questionActions) {
+    app.post(`/api/questions/:id/${action}`, async (req, res) => {
+      try {
+        const existing = await storage.getQuestion(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ message: "Question not found" });
+        }
+        if (!await authorizeSessionMutation(req, res, existing.sessionId, 'moderate-questions')) return;
+
+        const updates = planQuestionTransition(existing, action, await getActorName(getActor(req)));
+        const question = await storage.transitionQuestion(existing.id, existing.status, updates);
+        if (!question) {
+          return res.status(409).json({ message: "Question changed concurrently; reload and try again" });
+        }
+
+        console.log(`[Q&A] 🗂️ Question ${question.id} in session ${question.sessionId}: ${existing.status} → ${question.status} by ${question.moderatedBy}`);
+        await announceQuestion(question, existing.status);
+        res.json(toQuestionData(question));
+      } catch (error) {
+        if (error instanceof QuestionTransitionError) {
+          return res.status(409).json({ message: error.message });
+        }
+        res.status(500).json({
+          message: error instanceof Error ? error.message : `Failed to ${action} question`
+        });
+      }
+    });
+  }
+
+  // Session chat: messages are translated once and read by everyone in their own language
+  app.get("/api/sessions/:sessionId/chat", async (req, res) => {
+    try {
+      const access = await authorizeSessionRead(req, res, req.params.sessionId, "Join the session to read its chat");
+      if (!access) return;
+      const { session, viewer } = access;
+
+      const messages = (await storage.getChatMessagesBySession(session.id)).filter(message => !message.deletedAt);
+      const language = viewer ? standardizeLanguageName(viewer.language).toLowerCase() : null;
+      res.json(messages.map(message => localizeChatMessage(
+        toChatMessageData(message),
+        translated => !language || translated.toLowerCase() === language
+      )));
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to get chat"
+      });
+    }
+  });
+
+  app.post("/api/sessions/:sessionId/chat", async (req, res) => {
+    try {
+      const parsed = sendChatMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (session.status === 'ended') {
+        return res.status(409).json({ message: "This session has ended" });
+      }
+      const actor = getActor(req);
+      if (!actor.userId && !actor.participantId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const participants = await storage.getParticipantsBySession(session.id);
+      const author = findActingParticipant(actor, participants);
+      if (!author) {
+        return res.status(403).json({ message: "Join the session to chat" });
+      }
+      if (author.chatMuted) {
+        return res.status(403).json({ message: "A moderator muted you in the chat" });
+      }
+
+      const originalLanguage = standardizeLanguageName(author.language);
+      const { translations, failedLanguages } = await translateForSession(session, participants, parsed.data.text, originalLanguage);
+      const message = await storage.createChatMessage({
+        sessionId: session.id,
+        participantId: author.id,
+        authorName: author.name,
+        originalText: parsed.data.text,
+        originalLanguage,
+        translations,
+        failedLanguages,
+      });
+
+      const data = toChatMessageData(message);
+      publishChatMessage(session.id, data);
+      res.status(201).json(data);
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to send chat message"
+      });
+    }
+  });
+
+  app.delete("/api/chat/:id", async (req, res) => {
+    try {
+      const existing = await storage.getChatMessage(req.params.id);
+      if (!existing || existing.deletedAt) {
+        return res.status(404).json({ message: "Chat message not found" });
+      }
+      if (!await authorizeSessionMutation(req, res, existing.sessionId, 'moderate-chat')) return;
+
+      const message = await storage.deleteChatMessage(existing.id, await getActorName(getActor(req)));
+      if (!message) {
+        return res.status(404).json({ message: "Chat message not found" });
+      }
+
+      console.log(`[Chat] 🗑️ Message ${message.id} from ${message.authorName} deleted in session ${message.sessionId} by ${message.deletedBy}`);
+      broadcastToSession(message.sessionId, {
+        type: 'chat-message-deleted',
+        data: { sessionId: message.sessionId, messageId: message.id, deletedBy: message.deletedBy || 'Unknown' }
+      });
+      res.json({ message: "Chat message deleted successfully" });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to delete chat message"
+      });
+    }
+  });
+
+  // Muted chatters keep reading the chat but cannot post
+  app.patch("/api/participants/:id/chat-mute", async (req, res) => {
+    try {
+      const parsed = muteParticipantSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const { isMuted } = parsed.data;
+      const existing = await storage.getParticipant(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+      if (!await authorizeSessionMutation(req, res, existing.sessionId, 'moderate-chat')) return;
+      if (existing.role === 'host') {
+        return res.status(403).json({ message: "The host cannot be muted" });
+      }
+
+      const participant = await storage.updateParticipant(req.params.id, { chatMuted: isMuted });
+      if (!participant) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+
+      console.log(`[Chat] ${isMuted ? '🔇' : '🔊'} ${participant.name} (${participant.id}) ${isMuted ? 'muted' : 'unmuted'} in the chat of session ${participant.sessionId}`);
+      broadcastToSession(participant.sessionId, {
+        type: 'chat-muted',
+        data: { sessionId: participant.sessionId, participantId: participant.id, isMuted }
+      });
+
+      res.json(participant);
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to update chat mute status"
+      });
+    }
+  });
+
+  // Host announcements: pinned for everyone until removed, in every language in use and
+  // spoken to voice-output listeners. Viewers whose language came into use later get it
+  // translated on first read.
+  app.get("/api/sessions/:sessionId/announcements", async (req, res) => {
+    try {
+      const access = await authorizeSessionRead(req, res, req.params.sessionId, "Join the session to see its announcements");
+      if (!access) return;
+      const { session, viewer } = access;
+
+      const language = viewer ? standardizeLanguageName(viewer.language) : null;
+      const announcements = await Promise.all((await storage.getAnnouncementsBySession(session.id))
+        .map(announcement => language ? addAnnouncementLanguage(session, announcement, language) : announcement));
+      res.json(announcements.map(toAnnouncementData));
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to get announcements"
+      });
+    }
+  });
+
+  app.post("/api/sessions/:sessionId/announcements", async (req, res) => {
+    try {
+      const parsed = createAnnouncementSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const session = await authorizeSessionMutation(req, res, req.params.sessionId, 'make-announcements');
+      if (!session) return;
+      if (session.status === 'ended') {
+        return res.status(409).json({ message: "This session has ended" });
+      }
+
+      // Written in the language of the host or co-host announcing it
+      const actor = getActor(req);
+      const participants = await storage.getParticipantsBySession(session.id);
+      const author = findActingParticipant(actor, participants);
+      const authorLanguage = author?.language
+        || (actor.userId ? (await storage.getUserById(actor.userId))?.preferredLanguage : undefined)
+        || 'English';
+      const originalLanguage = standardizeLanguageName(authorLanguage);
+      const { translations, failedLanguages } = await translateForSession(session, participants, parsed.data.text, originalLanguage);
+
+      const announcement = await storage.createAnnouncement({
+        sessionId: session.id,
+        originalText: parsed.data.text,
+        originalLanguage,
+        translations,
+        failedLanguages,
+        createdBy: await getActorName(actor),
+      });
+
+      const data = toAnnouncementData(announcement);
+      console.log(`[Announcement] 📌 ${data.createdBy} pinned an announcement in session ${session.id} (${Object.keys(translations).length} languages)`);
+      broadcastToSession(session.id, { type: 'announcement', data });
+      voiceAnnouncement(session, participants, data).catch((error) => {
+        console.error(`[Announcement] ❌ Failed to voice announcement ${data.id}:`, error);
+      });
+
+      res.status(201).json(data);
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to make announcement"
+      });
+    }
+  });
+
+  app.delete("/api/announcements/:id", async (req, res) => {
+    try {
+      const announcement = await storage.getAnnouncement(req.params.id);
+      if (!announcement) {
+        return res.status(404).json({ message: "Announcement not found" });
+      }
+      if (!await authorizeSessionMutation(req, res, announcement.sessionId, 'make-announcements')) return;
+
+      await storage.deleteAnnouncement(announcement.id);
+      console.log(`[Announcement] 🗑️ Announcement ${announcement.id} removed from session ${announcement.sessionId}`);
+      broadcastToSession(announcement.sessionId, {
+        type: 'announcement-removed',
+        data: { sessionId: announcement.sessionId, announcementId: announcement.id }
+      });
+      res.json({ message: "Announcement removed successfully" });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to remove announcement"
+      });
+    }
+  });
+
+  // Audio Processing Routes
+  app.post("/api/audio/transcribe", upload.single('audio'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No audio file provided" });
+      }
+
+      const transcription = await transcribeAudio(req.file.buffer);
+      res.json({ transcription });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to transcribe audio"
+      });
+    }
+  });
+
+  app.post("/api/audio/translate", async (req, res) => {
+    try {
+      const { text, fromLanguage, toLanguage } = req.body;
+
+      if (!text || !fromLanguage || !toLanguage) {
+        return res.status(400).json({
+          message: "Missing required fields: text, fromLanguage, toLanguage"
+        });
+      }
+
+      const translation = await translateAudio(text, fromLanguage, toLanguage);
+      res.json({ translation });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to translate text"
+      });
+    }
+  });
+
+  app.post("/api/audio/synthesize", async (req, res) => {
+    try {
+      const { text, language, voiceName } = req.body;
+
+      if (!text || !language) {
+        return res.status(400).json({
+          message: "Missing required fields: text, language"
+        });
+      }
+
+      const { getLanguageCode } = await import("./services/translation");
+
+      const languageCode = getLanguageCode(language);
+      const { audio, mimeType } = await synthesizeCached(text, languageCode, voiceName);
+
+      res.set({
+        'Content-Type': mimeType,
+        'Content-Length': audio.length
+      });
+      res.send(audio);
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to synthesize speech"
+      });
+    }
+  });
+
+  // Cache metrics for signed-in hosts
+  app.get("/api/audio/cache", async (req, res) => {
+    try {
+      if (!req.session.userId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      res.json(audioCache.getMetrics());
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to get audio cache metrics"
+      });
+    }
+  });
+
+  app.get("/api/audio/voices/:languageCode", async (req, res) => {
+    try {
+      const { languageCode } = req.params;
+
+      // Accept language names ("Spanish") as well as locale codes ("es-ES")
+      const localeCode = languageCode.includes('-') ? languageCode : getLocaleCode(languageCode);
+
+      res.json({ voices: speechSynthesis.listVoices(localeCode) });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to get voices"
+      });
+    }
+  });
+
+  // Glossary Routes
+  // Session glossaries live under /api/sessions/:sessionId/glossary; organization-wide
+  // terms (applied to every session the host runs) live under /api/glossary
+
+  // Resolve the glossary scope for a request; only the session host may manage a session glossary
+  async function resolveGlossaryScope(req: Request, res: Response): Promise<GlossaryScope | null> {
+    const userId = req.session.userId;
+    if (!userId) {
+      res.status(401).json({ message: "Not authenticated" });
+      return null;
+    }
+
+    if (!req.params.sessionId) {
+      return { ownerUserId: userId };
+    }
+
+    const session = await storage.getSession(req.params.sessionId);
+    if (!session) {
+      res.status(404).json({ message: "Session not found" });
+      return null;
+    }
+    if (session.hostUserId !== userId) {
+      res.status(403).json({ message: "Only the host can manage the session glossary" });
+      return null;
+    }
+    return { sessionId: session.id };
+  }
+
+  async function canManageGlossaryTerm(term: GlossaryTerm, userId: string): Promise<boolean> {
+    if (term.sessionId) {
+      const session = await storage.getSession(term.sessionId);
+      return !!session && session.hostUserId === userId;
+    }
+    return term.ownerUserId === userId;
+  }
+
+  // Push updated phrase hints to live recognizers (picked up on their next stream)
+  async function refreshGlossaryHints(scope: GlossaryScope) {
+    if (!('sessionId' in scope)) {
+      return;
+    }
+    const session = await storage.getSession(scope.sessionId);
+    if (!session) {
+      return;
+    }
+    const phraseHints = getPhraseHints(await getSessionGlossary(session));
+    for (const stream of streamingManager.getStreamsForSession(session.id)) {
+      stream.phraseHints = phraseHints;
+    }
+  }
+
+  for (const basePath of ["/api/glossary", "/api/sessions/:sessionId/glossary"]) {
+    app.get(basePath, async (req, res) => {
+      try {
+        const scope = await resolveGlossaryScope(req, res);
+        if (!scope) return;
+
+        res.json(await storage.getGlossaryTerms(scope));
+      } catch (error) {
+        res.status(500).json({
+          message: error instanceof Error ? error.message : "Failed to get glossary"
+        });
+      }
+    });
+
+    app.post(basePath, async (req, res) => {
+      try {
+        const scope = await resolveGlossaryScope(req, res);
+        if (!scope) return;
+
+        const validatedData = normalizeGlossaryTerm(insertGlossaryTermSchema.parse(req.body));
+        const [term] = await storage.createGlossaryTerms(scope, [validatedData]);
+        await refreshGlossaryHints(scope);
+        res.json(term);
+      } catch (error) {
+        res.status(400).json({
+          message: error instanceof Error ? error.message : "Invalid glossary term"
+        });
+      }
+    });
+
+    app.post(`${basePath}/import`, async (req, res) => {
+      try {
+        const scope = await resolveGlossaryScope(req, res);
+        if (!scope) return;
+
+        const { format, content, replace } = glossaryImportSchema.parse(req.body);
+        const parsed = format === 'csv' ? parseGlossaryCsv(content) : parseGlossaryTbx(content);
+        const terms = parsed.map(term => insertGlossaryTermSchema.parse(term));
+
+        const created = await storage.createGlossaryTerms(scope, terms, replace);
+        await refreshGlossaryHints(scope);
+        console.log(`[Glossary] Imported ${created.length} terms (${format})`);
+        res.json({ imported: created.length, terms: created });
+      } catch (error) {
+        res.status(400).json({
+          message: error instanceof Error ? error.message : "Invalid glossary file"
+        });
+      }
+    });
+
+    app.get(`${basePath}/export`, async (req, res) => {
+      try {
+        const scope = await resolveGlossaryScope(req, res);
+        if (!scope) return;
+
+        const format = req.query.format === 'tbx' ? 'tbx' : 'csv';
+        const terms = await storage.getGlossaryTerms(scope);
+
+        res.setHeader('Content-Type', format === 'tbx' ? 'application/x-tbx+xml' : 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="glossary.${format}"`);
+        res.send(format === 'tbx' ? formatGlossaryTbx(terms) : formatGlossaryCsv(terms));
+      } catch (error) {
+        res.status(500).json({
+          message: error instanceof Error ? error.message : "Failed to export glossary"
+        });
+      }
+    });
+  }
+
+  app.patch("/api/glossary/terms/:id", async (req, res) => {
+    try {
+      const userId = req.session.userId;
+      if (!userId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const existing = await storage.getGlossaryTerm(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Glossary term not found" });
+      }
+      if (!(await canManageGlossaryTerm(existing, userId))) {
+        return res.status(403).json({ message: "Not allowed to edit this glossary term" });
+      }
+
+      const updates = normalizeGlossaryTerm(insertGlossaryTermSchema.partial().parse(req.body));
+      const term = await storage.updateGlossaryTerm(req.params.id, updates);
+      if (existing.sessionId) {
+        await refreshGlossaryHints({ sessionId: existing.sessionId });
+      }
+      res.json(term);
+    } catch (error) {
+      res.status(400).json({
+        message: error instanceof Error ? error.message : "Invalid glossary term"
+      });
+    }
+  });
+
+  app.delete("/api/glossary/terms/:id", async (req, res) => {
+    try {
+      const userId = req.session.userId;
+      if (!userId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const existing = await storage.getGlossaryTerm(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Glossary term not found" });
+      }
+      if (!(await canManageGlossaryTerm(existing, userId))) {
+        return res.status(403).json({ message: "Not allowed to delete this glossary term" });
+      }
+
+      await storage.deleteGlossaryTerm(req.params.id);
+      if (existing.sessionId) {
+        await refreshGlossaryHints({ sessionId: existing.sessionId });
+      }
+      res.json({ message: "Glossary term deleted successfully" });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to delete glossary term"
+      });
+    }
+  });
+
+  // WebSocket Server for Real-time Communication
+  // Upgrades are authenticated first and every connection is bound to one participant:
+  // guests pass their participant token, hosts their session cookie plus participantId
+  const wss = new WSServer({ noServer: true });
+
+  async function authenticateConnection(req: Request, params: URLSearchParams): Promise<ConnectionIdentity | null> {
+    const token = params.get('token');
+    const participantId = verifyParticipantToken(token)?.participantId || params.get('participantId');
+    if (!participantId) {
+      return null;
+    }
+
+    const participant = await storage.getParticipant(participantId);
+    if (!participant || !ownsParticipant(getActor(req, token), participant) || participant.admission === 'rejected' || participant.admission === 'removed') {
+      return null;
+    }
+    return {
+      participantId: participant.id,
+      sessionId: participant.sessionId,
+      role: participantRole(participant),
+      admission: participant.admission
+    };
+  }
+
+  httpServer.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== '/ws') {
+      return; // Other upgrade handlers (e.g. Vite HMR) own the rest
+    }
+
+    const reject = (status: number, reason: string) => {
+      console.warn(`[WebSocket] 🚫 Upgrade rejected (${status}): ${reason}`);
+      socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+      socket.destroy();
+    };
+
+    sessionMiddleware(req as Request, {} as Response, () => {
+      authenticateConnection(req as Request, url.searchParams)
+        .then((identity) => {
+          if (!identity) {
+            reject(401, 'Unauthorized');
+            return;
+          }
+          wss.handleUpgrade(req, socket, head, (ws) => {
+            wss.emit('connection', ws, req, identity);
+          });
+        })
+        .catch((error) => {
+          console.error('[WebSocket] ❌ Upgrade authentication failed:', error);
+          reject(500, 'Internal Server Error');
+        });
+    });
+  });
+
+  interface SessionRoom {
+    sessionId: string;
+    clients: Map<WebSocket, RoomMember>;
+  }
+
+  interface RoomMember {
+    participantId: string;
+    subscription: LanguageSubscription; // The client's language channels
+  }
+
+  const sessionRooms = new Map<string, SessionRoom>();
+
+  // Streaming audio manager for real-time transcription
+  const { StreamingAudioManager } = await import('./services/streaming-audio');
+  const streamingManager = new StreamingAudioManager();
+
+  // Session events reach clients connected to any instance through the bus
+  const sessionBus = await createSessionEventBus();
+  console.log(`[SessionBus] Using ${sessionBus.name} bus (instance ${sessionBus.instanceId})`);
+
+  // Sessions created before lifecycle states were added default to draft
+  const backfilled = await storage.backfillSessionStatus();
+  if (backfilled > 0) {
+    console.log(`[Session] 🔄 Marked ${backfilled} active sessions created before lifecycle states as live`);
+  }
+  const upgradedHosts = await storage.backfillUserPlans();
+  if (upgradedHosts > 0) {
+    console.log(`[Plan] 🔄 Restored the professional plan on ${upgradedHosts} accounts defaulted to basic`);
+  }
+
+  // Connection on this instance that owns each speaker's recognizer, by participant id
+  interface RecognizerOwner {
+    sessionId: string;
+    release: (code: ProtocolErrorCode, message: string) => void;
+  }
+  const recognizerOwners = new Map<string, RecognizerOwner>();
+
+  // Identities of the WebSocket connections on this instance
+  const connectionIdentities = new Map<WebSocket, ConnectionIdentity>();
+
+  // Stop transcribing a participant wherever their recognizer runs
+  function revokeRecognizer(participant: Participant, code: ProtocolErrorCode, message: string) {
+    publishSessionEvent({ type: 'recognizer-revoked', sessionId: participant.sessionId, participantId: participant.id, code, message });
+  }
+
+  // Warning and expiry timers of time-limited speaking turns started on this instance
+  const speakingTimers = new SpeakingTimers();
+
+  function describeSpeakerQueue(sessionId: string, participants: Participant[]): SpeakerQueueData {
+    return {
+      sessionId,
+      queue: getSpeakerQueue(participants).map(participant => ({
+        participantId: participant.id,
+        name: participant.name,
+        raisedAt: participant.handRaisedAt ? participant.handRaisedAt.toISOString() : null,
+      })),
+    };
+  }
+
+  async function broadcastSpeakerQueue(sessionId: string): Promise<SpeakerQueueData> {
+    const data = describeSpeakerQueue(sessionId, await storage.getParticipantsBySession(sessionId));
+    broadcastToSession(sessionId, { type: 'speaker-queue', data });
+    return data;
+  }
+
+  // Grant speaking permission, taking the participant out of the queue; a time limit
+  // starts a turn that warns the speaker and then ends on its own
+  async function grantFloor(participant: Participant, timeLimitSeconds: number | null): Promise<Participant | undefined> {
+    const speakingUntil = timeLimitSeconds ? new Date(Date.now() + timeLimitSeconds * 1000) : null;
+    const updated = await storage.updateParticipant(participant.id, {
+      isSpeaking: true,
+      handRaised: false,
+      handRaisedAt: null,
+      queuePosition: null,
+      speakingUntil
+    });
+    if (updated && speakingUntil) {
+      scheduleSpeakingTurn(updated, speakingUntil);
+    } else {
+      speakingTimers.cancel(participant.id);
+    }
+    return updated;
+  }
+
+  function scheduleSpeakingTurn(participant: Participant, speakingUntil: Date) {
+    // The turn may have been revoked or replaced meanwhile, possibly through another instance
+    const currentTurn = async () => {
+      const current = await storage.getParticipant(participant.id);
+      return current?.isSpeaking && current.speakingUntil?.getTime() === speakingUntil.getTime() ? current : undefined;
+    };
+
+    speakingTimers.start(participant.id, speakingUntil, {
+      warn: (remainingSeconds) => {
+        currentTurn().then((current) => {
+          if (!current) return;
+          publishSessionEvent({
+            type: 'participant-message',
+            sessionId: current.sessionId,
+            participantId: current.id,
+            message: { type: 'speaking-time-warning', data: { sessionId: current.sessionId, participantId: current.id, remainingSeconds } }
+          });
+        }).catch((error) => {
+          console.error(`[Floor] ❌ Failed to warn speaker ${participant.id}:`, error);
+        });
+      },
+      expire: () => {
+        // Every instance that armed this turn races to end it; only one update matches
+        storage.endSpeakingTurn(participant.id, speakingUntil).then(async (ended) => {
+          if (!ended) return;
+          console.log(`[Floor] ⏱️ Speaking time of ${ended.name} (${ended.id}) is up in session ${ended.sessionId}`);
+          revokeRecognizer(ended, 'speaking-time-expired', 'Your speaking time is up');
+          await releaseFloor(ended.sessionId, ended.id);
+          broadcastToSession(ended.sessionId, {
+            type: 'speak-permission',
+            data: { sessionId: ended.sessionId, participantId: ended.id, isSpeaking: false }
+          });
+        }).catch((error) => {
+          console.error(`[Floor] ❌ Failed to end the turn of speaker ${participant.id}:`, error);
+        });
+      }
+    });
+  }
+
+  // Timers live in memory: after a restart, re-arm the turns still running (overdue ones end now)
+  storage.getTimedSpeakers().then((speakers) => {
+    speakers.forEach(speaker => scheduleSpeakingTurn(speaker, speaker.speakingUntil!));
+    if (speakers.length > 0) {
+      console.log(`[Floor] ⏱️ Re-armed ${speakers.length} time-limited speaking turns`);
+    }
+  }).catch((error) => {
+    console.error('[Floor] ❌ Failed to re-arm speaking turns:', error);
+  });
+
+  function announceLobbyUpdate(participant: Participant) {
+    broadcastToSession(participant.sessionId, {
+      type: 'lobby-updated',
+      data: { sessionId: participant.sessionId, participantId: participant.id, name: participant.name, admission: participant.admission }
+    });
+  }
+
+  // Last known lifecycle state of sessions with speakers on this instance; audio frames are
+  // dropped unless live
+  const sessionLiveness = new Map<string, SessionStatus>();
+
+  // Stop every local recognizer of a session that is no longer live
+  function applySessionStatus(sessionId: string, status: SessionStatus) {
+    sessionLiveness.set(sessionId, status);
+    if (acceptsAudio(status)) {
+      return;
+    }
+    recognizerOwners.forEach((owner) => {
+      if (owner.sessionId === sessionId) {
+        owner.release('session-not-live', `Session is ${status}; audio is only accepted while live`);
+      }
+    });
+  }
+
+  // Last known floor of sessions with speakers on this instance; audio of speakers who do not
+  // hold a single floor is dropped
+  const floorStates = new Map<string, FloorState>();
+
+  // Stop every local recognizer of a speaker who just lost the floor
+  function applyFloorChange(sessionId: string, state: FloorState) {
+    floorStates.set(sessionId, state);
+    recognizerOwners.forEach((owner, participantId) => {
+      if (owner.sessionId === sessionId && !mayTransmit(state, participantId)) {
+        owner.release('floor-taken', 'Another speaker took the floor; start speaking again to take it back');
+      }
+    });
+  }
+
+  // Under the single policy a speaking grant or starting to speak takes the floor
+  async function takeFloor(session: Session, participant: Participant, reason: 'grant' | 'voice') {
+    if (session.floorPolicy !== 'single' || session.floorHolderId === participant.id) {
+      return;
+    }
+    await storage.updateSession(session.id, { floorHolderId: participant.id });
+    floorStates.set(session.id, { policy: 'single', holderId: participant.id });
+    console.log(`[Floor] 🎙️ ${participant.name} (${participant.id}) took the floor in session ${session.id} (${reason})`);
+    broadcastToSession(session.id, {
+      type: 'floor-changed',
+      data: { sessionId: session.id, policy: 'single', holderId: participant.id, holderName: participant.name, reason }
+    });
+  }
+
+  // Free the floor if this participant holds it (stopped speaking, lost permission or left)
+  async function releaseFloor(sessionId: string, participantId: string) {
+    const session = await storage.releaseFloor(sessionId, participantId);
+    if (!session) {
+      return;
+    }
+    floorStates.set(sessionId, floorStateOf(session));
+    broadcastToSession(sessionId, {
+      type: 'floor-changed',
+      data: { sessionId, policy: session.floorPolicy, holderId: null, holderName: null, reason: 'released' }
+    });
+  }
+
+  // Recent sequenced events per session, replayed to clients resuming with lastSeq
+  const replayBuffer = new ReplayBuffer<SessionEvent>(Number(process.env.WS_REPLAY_BUFFER_SIZE) || 500);
+
+  function publishSessionEvent(event: SessionEvent) {
+    sessionBus.publish(event).catch((error) => {
+      console.error(`[SessionBus] ❌ Failed to publish ${event.type} for session ${event.sessionId}:`, error);
+    });
+  }
+
+  // Replayable events take the session's next sequence number; publishing is chained per
+  // session so they leave this instance in sequence order
+  const sequencedPublishes = new Map<string, Promise<void>>();
+
+  function publishSequenced(sessionId: string, build: (seq: number) => SessionEvent) {
+    const previous = sequencedPublishes.get(sessionId) || Promise.resolve();
+    const next = previous.then(async () => {
+      const seq = await sessionBus.nextSequence(sessionId);
+      await sessionBus.publish(build(seq));
+    }).catch((error) => {
+      console.error(`[SessionBus] ❌ Failed to publish sequenced event for session ${sessionId}:`, error);
+    });
+    sequencedPublishes.set(sessionId, next);
+    next.then(() => {
+      if (sequencedPublishes.get(sessionId) === next) {
+        sequencedPublishes.delete(sessionId);
+      }
+    });
+  }
+
+  sessionBus.subscribe((event, origin) => {
+    switch (event.type) {
+      case 'broadcast':
+        if (event.message.type === 'session-status') {
+          applySessionStatus(event.sessionId, event.message.data.status);
+        }
+        if (event.message.type === 'floor-changed') {
+          applyFloorChange(event.sessionId, { policy: event.message.data.policy, holderId: event.message.data.holderId });
+        }
+        if (event.message.type === 'participant-role') {
+          const { participantId, role } = event.message.data;
+          connectionIdentities.forEach((identity) => {
+            if (identity.participantId === participantId) {
+              identity.role = parseSessionRole(role);
+            }
+          });
+        }
+        deliverToRoom(event.sessionId, event.message);
+        if (event.message.type === 'session-status' && event.message.data.status === 'ended') {
+          // Nothing more is sent to an ended session
+          replayBuffer.clear(event.sessionId);
+          sessionBus.forgetSession(event.sessionId);
+        }
+        break;
+      case 'translation':
+        replayBuffer.add(event.sessionId, event.seq, event);
+        deliverTranslation(event.sessionId, event.data, event.seq);
+        break;
+      case 'audio': {
+        const recipients = deliverAudio(event.sessionId, event.data);
+        console.log(`[Audio] 📢 Delivered audio-synthesized for ${event.data.language} to ${recipients} local clients`);
+        break;
+      }
+      case 'recognizer-claimed':
+        // Another instance now transcribes this speaker
+        if (origin !== sessionBus.instanceId) {
+          recognizerOwners.get(event.participantId)?.release('superseded', 'Another connection took over this speaker\'s audio; send audio metadata to resume');
+        }
+        break;
+      case 'recognizer-revoked':
+        recognizerOwners.get(event.participantId)?.release(event.code, event.message);
+        break;
+      case 'participant-message':
+        deliverToParticipant(event.participantId, event.message);
+        break;
+      case 'chat':
+        replayBuffer.add(event.sessionId, event.seq, event);
+        sessionRooms.get(event.sessionId)?.clients.forEach(({ subscription }, client) => {
+          sendChatMessage(client, subscription, event.data, event.seq);
+        });
+        break;
+    }
+  });
+
+  // Send to every local connection of one participant; lobby decisions also update the
+  // connection, and rejected or removed participants are disconnected
+  function deliverToParticipant(participantId: string, message: ServerMessage) {
+    connectionIdentities.forEach((identity, client) => {
+      if (identity.participantId !== participantId) {
+        return;
+      }
+      sendToClient(client, message);
+      if (message.type === 'admission') {
+        identity.admission = message.data.admission;
+        if (message.data.admission === 'rejected') {
+          client.close(CLOSE_CODE_REMOVED, 'Rejected by the host');
+        }
+      }
+      if (message.type === 'removed') {
+        client.close(CLOSE_CODE_REMOVED, message.data.banned ? 'Banned by the host' : 'Removed by the host');
+      }
+    });
+  }
+
+  function sendToClient(client: WebSocket, message: ServerMessage) {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify(message));
+    }
+  }
+
+  function broadcastSessionStatus(session: Session) {
+    broadcastToSession(session.id, {
+      type: 'session-status',
+      data: {
+        sessionId: session.id,
+        status: session.status,
+        scheduledStartAt: session.scheduledStartAt ? session.scheduledStartAt.toISOString() : null,
+        changedAt: Date.now(),
+      },
+    });
+  }
+
+  // An expired session ends like POST /end (its transcript is kept); of concurrent callers on
+  // any instance only the one whose transition lands broadcasts it
+  async function endIfExpired(session: Session, now: Date = new Date()): Promise<Session> {
+    if (session.status === 'ended' || now <= session.expiresAt) {
+      return session;
+    }
+    const ended = await storage.transitionSession(session.id, session.status, planTransition(session, 'end', { now: session.expiresAt }));
+    if (!ended) {
+      return await storage.getSession(session.id) || session;
+    }
+    console.log(`[Session] ⌛ ${session.id} expired: ${session.status} → ended`);
+    broadcastSessionStatus(ended);
+    return ended;
+  }
+
+  async function endExpiredSessions() {
+    const now = new Date();
+    for (const session of await storage.getExpiredSessions(now)) {
+      await endIfExpired(session, now);
+    }
+  }
+
+  // Helper function to broadcast to session (on every instance)
+  // Broadcasts are not sequenced or replayed: they change state clients refetch when they resume
+  function broadcastToSession(sessionId: string, message: ServerMessage) {
+    publishSessionEvent({ type: 'broadcast', sessionId, message });
+  }
+
+  function publishTranslation(sessionId: string, data: TranslationData) {
+    publishSequenced(sessionId, seq => ({ type: 'translation', sessionId, data, seq }));
+  }
+
+  function publishChatMessage(sessionId: string, data: ChatMessageData) {
+    publishSequenced(sessionId, seq => ({ type: 'chat', sessionId, data, seq }));
+  }
+
+  // Synthesized speech is not replayed: stale audio would talk over the live speaker
+
+  function publishAudio(sessionId: string, data: AudioSynthesizedData) {
+    publishSessionEvent({ type: 'audio', sessionId, data });
+  }
+
+  // Send to every client of the session connected to this instance
+  function deliverToRoom(sessionId: string, message: ServerMessage) {
+    const room = sessionRooms.get(sessionId);
     if (room) {
       const messageStr = JSON.stringify(message);
-      room.clients.forEach(client => {
+      room.clients.forEach((_member, client) => {
         if (client.readyState === WebSocket.OPEN) {
           client.send(messageStr);
         }
@@ -680,16 +2351,363 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }
 
-  // Handle complete sentences from streaming recognizer
-  async function handleCompleteSentence(data: {
-    text: string;
-    language: string;
-    confidence: number;
+  // Languages are stored as names; subscriptions may name them by code or locale
+  function normalizeSubscription(subscription: LanguageSubscription): LanguageSubscription {
+    return {
+      ...subscription,
+      languages: Array.from(new Set(subscription.languages.map(standardizeLanguageName)))
+    };
+  }
+
+  // Language channels must fit the session's plan; speech only if the plan includes voice output
+  async function applyPlanToSubscription(session: Session, subscription: LanguageSubscription): Promise<LanguageSubscription> {
+    const participants = await storage.getParticipantsBySession(session.id);
+    try {
+      assertLanguagesAllowed(session, getLanguagesInUse(session, participants), subscription.languages);
+    } catch (error) {
+      if (error instanceof PlanLimitError) {
+        throw new ProtocolError('language-limit-exceeded', error.message);
+      }
+      throw error;
+    }
+    return getPlan(session.plan).voiceOutput ? subscription : { ...subscription, audio: false };
+  }
+
+  // Default channel for a connection: its participant's language, with speech if they chose voice output
+  async function getDefaultSubscription(participantId: string): Promise<LanguageSubscription> {
+    const participant = await storage.getParticipant(participantId);
+    if (!participant) {
+      return { languages: [], audio: false };
+    }
+    return normalizeSubscription({
+      languages: [participant.language],
+      audio: participant.preferredOutput === 'voice',
+      voice: participant.preferredVoice || null
+    });
+  }
+
+  function isSubscribedTo(subscription: LanguageSubscription, language: string) {
+    return subscription.languages.some(subscribed => subscribed.toLowerCase() === language.toLowerCase());
+  }
+
+  // Send a client only the translations for its language channels
+  function sendTranslation(client: WebSocket, subscription: LanguageSubscription, data: TranslationData, seq?: number) {
+    const translations = Object.fromEntries(
+      Object.entries(data.translations).filter(([language]) => isSubscribedTo(subscription, language))
+    );
+    const failedLanguages = data.failedLanguages.filter(language => isSubscribedTo(subscription, language));
+    if (Object.keys(translations).length === 0 && failedLanguages.length === 0 && !isSubscribedTo(subscription, data.originalLanguage)) {
+      return;
+    }
+
+    sendToClient(client, {
+      type: 'translation',
+      data: {
+        ...data,
+        translations,
+        hasErrors: failedLanguages.length > 0,
+        errorCount: failedLanguages.length,
+        failedLanguages
+      },
+      seq
+    });
+  }
+
+  // Everyone gets chat messages, with the translations for their language channels
+  function sendChatMessage(client: WebSocket, subscription: LanguageSubscription, data: ChatMessageData, seq?: number) {
+    sendToClient(client, { type: 'chat-message', data: localizeChatMessage(data, language => isSubscribedTo(subscription, language)), seq });
+  }
+
+  function deliverTranslation(sessionId: string, data: TranslationData, seq?: number) {
+    sessionRooms.get(sessionId)?.clients.forEach(({ subscription }, client) => {
+      sendTranslation(client, subscription, data, seq);
+    });
+  }
+
+  // Resend what a reconnecting client missed after lastSeq, filtered by its language channels
+  function replayToClient(client: WebSocket, subscription: LanguageSubscription, sessionId: string, lastSeq: number) {
+    const { entries, complete } = replayBuffer.since(sessionId, lastSeq);
+    for (const { seq, event } of entries) {
+      if (event.type === 'translation') {
+        sendTranslation(client, subscription, event.data, seq);
+      } else if (event.type === 'chat') {
+        sendChatMessage(client, subscription, event.data, seq);
+      }
+    }
+    sendToClient(client, { type: 'resumed', lastSeq, replayed: entries.length, complete });
+    console.log(`[WebSocket] ⏪ Replayed ${entries.length} messages after seq ${lastSeq} for session ${sessionId}${complete ? '' : ' (gap partly evicted)'}`);
+  }
+
+  // Send synthesized speech only to clients listening to that language (and voice)
+  function deliverAudio(sessionId: string, data: AudioSynthesizedData): number {
+    const room = sessionRooms.get(sessionId);
+    if (!room) {
+      return 0;
+    }
+
+    const messageStr = JSON.stringify({ type: 'audio-synthesized', data } satisfies ServerMessage);
+    let recipients = 0;
+    room.clients.forEach(({ subscription }, client) => {
+      if (
+        !subscription.audio ||
+        !isSubscribedTo(subscription, data.language) ||
+        (subscription.voice !== undefined && (subscription.voice ?? null) !== data.voice)
+      ) {
+        return;
+      }
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(messageStr);
+        recipients++;
+      }
+    });
+    return recipients;
+  }
+
+  // Google STT V1 accepts at most 3 alternative language codes per stream
+  const MAX_ALTERNATIVE_LANGUAGES = 3;
+
+  // Candidate recognition languages for a speaker: their own language first,
+  // then their profile language, then the languages the session was created for
+  async function resolveRecognitionLanguages(
+    session: Session,
+    participant: Participant,
+    requestedLanguage?: string
+  ): Promise<{ languageCode: string; alternativeLanguageCodes: string[] }> {
+    const toLocale = (language: string) => language.includes('-') ? language : getLocaleCode(language);
+
+    const candidates = [requestedLanguage, participant.language];
+    if (participant.userId) {
+      const user = await storage.getUserById(participant.userId);
+      candidates.push(user?.preferredLanguage);
+    }
+    candidates.push(...session.languages);
+
+    const locales: string[] = [];
+    for (const candidate of candidates) {
+      if (!candidate) continue;
+      const locale = toLocale(candidate);
+      if (!locales.some(existing => existing.toLowerCase() === locale.toLowerCase())) {
+        locales.push(locale);
+      }
+    }
+
+    const [languageCode = 'en-US', ...alternatives] = locales;
+    return { languageCode, alternativeLanguageCodes: alternatives.slice(0, MAX_ALTERNATIVE_LANGUAGES) };
+  }
+
+  // Session terms plus the host's organization-wide terms
+  async function getSessionGlossary(session: Session): Promise<GlossaryTerm[]> {
+    const [organizationTerms, sessionTerms] = await Promise.all([
+      session.hostUserId ? storage.getGlossaryTerms({ ownerUserId: session.hostUserId }) : Promise.resolve([]),
+      storage.getGlossaryTerms({ sessionId: session.id })
+    ]);
+    return mergeGlossaries(organizationTerms, sessionTerms);
+  }
+
+  // Translate typed text (questions, chat) into every language the session uses, through the
+  // same providers, glossary and translation memory as speech; languages whose providers all
+  // fail keep the original text
+  async function translateForSession(
+    session: Session,
+    participants: Participant[],
+    text: string,
+    sourceLanguage: string,
+    extraLanguages: string[] = []
+  ) {
+    const targetLanguages = new Map<string, string>(); // lowercase -> language name
+    for (const language of [...extraLanguages, ...getLanguagesInUse(session, participants)]) {
+      const name = standardizeLanguageName(language);
+      if (!targetLanguages.has(name.toLowerCase())) {
+        targetLanguages.set(name.toLowerCase(), name);
+      }
+    }
+
+    const glossary = await getSessionGlossary(session);
+    const translations: Record<string, string> = {};
+    const failedLanguages: string[] = [];
+    await Promise.all(Array.from(targetLanguages.values()).map(async (targetLang) => {
+      if (targetLang.toLowerCase() === sourceLanguage.toLowerCase()) {
+        translations[targetLang] = text;
+        return;
+      }
+      try {
+        translations[targetLang] = await translateAudio(text, sourceLanguage, targetLang, {
+          providers: session.translationProviders,
+          glossary,
+          memory: session.hostUserId ? translationMemory.forOwner(session.hostUserId, session.id) : undefined
+        });
+      } catch (err) {
+        // Leave it out of translations; clients show the original for failed languages
+        console.error(`Translation error for ${targetLang}:`, err);
+        failedLanguages.push(targetLang);
+      }
+    }));
+    return { translations, failedLanguages };
+  }
+
+  function toAnnouncementData(announcement: Announcement): AnnouncementData {
+    return {
+      id: announcement.id,
+      sessionId: announcement.sessionId,
+      originalText: announcement.originalText,
+      originalLanguage: announcement.originalLanguage,
+      translations: announcement.translations,
+      failedLanguages: announcement.failedLanguages,
+      createdBy: announcement.createdBy,
+      createdAt: announcement.createdAt.toISOString(),
+    };
+  }
+
+  async function addAnnouncementLanguage(session: Session, announcement: Announcement, language: string): Promise<Announcement> {
+    const wanted = language.toLowerCase();
+    if (wanted === announcement.originalLanguage.toLowerCase()
+      || Object.keys(announcement.translations).some(translated => translated.toLowerCase() === wanted)) {
+      return announcement;
+    }
+    try {
+      const translated = await translateAudio(announcement.originalText, announcement.originalLanguage, language, {
+        providers: session.translationProviders,
+        glossary: await getSessionGlossary(session),
+        memory: session.hostUserId ? translationMemory.forOwner(session.hostUserId, session.id) : undefined
+      });
+      console.log(`[Announcement] 🌐 Translated announcement ${announcement.id} into ${language}`);
+      return await storage.addAnnouncementTranslation(announcement.id, language, translated) ?? announcement;
+    } catch (error) {
+      // Shown in the original until a later read translates it
+      console.error(`[Announcement] Translation error for ${language}:`, error);
+      return announcement;
+    }
+  }
+
+  // Speak an announcement to the voice-output listeners connected now, in their language and
+  // voice; untranslated languages are not voiced
+  async function voiceAnnouncement(session: Session, participants: Participant[], announcement: AnnouncementData) {
+    if (!getPlan(session.plan).voiceOutput) {
+      return;
+    }
+    const targetLanguages = new Map(Object.keys(announcement.translations)
+      .filter(language => !announcement.failedLanguages.includes(language))
+      .map(language => [language.toLowerCase(), language]));
+    const voiceGroups = groupVoiceListeners(resolveListeners(session.id, participants).channels, targetLanguages);
+    const { getLanguageCode } = await import("./services/translation");
+
+    await Promise.all(Array.from(voiceGroups.values()).map(async ({ language, voice, listeners }) => {
+      const text = announcement.translations[language];
+      try {
+        const { audio, mimeType } = await synthesizeCached(text, getLanguageCode(language), voice);
+        publishAudio(session.id, {
+          language,
+          voice,
+          audioContent: audio.toString('base64'),
+          mimeType,
+          participantId: null,
+          announcementId: announcement.id,
+          speakerName: announcement.createdBy,
+          text,
+          timestamp: Date.now()
+        });
+        console.log(`[Announcement] 📢 Voiced announcement ${announcement.id} in ${language} (${voice || 'default voice'}) for ${listeners} listeners`);
+      } catch (error) {
+        console.error(`[Announcement] Speech synthesis error for ${language} (${voice || 'default voice'}):`, error);
+      }
+    }));
+  }
+
+  // Public questions, and questions that just stopped being public, go to the whole session;
+  // pending and dismissed ones only to moderators and the asker
+  async function announceQuestion(question: Question, previousStatus?: QuestionStatus) {
+    const message: ServerMessage = { type: 'question-updated', data: { sessionId: question.sessionId, question: toQuestionData(question) } };
+    if (isPublicQuestion(question.status) || (previousStatus && isPublicQuestion(previousStatus))) {
+      broadcastToSession(question.sessionId, message);
+      return;
+    }
+    const participants = await storage.getParticipantsBySession(question.sessionId);
+    for (const participant of participants) {
+      if (participant.id === question.participantId || roleCan(participantRole(participant), 'moderate-questions')) {
+        publishSessionEvent({ type: 'participant-message', sessionId: question.sessionId, participantId: participant.id, message });
+      }
+    }
+  }
+
+  // Apply candidate languages and glossary phrase hints before the recognizer (re)starts
+  async function configureRecognizer(
+    stream: SpeakerStreamRecognizer,
+    session: Session,
+    participant: Participant,
+    requestedLanguage?: string
+  ) {
+    const { languageCode, alternativeLanguageCodes } = await resolveRecognitionLanguages(session, participant, requestedLanguage);
+    stream.languageCode = languageCode;
+    stream.alternativeLanguageCodes = alternativeLanguageCodes;
+    stream.phraseHints = getPhraseHints(await getSessionGlossary(session));
+    console.log(`[Audio] 🌐 Recognition languages for ${participant.name}: ${languageCode} (+ ${alternativeLanguageCodes.join(', ') || 'none'}), ${stream.phraseHints.length} phrase hints`);
+  }
+
+  interface ListenerChannel {
     participantId: string;
-    speakerName: string;
-    sessionId: string;
-  }) {
-    console.log(`[Stream] Complete sentence: "${data.text}" (${data.language}, confidence: ${data.confidence.toFixed(2)})`);
+    languages: string[];
+    audio: boolean;
+    voice: string | null;
+  }
+
+  // Who is listening right now: the live subscriptions of sockets on this instance, plus
+  // participants connected to other instances (by their stored language and output preferences)
+  function resolveListeners(sessionId: string, participants: Participant[]): { channels: ListenerChannel[]; local: number } {
+    const channels: ListenerChannel[] = [];
+    const localParticipantIds = new Set<string>();
+
+    sessionRooms.get(sessionId)?.clients.forEach(({ participantId, subscription }) => {
+      localParticipantIds.add(participantId);
+      channels.push({
+        participantId,
+        languages: subscription.languages,
+        audio: subscription.audio,
+        voice: subscription.voice ?? null
+      });
+    });
+    const local = channels.length;
+
+    for (const participant of participants) {
+      if (participant.isActive && participant.admission === 'admitted' && !localParticipantIds.has(participant.id)) {
+        channels.push({
+          participantId: participant.id,
+          languages: [participant.language],
+          audio: participant.preferredOutput === 'voice',
+          voice: participant.preferredVoice || null
+        });
+      }
+    }
+
+    return { channels, local };
+  }
+
+  // Group voice listeners by (language, voice) so each hears the voice they picked; only
+  // languages in targetLanguages (lowercase -> spelling of the translation) are voiced
+  function groupVoiceListeners(channels: ListenerChannel[], targetLanguages: Map<string, string>) {
+    const voiceGroups = new Map<string, { language: string; voice: string | null; listeners: number }>();
+    for (const channel of channels.filter(c => c.audio)) {
+      for (const language of channel.languages) {
+        if (!targetLanguages.has(language.toLowerCase())) {
+          continue;
+        }
+        const groupKey = `${language.toLowerCase()}|${channel.voice || ''}`;
+        const group = voiceGroups.get(groupKey);
+        if (group) {
+          group.listeners++;
+        } else {
+          // Use the same spelling as the translation target so the text lookup matches
+          voiceGroups.set(groupKey, { language: targetLanguages.get(language.toLowerCase())!, voice: channel.voice, listeners: 1 });
+        }
+      }
+    }
+    return voiceGroups;
+  }
+
+  // Handle complete sentences from streaming recognizer
+  async function handleCompleteSentence(data: SentenceEvent) {
+    // The recognizer reports the locale it detected for this sentence; translate from that
+    const sourceLanguage = standardizeLanguageName(data.language);
+    console.log(`[Stream] Complete sentence: "${data.text}" (${data.language} → ${sourceLanguage}, stream: ${data.streamLanguage}, confidence: ${data.confidence.toFixed(2)})`);
 
     try {
       const session = await storage.getSession(data.sessionId);
@@ -697,107 +2715,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
 
-      // Get all participants to determine which languages are actually needed
       const participants = await storage.getParticipantsBySession(data.sessionId);
-      const { generateSpeech } = await import("./services/googlecloud");
+      const glossary = await getSessionGlossary(session);
       const { getLanguageCode } = await import("./services/translation");
 
-      // Determine languages needed by current attendees (cost optimization)
-      const allParticipantLanguages = new Set(participants.map(p => p.language));
-      const voiceParticipants = participants.filter(p => p.preferredOutput === 'voice');
-      const languagesNeedingAudio = new Set(voiceParticipants.map(p => p.language));
+      // Translate and synthesize only for the channels connected listeners are on (cost optimization)
+      const { channels, local } = resolveListeners(data.sessionId, participants);
+      const targetLanguages = new Map<string, string>(); // lowercase -> language name
+      for (const channel of channels) {
+        for (const language of channel.languages) {
+          if (!targetLanguages.has(language.toLowerCase())) {
+            targetLanguages.set(language.toLowerCase(), language);
+          }
+        }
+      }
+
+      // The plan caps how many languages are translated; the earliest channels win
+      const plan = getPlan(session.plan);
+      const overLimit = Array.from(targetLanguages.keys()).slice(plan.maxLanguages);
+      overLimit.forEach(key => targetLanguages.delete(key));
+
+      const voiceGroups = groupVoiceListeners(plan.voiceOutput ? channels : [], targetLanguages);
+
+      // Languages the session was set up for, or that someone picked earlier, but nobody hears now
+      const skippedLanguages = Array.from(new Set([...session.languages.map(standardizeLanguageName), ...participants.map(p => p.language)]))
+        .filter(language => !targetLanguages.has(language.toLowerCase()));
 
-      console.log(`[Audio] Session ${data.sessionId} has ${participants.length} participants`);
-      console.log(`[Audio] ${voiceParticipants.length} participants want voice output:`, voiceParticipants.map(p => `${p.name}(${p.language})`).join(', '));
-      console.log(`[Translation] Cost optimization: translating to ${allParticipantLanguages.size} languages instead of ${session.languages.length} session languages`);
+      console.log(
+        `[FanOut] Sentence from ${data.speakerName} (${sourceLanguage}): ${channels.length} listeners (${local} on this instance)` +
+        ` → translate: ${Array.from(targetLanguages.values()).join(', ') || 'none'}` +
+        ` | synthesize: ${Array.from(voiceGroups.values()).map(g => `${g.language}/${g.voice || 'default'}×${g.listeners}`).join(', ') || 'none'}` +
+        ` | skipped: ${skippedLanguages.join(', ') || 'none'}` +
+        (overLimit.length ? ` | over ${plan.label} plan language limit: ${overLimit.join(', ')}` : '') +
+        (plan.voiceOutput ? '' : ` | no voice output on ${plan.label} plan`)
+      );
 
       const translations: Record<string, string> = {};
+      const failedLanguages: string[] = [];
 
-      // Only translate to languages that current attendees have chosen (cost optimization)
-      const translationPromises = Array.from(allParticipantLanguages).map(async (targetLang) => {
+      const translationPromises = Array.from(targetLanguages.values()).map(async (targetLang) => {
         try {
-          if (targetLang.toLowerCase() === data.language.toLowerCase()) {
+          if (targetLang.toLowerCase() === sourceLanguage.toLowerCase()) {
             translations[targetLang] = data.text;
           } else {
-            translations[targetLang] = await translateAudio(data.text, data.language, targetLang);
+            translations[targetLang] = await translateAudio(data.text, sourceLanguage, targetLang, {
+              providers: session.translationProviders,
+              glossary,
+              memory: session.hostUserId ? translationMemory.forOwner(session.hostUserId, session.id) : undefined
+            });
           }
         } catch (err) {
+          // Every provider failed - flag it; the original text is never sent as a translation
           console.error(`Translation error for ${targetLang}:`, err);
-          translations[targetLang] = data.text;
+          failedLanguages.push(targetLang);
         }
       });
 
-      const translationErrors: string[] = [];
-      await Promise.all(translationPromises.map(p =>
-        p.catch(err => {
-          translationErrors.push(err.message || 'Unknown error');
-        })
-      ));
-
-      // Broadcast text translations
-      broadcastToSession(data.sessionId, {
-        type: 'translation',
-        data: {
-          sessionId: data.sessionId,
-          participantId: data.participantId,
-          speakerName: data.speakerName,
-          originalText: data.text,
-          originalLanguage: data.language,
-          translations,
-          timestamp: Date.now(),
-          hasErrors: translationErrors.length > 0,
-          errorCount: translationErrors.length
-        }
+      await Promise.all(translationPromises);
+
+      // Deliver text translations on each client's language channels
+      publishTranslation(data.sessionId, {
+        sessionId: data.sessionId,
+        participantId: data.participantId,
+        speakerName: data.speakerName,
+        originalText: data.text,
+        originalLanguage: sourceLanguage,
+        translations,
+        timestamp: Date.now(),
+        hasErrors: failedLanguages.length > 0,
+        errorCount: failedLanguages.length,
+        failedLanguages
       });
 
-      // Synthesize speech only for languages that participants with voice output are listening to
-      console.log(`[Audio] Generating audio for languages: ${Array.from(languagesNeedingAudio).join(', ')}`);
-
-      const synthesisPromises = Array.from(languagesNeedingAudio).map(async (language) => {
+      // Synthesize speech only for (language, voice) pairs that connected listeners with voice output are on
+      const synthesisPromises = Array.from(voiceGroups.values()).map(async ({ language, voice, listeners }) => {
         const translatedText = translations[language];
-        if (translatedText && translatedText.trim()) {
+        // Don't voice untranslated text in a listener's language
+        if (translatedText && translatedText.trim() && !failedLanguages.includes(language)) {
           try {
             const languageCode = getLanguageCode(language);
 
-            // Check audio cache first (text + language key)
-            const cacheKey = `${translatedText}|${languageCode}`;
-            let base64Audio = audioCache.get(cacheKey);
-
-            if (!base64Audio) {
-              // Cache miss - generate audio
-              console.log(`[Audio] Cache MISS for: "${translatedText.substring(0, 50)}..." (${language})`);
-              const audioBuffer = await generateSpeech(translatedText, languageCode);
-              base64Audio = audioBuffer.toString('base64');
-
-              // Store in cache (with size limit of 500 entries = ~500MB max)
-              if (audioCache.size < 500) {
-                audioCache.set(cacheKey, base64Audio);
-              }
-            } else {
-              console.log(`[Audio] Cache HIT for: "${translatedText.substring(0, 50)}..." (${language})`);
-            }
+            const { audio, mimeType } = await synthesizeCached(translatedText, languageCode, voice);
+
+            console.log(`[Audio] Broadcasting audio for ${language} (${voice || 'default voice'}) to ${listeners} participants`);
+
+            // Deliver synthesized audio only on this language's channel
+            publishAudio(data.sessionId, {
+              language,
+              voice,
+              audioContent: audio.toString('base64'),
+              mimeType,
+              participantId: data.participantId,
+              announcementId: null,
+              speakerName: data.speakerName,
+              text: translatedText,
+              timestamp: Date.now()
+            });
 
-            // Get all participants for this language to determine if we should broadcast
-            const participantsForLanguage = voiceParticipants.filter(p => p.language === language);
-            console.log(`[Audio] Broadcasting audio for ${language} to ${participantsForLanguage.length} participants`);
-
-            // Broadcast synthesized audio to all clients
-            const audioMessage = {
-              type: 'audio-synthesized',
-              data: {
-                language,
-                audioContent: base64Audio,
-                participantId: data.participantId,
-                speakerName: data.speakerName,
-                text: translatedText,
-                timestamp: Date.now()
-              }
-            };
-
-            console.log(`[Audio] 📢 Broadcasting audio-synthesized for ${language}: ${audioMessage.data.text.substring(0, 40)}...`);
-            broadcastToSession(data.sessionId, audioMessage);
+            console.log(`[Audio] 📢 Published audio-synthesized for ${language}: ${translatedText.substring(0, 40)}...`);
           } catch (synthError) {
-            console.error(`[Audio] Speech synthesis error for ${language}:`, synthError);
+            console.error(`[Audio] Speech synthesis error for ${language} (${voice || 'default voice'}):`, synthError);
           }
         }
       });
@@ -805,19 +2822,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Wait for all synthesis to complete
       await Promise.all(synthesisPromises);
 
-      // Store translations in database (only for languages that current attendees need)
-      const storagePromises = Object.entries(translations).map(([targetLang, translatedText]) =>
-        storage.createTranslation({
-          sessionId: data.sessionId,
-          participantId: data.participantId,
-          originalText: data.text,
-          originalLanguage: data.language,
-          targetLanguage: targetLang,
-          translatedText,
-          confidence: Math.round(data.confidence * 100),
-          timestamp: new Date()
-        })
-      );
+      // Store translations in database (only for languages that current attendees need and that succeeded)
+      const storagePromises = Object.entries(translations)
+        .filter(([targetLang]) => !failedLanguages.includes(targetLang))
+        .map(([targetLang, translatedText]) =>
+          storage.createTranslation({
+            sessionId: data.sessionId,
+            participantId: data.participantId,
+            originalText: data.text,
+            originalLanguage: sourceLanguage,
+            targetLanguage: targetLang,
+            translatedText,
+            confidence: Math.round(data.confidence * 100),
+            timestamp: new Date()
+          })
+        );
 
       await Promise.all(storagePromises);
     } catch (error) {
@@ -825,322 +2844,541 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }
 
-  // WebSocket message validation helper
-  async function validateWebSocketMessage(message: any, currentSessionId: string | null, participantId: string | null) {
-    // Validate message structure
-    if (!message || typeof message !== 'object') {
-      throw new Error('Invalid message format');
-    }
-
-    // Validate session exists and is active
-    if (currentSessionId) {
-      const session = await storage.getSession(currentSessionId);
-      if (!session) {
-        throw new Error('Session not found or expired');
-      }
+  // Presence: a participant is active while at least one of their sockets has joined the session
+  // room (admitted participants only).
+  // Sockets are pinged every interval and dropped if they missed the previous ping.
+  const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+  const PRESENCE_TIMEOUT_MS = 3 * HEARTBEAT_INTERVAL_MS; // Covers instances that died without cleaning up
+  const localConnections = new Map<string, number>(); // participantId -> open sockets on this instance
+  const aliveSockets = new WeakSet<WebSocket>(); // Answered the last ping
+  const presenceUpdates = new Map<string, Promise<void>>();
+
+  function announcePresence(participant: Participant) {
+    console.log(`[Presence] ${participant.isActive ? '🟢' : '⚪'} ${participant.name} ${participant.isActive ? 'connected to' : 'left'} session ${participant.sessionId}`);
+    if (participant.isActive) {
+      broadcastToSession(participant.sessionId, {
+        type: 'participant-joined',
+        data: {
+          sessionId: participant.sessionId,
+          participantId: participant.id,
+          name: participant.name,
+          role: participant.role,
+          language: participant.language
+        }
+      });
+    } else {
+      broadcastToSession(participant.sessionId, {
+        type: 'participant-left',
+        data: { sessionId: participant.sessionId, participantId: participant.id, name: participant.name }
+      });
     }
+  }
 
-    // For audio messages, validate participant exists and has permission
-    if (message.type === 'audio-chunk' && currentSessionId && participantId) {
-      const participant = await storage.getParticipant(participantId);
-      if (!participant) {
-        throw new Error('Participant not found');
+  // Write this instance's view of a participant's presence; updates are chained per participant
+  // so a quick connect/disconnect lands in order. If another instance still holds a socket for
+  // them, its next heartbeat marks them active again.
+  function syncPresence(participantId: string) {
+    const previous = presenceUpdates.get(participantId) || Promise.resolve();
+    const next = previous.then(async () => {
+      const changed = await storage.setParticipantPresence(participantId, localConnections.has(participantId));
+      if (changed) {
+        announcePresence(changed);
       }
-      if (participant.sessionId !== currentSessionId) {
-        throw new Error('Participant does not belong to this session');
+    }).catch((error) => {
+      console.error(`[Presence] ❌ Failed to update presence for ${participantId}:`, error);
+    });
+    presenceUpdates.set(participantId, next);
+    next.then(() => {
+      if (presenceUpdates.get(participantId) === next) {
+        presenceUpdates.delete(participantId);
       }
-      if (!participant.isSpeaking) {
-        throw new Error('Participant does not have speaking permission');
+    });
+  }
+
+  const heartbeat = setInterval(async () => {
+    wss.clients.forEach((client) => {
+      if (!aliveSockets.has(client)) {
+        console.log('[WebSocket] 💀 Terminating unresponsive client');
+        client.terminate();
+        return;
       }
-    }
+      aliveSockets.delete(client);
+      client.ping();
+    });
 
-    return true;
-  }
+    try {
+      const reactivated = await storage.touchParticipants(Array.from(localConnections.keys()));
+      reactivated.forEach(announcePresence);
+      const expired = await storage.expireStaleParticipants(new Date(Date.now() - PRESENCE_TIMEOUT_MS));
+      expired.forEach(announcePresence);
+    } catch (error) {
+      console.error('[Presence] ❌ Heartbeat update failed:', error);
+    }
 
-  wss.on('connection', (ws: WebSocket) => {
-    console.log('[WebSocket] 🔌 New client connected');
+    try {
+      await endExpiredSessions();
+    } catch (error) {
+      console.error('[Session] ❌ Failed to end expired sessions:', error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+  wss.on('close', () => clearInterval(heartbeat));
+
+  wss.on('connection', (ws: WebSocket, _req: Request, identity: ConnectionIdentity) => {
+    console.log(`[WebSocket] 🔌 New client connected as participant ${identity.participantId}`);
+    aliveSockets.add(ws);
+    ws.on('pong', () => aliveSockets.add(ws));
+    connectionIdentities.set(ws, identity);
+
+    // Lobby connections don't count: a participant is present once admitted into the room
+    let present = false;
+    const markPresent = () => {
+      if (present) return;
+      present = true;
+      localConnections.set(identity.participantId, (localConnections.get(identity.participantId) || 0) + 1);
+      syncPresence(identity.participantId);
+    };
+
+    let protocolVersion: number | null = null;
     let currentSessionId: string | null = null;
     let currentParticipantId: string | null = null;
     let currentSpeakerName: string | null = null;
     let audioChunkCount = 0;
+    let notLiveReported = false; // Frames sent while the session is not live are reported once
+    let floorHeldReported = false; // Likewise for frames held because another speaker has the floor
+    let noSpeakerReported = false; // And for frames sent before audio metadata set up the speaker
+    let speakerPending = false; // Audio metadata is being authorized
+    let speakingUntil: number | null = null; // End of the current speaker's time-limited turn
     const audioChunkTimestamp: Record<string, number> = {};
 
-    ws.on('message', async (data: Buffer) => {
+    const sendError = (code: ProtocolErrorCode, message: string, requestType?: string) => {
+      console.error(`[WebSocket] ❌ ${code}: ${message}`);
+      sendToClient(ws, { type: 'error', code, message, requestType });
+    };
+
+    // Speakers must belong to the joined session and hold speaking permission (host bypass)
+    const authorizeSpeaker = async (participantId: string) => {
+      speakerPending = true;
       try {
-        // Message size validation (max 10MB)
-        if (data.length > 10 * 1024 * 1024) {
-          console.error('[WebSocket] ❌ Message too large:', data.length);
+        return await checkSpeaker(participantId);
+      } finally {
+        speakerPending = false;
+      }
+    };
+
+    const checkSpeaker = async (participantId: string) => {
+      if (!currentSessionId) {
+        throw new ProtocolError('not-in-session', 'Join a session before sending audio');
+      }
+      if (participantId !== identity.participantId) {
+        throw new ProtocolError('forbidden', 'Connections may only send audio as their own participant');
+      }
+
+      const participant = await storage.getParticipant(participantId);
+      if (!participant) {
+        throw new ProtocolError('participant-not-found', `Participant not found: ${participantId}`);
+      }
+      if (participant.sessionId !== currentSessionId) {
+        throw new ProtocolError('participant-session-mismatch', 'Participant does not belong to this session');
+      }
+      if (!participant.isSpeaking && participant.role !== 'host') {
+        throw new ProtocolError('not-speaking', 'Participant does not have speaking permission');
+      }
+      if (participant.isMuted) {
+        throw new ProtocolError('muted', 'A moderator muted you');
+      }
+      if (participant.speakingUntil && participant.speakingUntil.getTime() <= Date.now()) {
+        throw new ProtocolError('speaking-time-expired', 'Your speaking time is up');
+      }
+
+      const stored = await storage.getSession(currentSessionId);
+      if (!stored) {
+        throw new ProtocolError('session-not-found', `Session not found: ${currentSessionId}`);
+      }
+      const session = await endIfExpired(stored);
+      sessionLiveness.set(session.id, session.status);
+      floorStates.set(session.id, floorStateOf(session));
+      if (!acceptsAudio(session.status)) {
+        throw new ProtocolError('session-not-live', `Session is ${session.status}; audio is only accepted while live`);
+      }
+      notLiveReported = false;
+
+      // Auto-mark host as speaking so subsequent checks pass
+      if (participant.role === 'host' && !participant.isSpeaking) {
+        await storage.updateParticipant(participantId, { isSpeaking: true });
+      }
+      return { participant, session, sessionId: currentSessionId };
+    };
+
+    // Stop transcribing when another connection (here or on another instance) takes over this
+    // speaker, or when the session stops being live
+    const releaseRecognizer = (code: ProtocolErrorCode, message: string) => {
+      if (!currentParticipantId || !currentSessionId) {
+        return;
+      }
+      console.log(`[WebSocket] 🔀 Releasing recognizer for ${currentParticipantId} (${code})`);
+      streamingManager.stopStream(currentParticipantId, currentSessionId);
+      if (recognizerOwners.get(currentParticipantId) === recognizerOwner) {
+        recognizerOwners.delete(currentParticipantId);
+      }
+      currentParticipantId = null;
+      currentSpeakerName = null;
+      speakingUntil = null;
+      noSpeakerReported = true; // The error below already tells the speaker why their audio stopped
+      if (code === 'session-not-live') {
+        notLiveReported = true;
+      }
+      if (code === 'floor-taken') {
+        floorHeldReported = true;
+      }
+      sendError(code, message);
+    };
+    let recognizerOwner: RecognizerOwner | null = null;
+
+    // Each speaker is transcribed by exactly one connection across all instances
+    const claimRecognizer = (participantId: string, sessionId: string) => {
+      const previousOwner = recognizerOwners.get(participantId);
+      if (currentParticipantId === participantId && recognizerOwner && previousOwner === recognizerOwner) {
+        return;
+      }
+      if (previousOwner && previousOwner !== recognizerOwner) {
+        previousOwner.release('superseded', 'Another connection took over this speaker\'s audio; send audio metadata to resume');
+      }
+      recognizerOwner = { sessionId, release: releaseRecognizer };
+      recognizerOwners.set(participantId, recognizerOwner);
+      publishSessionEvent({ type: 'recognizer-claimed', sessionId, participantId });
+    };
+
+    const attachStreamListeners = (stream: SpeakerStreamRecognizer, sessionId: string, speakerName: string) => {
+      if (stream.listenerCount('sentence') > 0) {
+        return;
+      }
+      console.log(`[WebSocket] 🔗 Setting up listeners for ${speakerName}`);
+      stream.on('sentence', handleCompleteSentence);
+      stream.on('interim', (interimData: InterimTranscriptData) => {
+        // Broadcast interim transcripts for live feedback
+        broadcastToSession(sessionId, { type: 'interim-transcript', data: interimData });
+      });
+      stream.on('error', (error: Error) => {
+        console.error(`[Stream] ❌ Error for ${speakerName}:`, error);
+      });
+    };
+
+    const handleControlMessage = async (message: ClientMessage) => {
+      if (message.type !== 'audio-chunk-metadata') {
+        console.log(`[WebSocket] 📨 Received message type: ${message.type}`);
+      }
+
+      if (message.type === 'hello') {
+        if (!SUPPORTED_PROTOCOL_VERSIONS.includes(message.protocolVersion)) {
+          sendError('unsupported-version', `Protocol version ${message.protocolVersion} is not supported (server speaks ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`, message.type);
+          ws.close(1002, 'Unsupported protocol version');
           return;
         }
+        protocolVersion = message.protocolVersion;
+        sendToClient(ws, { type: 'welcome', protocolVersion });
+        return;
+      }
 
-        // Try to parse as JSON (control messages)
-        let message: any = null;
-        let isJsonMessage = false;
-        try {
-          message = JSON.parse(data.toString());
-          isJsonMessage = true;
-        } catch (parseError) {
-          // Not JSON - treat as binary audio data
-          isJsonMessage = false;
+      if (protocolVersion === null) {
+        throw new ProtocolError('handshake-required', 'Send a hello message with the protocol version first');
+      }
+
+      switch (message.type) {
+        case 'join-session': {
+          if (message.sessionId !== identity.sessionId) {
+            throw new ProtocolError('forbidden', 'Connection is not authorized for this session');
+          }
+          if (identity.admission !== 'admitted') {
+            throw new ProtocolError('not-admitted', 'Waiting for the host to admit you');
+          }
+
+          // Validate session exists
+          const session = await storage.getSession(message.sessionId);
+          if (!session) {
+            throw new ProtocolError('session-not-found', `Session not found or expired: ${message.sessionId}`);
+          }
+
+          // Resolve language channels before touching room state
+          const subscription = await applyPlanToSubscription(session, message.subscription
+            ? normalizeSubscription(message.subscription)
+            : await getDefaultSubscription(identity.participantId));
+
+          // Leave the previous room when switching sessions
+          if (currentSessionId && currentSessionId !== session.id) {
+            sessionRooms.get(currentSessionId)?.clients.delete(ws);
+          }
+
+          currentSessionId = session.id;
+          currentParticipantId = null;
+          currentSpeakerName = null;
+          audioChunkCount = 0;
+
+          console.log(`[WebSocket] ✅ Client joined session: ${currentSessionId}`);
+
+          if (!sessionRooms.has(currentSessionId)) {
+            sessionRooms.set(currentSessionId, {
+              sessionId: currentSessionId,
+              clients: new Map()
+            });
+            console.log(`[WebSocket] 🆕 Created new session room: ${currentSessionId}`);
+          }
+
+          sessionRooms.get(currentSessionId)?.clients.set(ws, { participantId: identity.participantId, subscription });
+          console.log(`[WebSocket] Room ${currentSessionId} now has ${sessionRooms.get(currentSessionId)?.clients.size} clients`);
+          markPresent();
+          sendToClient(ws, { type: 'session-joined', sessionId: currentSessionId });
+          sendToClient(ws, { type: 'subscribed', ...subscription });
+          if (message.lastSeq !== undefined) {
+            replayToClient(ws, subscription, currentSessionId, message.lastSeq);
+          }
+          break;
         }
 
-        if (isJsonMessage) {
-          // Handle JSON control messages
-          if (message.type !== 'audio-chunk-metadata') {
-            console.log(`[WebSocket] 📨 Received message type: ${message.type}`);
+        case 'subscribe': {
+          const room = currentSessionId ? sessionRooms.get(currentSessionId) : undefined;
+          if (!room?.clients.has(ws)) {
+            throw new ProtocolError('not-in-session', 'Join a session before subscribing to languages');
           }
 
-          switch (message.type) {
-            case 'join-session':
-              const sessionId = message.sessionId;
-              if (!sessionId || typeof sessionId !== 'string') {
-                console.error('[WebSocket] ❌ join-session missing or invalid sessionId');
-                return;
-              }
-
-              // Validate session exists
-              const session = await storage.getSession(sessionId);
-              if (!session) {
-                console.error('[WebSocket] ❌ Session not found or expired:', sessionId);
-                return;
-              }
-
-              currentSessionId = sessionId;
-              currentParticipantId = null;
-              currentSpeakerName = null;
-              audioChunkCount = 0;
-
-              console.log(`[WebSocket] ✅ Client joined session: ${currentSessionId}`);
-
-              if (!sessionRooms.has(currentSessionId)) {
-                sessionRooms.set(currentSessionId, {
-                  sessionId: currentSessionId,
-                  clients: new Set()
-                });
-                console.log(`[WebSocket] 🆕 Created new session room: ${currentSessionId}`);
-              }
-
-              sessionRooms.get(currentSessionId)?.clients.add(ws);
-              console.log(`[WebSocket] Room ${currentSessionId} now has ${sessionRooms.get(currentSessionId)?.clients.size} clients`);
-              break;
-
-            case 'audio_metadata':
-              try {
-                // Validate structure
-                if (!message.participantId || !message.sampleRate) {
-                  console.error('[WebSocket] ❌ audio_metadata missing required fields');
-                  return;
-                }
-
-                const participantId = message.participantId;
-                const targetLanguage = message.targetLanguage || 'en-US';
-                const sampleRate = message.sampleRate;
-
-                console.log(`[Audio] 📋 Metadata for ${participantId}: ${sampleRate}Hz, lang: ${targetLanguage}`);
-
-                // Validate participant
-                const participant = await storage.getParticipant(participantId);
-                if (!participant) {
-                  console.error('[WebSocket] ❌ Participant not found:', participantId);
-                  return;
-                }
-
-                if (!currentSessionId || participant.sessionId !== currentSessionId) {
-                  console.error('[WebSocket] ❌ Participant session mismatch');
-                  return;
-                }
-
-                // Allow host even if isSpeaking=false; others must have permission
-                if (!participant.isSpeaking && participant.role !== 'host') {
-                  console.error('[WebSocket] ❌ Participant not speaking:', participantId);
-                  return;
-                }
-
-                // Auto-mark host as speaking so subsequent checks pass
-                if (participant.role === 'host' && !participant.isSpeaking) {
-                  await storage.updateParticipant(participantId, { isSpeaking: true });
-                }
-
-                // Set context
-                currentParticipantId = participantId;
-                currentSpeakerName = participant.name;
-
-                console.log(`[WebSocket] 🎙️ Audio metadata set for participant: ${currentSpeakerName} (${participantId})`);
-
-                // Get or create stream with ACTUAL sample rate
-                const stream = streamingManager.getOrCreateStream(
-                  participantId,
-                  currentSpeakerName,
-                  currentSessionId
-                );
-
-                // Update stream sample rate (need to modify SpeakerStreamRecognizer)
-                (stream as any).sampleRate = sampleRate;
-                (stream as any).languageCode = targetLanguage;
-
-                // Set up event listeners on first use
-                if (stream.listenerCount('sentence') === 0) {
-                  console.log(`[WebSocket] 🔗 Setting up listeners for ${currentSpeakerName}`);
-                  stream.on('sentence', handleCompleteSentence);
-                  stream.on('interim', (interimData: any) => {
-                    broadcastToSession(currentSessionId!, {
-                      type: 'interim-transcript',
-                      data: interimData
-                    });
-                  });
-                  stream.on('error', (error: Error) => {
-                    console.error(`[Stream] ❌ Error for ${currentSpeakerName}:`, error);
-                  });
-                }
-
-                // Restart stream with new config
-                stream.stop();
-                stream.start();
-
-              } catch (error) {
-                console.error('[Audio] ❌ Error processing audio_metadata:', error);
-              }
-              break;
-
-            case 'audio-chunk-metadata':
-              // New control message for binary audio protocol
-              if (!currentSessionId) {
-                console.error('[WebSocket] ❌ Audio metadata received without valid session');
-                return;
-              }
-
-              try {
-                // Validate message structure
-                if (!message.data || typeof message.data.participantId !== 'string') {
-                  console.error('[WebSocket] ❌ Invalid audio-chunk-metadata structure');
-                  return;
-                }
-
-                const participantId = message.data.participantId;
-                const speakerName = message.data.speakerName || 'Unknown Speaker';
-
-                // Validate participant exists
-                const participant = await storage.getParticipant(participantId);
-                if (!participant) {
-                  console.error('[WebSocket] ❌ Participant not found:', participantId);
-                  return;
-                }
-
-                // Validate participant belongs to session
-                if (participant.sessionId !== currentSessionId) {
-                  console.error('[WebSocket] ❌ Participant does not belong to session:', participantId);
-                  return;
-                }
-
-                // Validate participant has speaking permission (host bypass)
-                if (!participant.isSpeaking && participant.role !== 'host') {
-                  console.error('[WebSocket] ❌ Participant does not have speaking permission:', participantId);
-                  return;
-                }
-
-                // Auto-mark host as speaking
-                if (participant.role === 'host' && !participant.isSpeaking) {
-                  await storage.updateParticipant(participantId, { isSpeaking: true });
-                }
-
-                // Set current participant context for upcoming binary audio frames
-                currentParticipantId = participantId;
-                currentSpeakerName = speakerName;
-
-                console.log(`[WebSocket] 🎙️ Audio metadata set for participant: ${speakerName} (${participantId})`);
-
-                // Get or create streaming recognizer for this participant
-                const stream = streamingManager.getOrCreateStream(
-                  participantId,
-                  speakerName,
-                  currentSessionId
-                );
-
-                // Set up event listeners on first use
-                if (stream.listenerCount('sentence') === 0) {
-                  console.log(`[WebSocket] 🔗 Setting up event listeners for ${speakerName}`);
-                  stream.on('sentence', handleCompleteSentence);
-                  stream.on('interim', (interimData: any) => {
-                    // Broadcast interim transcripts for live feedback
-                    broadcastToSession(currentSessionId!, {
-                      type: 'interim-transcript',
-                      data: interimData
-                    });
-                  });
-                  stream.on('error', (error: Error) => {
-                    console.error(`[Stream] ❌ Error for ${speakerName}:`, error);
-                  });
-                }
-              } catch (error) {
-                console.error('[Audio] ❌ Error processing metadata:', error);
-              }
-              break;
-
-            case 'speaker-status':
-              if (!currentSessionId || !message.data?.participantId) {
-                console.error('[WebSocket] ❌ speaker-status missing session or participant info');
-                return;
-              }
-              broadcastToSession(currentSessionId, message);
-              break;
-
-            case 'hand-raise':
-              if (!currentSessionId || !message.data?.participantId) {
-                console.error('[WebSocket] ❌ hand-raise missing session or participant info');
-                return;
-              }
-              broadcastToSession(currentSessionId, message);
-              break;
-
-            case 'speak-permission':
-              if (!currentSessionId || !message.data?.participantId) {
-                console.error('[WebSocket] ❌ speak-permission missing session or participant info');
-                return;
-              }
-              broadcastToSession(currentSessionId, message);
-              break;
-
-            default:
-              console.log('[WebSocket] ⚠️ Unknown message type:', message.type);
+          const session = await storage.getSession(room.sessionId);
+          if (!session) {
+            throw new ProtocolError('session-not-found', `Session not found or expired: ${room.sessionId}`);
           }
-        } else {
-          // Handle binary audio frames
-          if (!currentSessionId || !currentParticipantId) {
-            console.error('[WebSocket] ❌ Binary audio received without valid session or participant');
-            return;
+
+          const { type: _type, ...requested } = message;
+          const subscription = await applyPlanToSubscription(session, normalizeSubscription(requested));
+          if (!room.clients.has(ws)) {
+            break; // Disconnected or switched sessions meanwhile
           }
+          room.clients.set(ws, { participantId: identity.participantId, subscription });
+          console.log(`[WebSocket] 🔔 Participant ${identity.participantId} subscribed to ${subscription.languages.join(', ')}${subscription.audio ? ' (with audio)' : ''}`);
+          sendToClient(ws, { type: 'subscribed', ...subscription });
+          break;
+        }
 
-          try {
-            // Rate limiting: max 100 chunks per second per participant
-            const now = Date.now();
-            const lastChunkTime = audioChunkTimestamp[currentParticipantId] || 0;
-            if (now - lastChunkTime < 10) {
-              console.warn('[WebSocket] ⚠️ Audio chunk rate limit exceeded for:', currentParticipantId);
-              return;
+        case 'audio_metadata': {
+          const { participantId, sampleRate } = message;
+          const targetLanguage = message.targetLanguage || 'en-US';
+          console.log(`[Audio] 📋 Metadata for ${participantId}: ${sampleRate}Hz, lang: ${targetLanguage}`);
+
+          const { participant, session: speakerSession, sessionId } = await authorizeSpeaker(participantId);
+          // Starting to speak takes a single floor, even from another speaker
+          await takeFloor(speakerSession, participant, 'voice');
+          floorHeldReported = false;
+          claimRecognizer(participantId, sessionId);
+
+          // Set context
+          currentParticipantId = participantId;
+          currentSpeakerName = participant.name;
+          speakingUntil = participant.speakingUntil?.getTime() ?? null;
+          noSpeakerReported = false;
+
+          console.log(`[WebSocket] 🎙️ Audio metadata set for participant: ${currentSpeakerName} (${participantId})`);
+
+          // Get or create stream with ACTUAL sample rate
+          const stream = streamingManager.getOrCreateStream(participantId, participant.name, sessionId);
+
+          // Update stream sample rate, candidate languages and phrase hints
+          const session = await storage.getSession(sessionId);
+          if (session) {
+            await configureRecognizer(stream, session, participant, targetLanguage);
+          }
+          stream.sampleRate = sampleRate;
+
+          attachStreamListeners(stream, sessionId, participant.name);
+
+          // Restart stream with new config
+          stream.stop();
+          stream.start();
+          break;
+        }
+
+        case 'audio-chunk-metadata': {
+          const { participantId } = message.data;
+          const speakerName = message.data.speakerName || 'Unknown Speaker';
+
+          const { participant, session: speakerSession, sessionId } = await authorizeSpeaker(participantId);
+          // Speaking into a free floor takes it; a floor held by someone else holds this audio
+          if (!mayTransmit(floorStates.get(sessionId), participantId)) {
+            if (!floorHeldReported) {
+              floorHeldReported = true;
+              throw new ProtocolError('floor-held', 'Another speaker holds the floor; your audio is held');
+            }
+            break;
+          }
+          await takeFloor(speakerSession, participant, 'voice');
+          floorHeldReported = false;
+          claimRecognizer(participantId, sessionId);
+
+          // Set current participant context for upcoming binary audio frames
+          currentParticipantId = participantId;
+          currentSpeakerName = speakerName;
+          speakingUntil = participant.speakingUntil?.getTime() ?? null;
+          noSpeakerReported = false;
+
+          // Get or create streaming recognizer for this participant
+          const stream = streamingManager.getOrCreateStream(participantId, speakerName, sessionId);
+
+          // Configure candidate languages and phrase hints before the stream first starts
+          if (stream.listenerCount('sentence') === 0) {
+            console.log(`[WebSocket] 🎙️ Audio metadata set for participant: ${speakerName} (${participantId})`);
+            const session = await storage.getSession(sessionId);
+            if (session) {
+              await configureRecognizer(stream, session, participant);
             }
-            audioChunkTimestamp[currentParticipantId] = now;
-
-            // Get the streaming recognizer for this participant
-            const stream = streamingManager.getOrCreateStream(
-              currentParticipantId,
-              currentSpeakerName || 'Unknown Speaker',
-              currentSessionId
-            );
-
-            // Write binary audio chunk directly to stream
-            stream.writeAudioChunk(data);
-            audioChunkCount++;
-
-            // Log every 50 chunks
-            if (audioChunkCount % 50 === 0) {
-              console.log(`[WebSocket] 📊 ${currentSpeakerName}: ${audioChunkCount} binary chunks received`);
+          }
+
+          attachStreamListeners(stream, sessionId, speakerName);
+          break;
+        }
+
+        case 'speaker-status': {
+          if (!currentSessionId) {
+            throw new ProtocolError('not-in-session', `Join a session before sending ${message.type}`);
+          }
+          if (message.data.participantId !== identity.participantId) {
+            throw new ProtocolError('forbidden', `Connections may only send ${message.type} for their own participant`);
+          }
+          const participant = await storage.getParticipant(identity.participantId);
+          if (!participant) {
+            throw new ProtocolError('participant-not-found', `Participant not found: ${identity.participantId}`);
+          }
+          if (message.data.isActive && participant.isMuted) {
+            throw new ProtocolError('muted', 'A moderator muted you');
+          }
+          // Mute state comes from the server, not the client
+          broadcastToSession(currentSessionId, {
+            type: 'speaker-status',
+            data: {
+              sessionId: currentSessionId,
+              participantId: participant.id,
+              speakerName: participant.name,
+              isActive: message.data.isActive,
+              isMuted: participant.isMuted
             }
-          } catch (error) {
-            console.error('[Audio] ❌ Error processing binary audio:', error);
+          });
+          // Turning the microphone off gives up the floor
+          if (!message.data.isActive) {
+            await releaseFloor(currentSessionId, identity.participantId);
           }
+          break;
+        }
+
+        case 'hand-raise':
+          if (!currentSessionId) {
+            throw new ProtocolError('not-in-session', `Join a session before sending ${message.type}`);
+          }
+          if (message.data.participantId !== identity.participantId) {
+            throw new ProtocolError('forbidden', `Connections may only send ${message.type} for their own participant`);
+          }
+          broadcastToSession(currentSessionId, {
+            type: 'hand-raise',
+            data: {
+              sessionId: currentSessionId,
+              participantId: identity.participantId,
+              participantName: message.data.participantName,
+              handRaised: message.data.handRaised
+            }
+          });
+          break;
+      }
+    };
+
+    const handleAudioFrame = (data: Buffer) => {
+      if (protocolVersion === null) {
+        throw new ProtocolError('handshake-required', 'Send a hello message with the protocol version first');
+      }
+      const status = currentSessionId ? sessionLiveness.get(currentSessionId) : undefined;
+      if (status && !acceptsAudio(status)) {
+        if (!notLiveReported) {
+          notLiveReported = true;
+          throw new ProtocolError('session-not-live', `Session is ${status}; audio is only accepted while live`);
+        }
+        return;
+      }
+      if (!currentSessionId || !currentParticipantId) {
+        if (floorHeldReported || noSpeakerReported) {
+          return; // Lost the floor (audio metadata takes it back), or already reported
+        }
+        noSpeakerReported = true;
+        throw new ProtocolError('not-in-session', speakerPending
+          ? 'Binary audio received while audio metadata is being authorized; it is dropped'
+          : 'Binary audio received without a session and speaker; send audio metadata first');
+      }
+      if (!mayTransmit(floorStates.get(currentSessionId), currentParticipantId)) {
+        if (!floorHeldReported) {
+          floorHeldReported = true;
+          throw new ProtocolError('floor-held', 'Another speaker holds the floor; your audio is held');
+        }
+        return;
+      }
+
+      // The turn timer may run on another instance (or not at all after a restart)
+      const now = Date.now();
+      if (speakingUntil !== null && now >= speakingUntil) {
+        releaseRecognizer('speaking-time-expired', 'Your speaking time is up');
+        return;
+      }
+
+      // Rate limiting: max 100 chunks per second per participant
+      const lastChunkTime = audioChunkTimestamp[currentParticipantId] || 0;
+      if (now - lastChunkTime < 10) {
+        console.warn('[WebSocket] ⚠️ Audio chunk rate limit exceeded for:', currentParticipantId);
+        return;
+      }
+      audioChunkTimestamp[currentParticipantId] = now;
+
+      // Get the streaming recognizer for this participant
+      const stream = streamingManager.getOrCreateStream(
+        currentParticipantId,
+        currentSpeakerName || 'Unknown Speaker',
+        currentSessionId
+      );
+
+      // Write binary audio chunk directly to stream
+      stream.writeAudioChunk(data);
+      audioChunkCount++;
+
+      // Log every 50 chunks
+      if (audioChunkCount % 50 === 0) {
+        console.log(`[WebSocket] 📊 ${currentSpeakerName}: ${audioChunkCount} binary chunks received`);
+      }
+    };
+
+    ws.on('message', async (data: Buffer, isBinary: boolean) => {
+      let requestType: string | undefined;
+      try {
+        // Message size validation (max 10MB)
+        if (data.length > 10 * 1024 * 1024) {
+          throw new ProtocolError('message-too-large', `Message too large: ${data.length} bytes`);
         }
+
+        if (isBinary) {
+          handleAudioFrame(data);
+          return;
+        }
+
+        let raw: unknown;
+        try {
+          raw = JSON.parse(data.toString());
+        } catch {
+          throw new ProtocolError('invalid-message', 'Text frames must be JSON');
+        }
+        requestType = typeof raw === 'object' && raw !== null && 'type' in raw && typeof raw.type === 'string' ? raw.type : undefined;
+
+        const parsed = clientMessageSchema.safeParse(raw);
+        if (!parsed.success) {
+          throw new ProtocolError('invalid-message', describeProtocolError(parsed.error));
+        }
+        await handleControlMessage(parsed.data);
       } catch (error) {
-        console.error('[WebSocket] ❌ Message error:', error);
+        if (error instanceof ProtocolError) {
+          sendError(error.code, error.message, requestType);
+        } else {
+          console.error('[WebSocket] ❌ Message error:', error);
+          sendError('internal-error', 'Failed to process message', requestType);
+        }
       }
     });
 
@@ -1151,6 +3389,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (currentSessionId && currentParticipantId) {
         console.log(`[WebSocket] 🧹 Cleaning up streams for participant: ${currentParticipantId}`);
         streamingManager.stopStream(currentParticipantId, currentSessionId);
+        if (recognizerOwner && recognizerOwners.get(currentParticipantId) === recognizerOwner) {
+          recognizerOwners.delete(currentParticipantId);
+        }
+        const speakerId = currentParticipantId;
+        releaseFloor(currentSessionId, speakerId).catch((error) => {
+          console.error(`[Floor] ❌ Failed to release the floor of ${speakerId}:`, error);
+        });
       }
 
       // Clean up room
@@ -1161,6 +3406,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const room = sessionRooms.get(currentSessionId);
         if (room && room.clients.size === 0) {
           console.log(`[WebSocket] 🧹 Cleaning up empty room: ${currentSessionId}`);
+          sessionLiveness.delete(currentSessionId);
+          floorStates.delete(currentSessionId);
           sessionRooms.delete(currentSessionId);
         } else if (room) {
           console.log(`[WebSocket] Room ${currentSessionId} now has ${room.clients.size} clients`);
@@ -1170,6 +3417,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Reset connection state
       currentSessionId = null;
       currentParticipantId = null;
+
+      connectionIdentities.delete(ws);
+      if (present) {
+        const remaining = (localConnections.get(identity.participantId) || 1) - 1;
+        if (remaining > 0) {
+          localConnections.set(identity.participantId, remaining);
+        } else {
+          localConnections.delete(identity.participantId);
+          syncPresence(identity.participantId);
+        }
+      }
     });
 
     ws.on('error', (error) => {
@@ -0,0 +1,262 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { SynthesizedAudio } from './speech-synthesis';
+
+/**
+ * Synthesized audio cache.
+ * A byte-budgeted in-memory LRU in front of an on-disk tier, so common phrases
+ * are synthesized once across sessions and server restarts.
+ */
+
+export interface AudioCacheKeyParts {
+  provider: string;
+  audioConfig: string; // Output format / synthesis settings of the provider
+  languageCode: string;
+  voice?: string | null;
+  text: string;
+}
+
+export interface AudioCacheOptions {
+  maxMemoryBytes: number;
+  directory: string | null; // null disables the disk tier
+  maxDiskBytes: number;
+}
+
+export interface AudioCacheMetrics {
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+  memoryEntries: number;
+  memoryBytes: number;
+  diskEntries: number;
+  diskBytes: number;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/ogg': 'ogg',
+};
+
+function extensionFor(mimeType: string): string {
+  return MIME_EXTENSIONS[mimeType] || 'bin';
+}
+
+function mimeTypeFor(extension: string): string {
+  const entry = Object.entries(MIME_EXTENSIONS).find(([, ext]) => ext === extension);
+  return entry ? entry[0] : 'application/octet-stream';
+}
+
+export function makeAudioCacheKey({ provider, audioConfig, languageCode, voice, text }: AudioCacheKeyParts): string {
+  return createHash('sha256')
+    .update(JSON.stringify([provider, audioConfig, languageCode, voice || 'default', text]))
+    .digest('hex');
+}
+
+export class AudioCache {
+  // Map iteration order is the LRU order: oldest first
+  private memory = new Map<string, SynthesizedAudio>();
+  private memoryBytes = 0;
+  private disk = new Map<string, { file: string; bytes: number }>();
+  private diskBytes = 0;
+  private diskReady: Promise<void>;
+  private inFlight = new Map<string, Promise<SynthesizedAudio>>();
+  private stats = { memoryHits: 0, diskHits: 0, misses: 0, evictions: 0 };
+
+  constructor(private options: AudioCacheOptions) {
+    this.diskReady = this.loadDiskIndex();
+  }
+
+  async get(key: string): Promise<SynthesizedAudio | undefined> {
+    const cached = this.memory.get(key);
+    if (cached) {
+      this.touchMemory(key, cached);
+      this.stats.memoryHits++;
+      return cached;
+    }
+
+    const fromDisk = await this.readFromDisk(key);
+    if (fromDisk) {
+      this.stats.diskHits++;
+      this.storeInMemory(key, fromDisk);
+      return fromDisk;
+    }
+
+    this.stats.misses++;
+    return undefined;
+  }
+
+  async set(key: string, audio: SynthesizedAudio): Promise<void> {
+    this.storeInMemory(key, audio);
+    await this.writeToDisk(key, audio);
+  }
+
+  // Concurrent requests for the same key share one synthesis
+  async getOrCreate(key: string, create: () => Promise<SynthesizedAudio>): Promise<SynthesizedAudio> {
+    const cached = await this.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = create()
+        .then(async (audio) => {
+          await this.set(key, audio);
+          return audio;
+        })
+        .finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+    return pending;
+  }
+
+  getMetrics(): AudioCacheMetrics {
+    const lookups = this.stats.memoryHits + this.stats.diskHits + this.stats.misses;
+    return {
+      ...this.stats,
+      hitRate: lookups > 0 ? (this.stats.memoryHits + this.stats.diskHits) / lookups : 0,
+      memoryEntries: this.memory.size,
+      memoryBytes: this.memoryBytes,
+      diskEntries: this.disk.size,
+      diskBytes: this.diskBytes,
+    };
+  }
+
+  private touchMemory(key: string, audio: SynthesizedAudio) {
+    this.memory.delete(key);
+    this.memory.set(key, audio);
+  }
+
+  private storeInMemory(key: string, audio: SynthesizedAudio) {
+    // A single clip larger than the whole budget would just evict everything
+    if (audio.audio.length > this.options.maxMemoryBytes) {
+      return;
+    }
+
+    const existing = this.memory.get(key);
+    if (existing) {
+      this.memoryBytes -= existing.audio.length;
+      this.memory.delete(key);
+    }
+    this.memory.set(key, audio);
+    this.memoryBytes += audio.audio.length;
+
+    const keys = Array.from(this.memory.keys());
+    for (const oldestKey of keys) {
+      if (this.memoryBytes <= this.options.maxMemoryBytes) break;
+      const evicted = this.memory.get(oldestKey)!;
+      this.memory.delete(oldestKey);
+      this.memoryBytes -= evicted.audio.length;
+      this.stats.evictions++;
+    }
+  }
+
+  // Rebuild the disk index from file modification times (oldest first)
+  private async loadDiskIndex(): Promise<void> {
+    const { directory } = this.options;
+    if (!directory) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(directory, { recursive: true });
+      const files = await fs.readdir(directory);
+      const entries = await Promise.all(files.map(async (file) => {
+        const stat = await fs.stat(path.join(directory, file));
+        return { file, bytes: stat.size, mtime: stat.mtimeMs };
+      }));
+
+      entries
+        .filter(entry => /^[0-9a-f]{64}\.\w+$/.test(entry.file))
+        .sort((a, b) => a.mtime - b.mtime)
+        .forEach(({ file, bytes }) => {
+          this.disk.set(file.split('.')[0], { file, bytes });
+          this.diskBytes += bytes;
+        });
+
+      console.log(`[AudioCache] Loaded ${this.disk.size} cached clips (${Math.round(this.diskBytes / 1024)} KB) from ${directory}`);
+    } catch (error) {
+      console.error(`[AudioCache] Disk tier unavailable at ${directory}:`, error);
+      this.options.directory = null;
+    }
+  }
+
+  private async readFromDisk(key: string): Promise<SynthesizedAudio | undefined> {
+    await this.diskReady;
+    const entry = this.disk.get(key);
+    if (!entry || !this.options.directory) {
+      return undefined;
+    }
+
+    const filePath = path.join(this.options.directory, entry.file);
+    try {
+      const audio = await fs.readFile(filePath);
+      // Mark as recently used, both in the index and for the next restart
+      this.disk.delete(key);
+      this.disk.set(key, entry);
+      const now = new Date();
+      await fs.utimes(filePath, now, now).catch(() => {});
+      return { audio, mimeType: mimeTypeFor(path.extname(entry.file).slice(1)) };
+    } catch (error) {
+      console.error(`[AudioCache] Failed to read ${entry.file}, dropping it:`, error);
+      this.disk.delete(key);
+      this.diskBytes -= entry.bytes;
+      return undefined;
+    }
+  }
+
+  private async writeToDisk(key: string, audio: SynthesizedAudio): Promise<void> {
+    await this.diskReady;
+    const { directory, maxDiskBytes } = this.options;
+    if (!directory || this.disk.has(key) || audio.audio.length > maxDiskBytes) {
+      return;
+    }
+
+    const file = `${key}.${extensionFor(audio.mimeType)}`;
+    try {
+      await fs.writeFile(path.join(directory, file), audio.audio);
+      this.disk.set(key, { file, bytes: audio.audio.length });
+      this.diskBytes += audio.audio.length;
+    } catch (error) {
+      console.error(`[AudioCache] Failed to write ${file}:`, error);
+      return;
+    }
+
+    const keys = Array.from(this.disk.keys());
+    for (const oldestKey of keys) {
+      if (this.diskBytes <= maxDiskBytes) break;
+      const evicted = this.disk.get(oldestKey)!;
+      this.disk.delete(oldestKey);
+      this.diskBytes -= evicted.bytes;
+      this.stats.evictions++;
+      await fs.unlink(path.join(directory, evicted.file)).catch((error) => {
+        console.error(`[AudioCache] Failed to evict ${evicted.file}:`, error);
+      });
+    }
+  }
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * Build the cache from environment:
+ * - AUDIO_CACHE_MEMORY_MB: in-memory budget (default 64)
+ * - AUDIO_CACHE_DIR: disk tier directory (default <tmpdir>/nihki-audio-cache, "off" disables it)
+ * - AUDIO_CACHE_DISK_MB: disk budget (default 1024)
+ */
+export function createAudioCache(): AudioCache {
+  const directory = process.env.AUDIO_CACHE_DIR === 'off'
+    ? null
+    : process.env.AUDIO_CACHE_DIR || path.join(os.tmpdir(), 'nihki-audio-cache');
+
+  return new AudioCache({
+    maxMemoryBytes: (Number(process.env.AUDIO_CACHE_MEMORY_MB) || 64) * MB,
+    directory,
+    maxDiskBytes: (Number(process.env.AUDIO_CACHE_DISK_MB) || 1024) * MB,
+  });
+}
@@ -0,0 +1,31 @@
+import type { ChatMessage } from '@shared/schema';
+import type { ChatMessageData } from '@shared/protocol';
+
+/**
+ * Session chat. A message is translated once, when it is posted, into every language
+ * the session uses; recipients get the translations for their own language channels
+ * and the original text. Deleted messages are never sent to clients.
+ */
+
+export function toChatMessageData(message: ChatMessage): ChatMessageData {
+  return {
+    id: message.id,
+    sessionId: message.sessionId,
+    participantId: message.participantId,
+    authorName: message.authorName,
+    originalText: message.originalText,
+    originalLanguage: message.originalLanguage,
+    translations: message.translations,
+    failedLanguages: message.failedLanguages,
+    createdAt: message.createdAt.toISOString(),
+  };
+}
+
+// Keep only the translations a recipient reads (their language channels)
+export function localizeChatMessage(data: ChatMessageData, wanted: (language: string) => boolean): ChatMessageData {
+  return {
+    ...data,
+    translations: Object.fromEntries(Object.entries(data.translations).filter(([language]) => wanted(language))),
+    failedLanguages: data.failedLanguages.filter(wanted),
+  };
+}
@@ -0,0 +1,23 @@
+import type { FloorPolicy, Session } from '@shared/schema';
+
+/**
+ * Floor control for overlapping speakers.
+ *   open    every permitted speaker is transcribed and voiced at once
+ *   single  one speaker holds the floor; a speaking grant or starting to speak takes it,
+ *           and everyone else's audio is held (dropped) until they take the floor back.
+ *           Whoever speaks into a free floor takes it.
+ */
+
+export interface FloorState {
+  policy: FloorPolicy;
+  holderId: string | null; // Participant holding the floor (single policy only)
+}
+
+export function floorStateOf(session: Session): FloorState {
+  return { policy: session.floorPolicy, holderId: session.floorHolderId };
+}
+
+// Whether a speaker's audio may be transcribed; unknown sessions are not restricted
+export function mayTransmit(state: FloorState | undefined, participantId: string): boolean {
+  return !state || state.policy !== 'single' || !state.holderId || state.holderId === participantId;
+}
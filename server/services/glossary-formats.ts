@@ -0,0 +1,248 @@
+import type { GlossaryTerm, InsertGlossaryTerm } from '@shared/schema';
+import { getLanguageCode, standardizeLanguageName } from './translation';
+
+/**
+ * Glossary import/export.
+ * CSV: one row per term with fixed columns followed by one column per target
+ * language holding the forced rendering, e.g.
+ *   term,source_language,do_not_translate,case_sensitive,notes,Spanish,French
+ * TBX: TBX-Basic style termEntry elements; do-not-translate is recorded as a
+ * transferComment term note on the source term.
+ */
+
+export class GlossaryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GlossaryImportError';
+  }
+}
+
+// Store languages as names ("Spanish") whether they were given as names or codes
+export function normalizeGlossaryTerm<T extends Partial<InsertGlossaryTerm>>(term: T): T {
+  return {
+    ...term,
+    sourceLanguage: term.sourceLanguage ? standardizeLanguageName(term.sourceLanguage) : term.sourceLanguage,
+    renderings: term.renderings && Object.fromEntries(
+      Object.entries(term.renderings).map(([language, rendering]) => [standardizeLanguageName(language), rendering])
+    ),
+  };
+}
+
+const CSV_COLUMNS = ['term', 'source_language', 'do_not_translate', 'case_sensitive', 'notes'];
+const DO_NOT_TRANSLATE_NOTE = 'doNotTranslate';
+
+// Split CSV content into rows of fields (RFC 4180 quoting)
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new GlossaryImportError('Unterminated quoted field in CSV');
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim()));
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function parseBoolean(value: string | undefined): boolean {
+  return ['true', 'yes', '1', 'y'].includes((value || '').trim().toLowerCase());
+}
+
+export function parseGlossaryCsv(content: string): InsertGlossaryTerm[] {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new GlossaryImportError('CSV is empty');
+  }
+
+  const columns = header.map(column => column.trim());
+  const termIndex = columns.findIndex(column => column.toLowerCase() === 'term');
+  if (termIndex === -1) {
+    throw new GlossaryImportError('CSV header must include a "term" column');
+  }
+  const column = (name: string) => columns.findIndex(c => c.toLowerCase() === name);
+  const languageColumns = columns
+    .map((name, index) => ({ name, index }))
+    .filter(({ name }) => name && !CSV_COLUMNS.includes(name.toLowerCase()));
+
+  return rows
+    .filter(fields => (fields[termIndex] || '').trim())
+    .map((fields) => {
+      const renderings: Record<string, string> = {};
+      for (const { name, index } of languageColumns) {
+        const rendering = (fields[index] || '').trim();
+        if (rendering) {
+          renderings[standardizeLanguageName(name)] = rendering;
+        }
+      }
+
+      const sourceLanguage = (fields[column('source_language')] || '').trim();
+      return {
+        term: fields[termIndex].trim(),
+        sourceLanguage: sourceLanguage ? standardizeLanguageName(sourceLanguage) : null,
+        doNotTranslate: parseBoolean(fields[column('do_not_translate')]),
+        caseSensitive: parseBoolean(fields[column('case_sensitive')]),
+        renderings,
+        notes: (fields[column('notes')] || '').trim() || null,
+      };
+    });
+}
+
+export function formatGlossaryCsv(terms: GlossaryTerm[]): string {
+  const languages = Array.from(new Set(terms.flatMap(term => Object.keys(term.renderings || {})))).sort();
+
+  const lines = [[...CSV_COLUMNS, ...languages].join(',')];
+  for (const term of terms) {
+    lines.push([
+      term.term,
+      term.sourceLanguage || '',
+      term.doNotTranslate ? 'true' : 'false',
+      term.caseSensitive ? 'true' : 'false',
+      term.notes || '',
+      ...languages.map(language => term.renderings?.[language] || ''),
+    ].map(csvField).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_m, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function findAll(source: string, pattern: RegExp): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    matches.push(match);
+  }
+  return matches;
+}
+
+// Languages are stored as names; TBX uses language codes in xml:lang
+export function formatGlossaryTbx(terms: GlossaryTerm[]): string {
+  const entries = terms.map((term, index) => {
+    const sourceCode = term.sourceLanguage ? getLanguageCode(term.sourceLanguage) : 'und';
+    const sourceNotes = [
+      term.doNotTranslate ? `          <termNote type="transferComment">${DO_NOT_TRANSLATE_NOTE}</termNote>` : null,
+      term.caseSensitive ? '          <termNote type="usageNote">caseSensitive</termNote>' : null,
+    ].filter(Boolean).join('\n');
+
+    const langSets = [
+      `      <langSet xml:lang="${escapeXml(sourceCode)}">
+        <tig>
+          <term>${escapeXml(term.term)}</term>${sourceNotes ? '\n' + sourceNotes : ''}
+        </tig>
+      </langSet>`,
+      ...Object.entries(term.renderings || {}).map(([language, rendering]) =>
+        `      <langSet xml:lang="${escapeXml(getLanguageCode(language))}">
+        <tig>
+          <term>${escapeXml(rendering)}</term>
+        </tig>
+      </langSet>`),
+    ];
+
+    return `    <termEntry id="t${index + 1}">${term.notes ? `\n      <descrip type="definition">${escapeXml(term.notes)}</descrip>` : ''}
+${langSets.join('\n')}
+    </termEntry>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<martif type="TBX-Basic" xml:lang="en">
+  <martifHeader>
+    <fileDesc><sourceDesc><p>nihki glossary export</p></sourceDesc></fileDesc>
+  </martifHeader>
+  <text>
+  <body>
+${entries.join('\n')}
+  </body>
+  </text>
+</martif>
+`;
+}
+
+// The first langSet of an entry is the source term; the rest are forced renderings
+export function parseGlossaryTbx(content: string): InsertGlossaryTerm[] {
+  if (!/<martif[\s>]/i.test(content) && !/<tbx[\s>]/i.test(content)) {
+    throw new GlossaryImportError('Not a TBX document');
+  }
+
+  const entries = findAll(content, /<(termEntry|conceptEntry)\b[^>]*>([\s\S]*?)<\/\1>/gi);
+  return entries.flatMap(([, , body]) => {
+    const langSets = findAll(body, /<langSec\b[^>]*xml:lang="([^"]+)"[^>]*>([\s\S]*?)<\/langSec>|<langSet\b[^>]*xml:lang="([^"]+)"[^>]*>([\s\S]*?)<\/langSet>/gi)
+      .map(match => ({ code: match[1] || match[3], body: match[2] || match[4] }));
+    const [source, ...targets] = langSets;
+    const sourceTerm = source && /<term\b[^>]*>([\s\S]*?)<\/term>/i.exec(source.body);
+    if (!sourceTerm || !unescapeXml(sourceTerm[1]).trim()) {
+      return [];
+    }
+
+    const renderings: Record<string, string> = {};
+    for (const target of targets) {
+      const rendering = /<term\b[^>]*>([\s\S]*?)<\/term>/i.exec(target.body);
+      if (rendering && unescapeXml(rendering[1]).trim()) {
+        renderings[standardizeLanguageName(target.code)] = unescapeXml(rendering[1]).trim();
+      }
+    }
+
+    const notes = /<descrip\b[^>]*type="definition"[^>]*>([\s\S]*?)<\/descrip>/i.exec(body);
+    return [{
+      term: unescapeXml(sourceTerm[1]).trim(),
+      sourceLanguage: source.code && source.code !== 'und' ? standardizeLanguageName(source.code) : null,
+      doNotTranslate: new RegExp(`<termNote\\b[^>]*type="transferComment"[^>]*>\\s*${DO_NOT_TRANSLATE_NOTE}\\s*<`, 'i').test(source.body),
+      caseSensitive: /<termNote\b[^>]*type="usageNote"[^>]*>\s*caseSensitive\s*</i.test(source.body),
+      renderings,
+      notes: notes ? unescapeXml(notes[1]).trim() || null : null,
+    }];
+  });
+}
@@ -0,0 +1,116 @@
+import type { GlossaryTerm } from '@shared/schema';
+
+/**
+ * Glossary enforcement for the translation path.
+ * Matching terms are swapped for placeholders before the text reaches a
+ * provider, then restored as the original term (do-not-translate) or the
+ * forced rendering for the target language.
+ */
+
+export type GlossaryEntry = Pick<GlossaryTerm, 'term' | 'sourceLanguage' | 'doNotTranslate' | 'caseSensitive' | 'renderings'>;
+
+export interface ProtectedText {
+  text: string;
+  restore(translated: string): string;
+}
+
+// Google STT accepts up to 5000 phrases of at most 100 characters per request
+const MAX_PHRASE_HINTS = 500;
+const MAX_PHRASE_LENGTH = 100;
+
+// Placeholders survive MT engines better than markup; tolerate inserted spaces
+const placeholder = (index: number) => `[#G${index}]`;
+const PLACEHOLDER_PATTERN = /\[\s*#\s*G\s*(\d+)\s*\]/gi;
+
+// Letters that count as part of a word when checking term boundaries
+const WORD_CHARS = 'A-Za-z0-9_\\u00C0-\\u024F\\u0370-\\u03FF\\u0400-\\u04FF';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function sameLanguage(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// Forced rendering for a target language (keys are language names, matched case-insensitively)
+export function getRendering(entry: GlossaryEntry, toLanguage: string): string | undefined {
+  const key = Object.keys(entry.renderings || {}).find(language => sameLanguage(language, toLanguage));
+  return key ? entry.renderings[key] : undefined;
+}
+
+// Organization terms apply to every session; a session term with the same text overrides them
+export function mergeGlossaries<T extends GlossaryEntry>(organizationTerms: T[], sessionTerms: T[]): T[] {
+  const key = (entry: T) => `${entry.term.toLowerCase()}|${(entry.sourceLanguage || '').toLowerCase()}`;
+  const merged = new Map<string, T>();
+  for (const entry of organizationTerms) merged.set(key(entry), entry);
+  for (const entry of sessionTerms) merged.set(key(entry), entry);
+  return Array.from(merged.values());
+}
+
+export function protectTerms(
+  text: string,
+  fromLanguage: string,
+  toLanguage: string,
+  glossary: GlossaryEntry[]
+): ProtectedText {
+  const replacements: string[] = [];
+
+  const applicable = glossary
+    .filter(entry => !entry.sourceLanguage || sameLanguage(entry.sourceLanguage, fromLanguage))
+    .filter(entry => entry.doNotTranslate || getRendering(entry, toLanguage))
+    // Longest first so "Nihki Pro" wins over "Nihki"
+    .sort((a, b) => b.term.length - a.term.length);
+
+  let protectedText = text;
+  for (const entry of applicable) {
+    const pattern = new RegExp(
+      `(^|[^${WORD_CHARS}])(${escapeRegExp(entry.term)})(?=$|[^${WORD_CHARS}])`,
+      entry.caseSensitive ? 'g' : 'gi'
+    );
+    const rendering = getRendering(entry, toLanguage);
+
+    protectedText = protectedText.replace(pattern, (_match, prefix: string, matched: string) => {
+      replacements.push(rendering ?? matched);
+      return prefix + placeholder(replacements.length - 1);
+    });
+  }
+
+  return {
+    text: protectedText,
+    restore(translated: string): string {
+      if (replacements.length === 0) {
+        return translated;
+      }
+
+      const restored = new Set<number>();
+      const result = translated.replace(PLACEHOLDER_PATTERN, (match, index: string) => {
+        const replacement = replacements[Number(index)];
+        if (replacement === undefined) {
+          return match;
+        }
+        restored.add(Number(index));
+        return replacement;
+      });
+
+      if (restored.size < replacements.length) {
+        console.warn(`[Glossary] ${replacements.length - restored.size} protected term(s) were dropped by the provider (${fromLanguage} → ${toLanguage})`);
+      }
+      return result;
+    }
+  };
+}
+
+// Terms and their renderings, used as STT speech-context phrases
+export function getPhraseHints(glossary: GlossaryEntry[]): string[] {
+  const phrases = new Set<string>();
+  for (const entry of glossary) {
+    for (const phrase of [entry.term, ...Object.values(entry.renderings || {})]) {
+      const trimmed = phrase.trim();
+      if (trimmed && trimmed.length <= MAX_PHRASE_LENGTH) {
+        phrases.add(trimmed);
+      }
+    }
+  }
+  return Array.from(phrases).slice(0, MAX_PHRASE_HINTS);
+}
@@ -0,0 +1,26 @@
+import { GoogleAuth } from 'google-auth-library';
+
+// Parse service account credentials from environment
+const credentials = process.env.GOOGLE_APPLICATION_CREDENTIALS
+  ? JSON.parse(process.env.GOOGLE_APPLICATION_CREDENTIALS)
+  : undefined;
+
+// Fix private key newlines and ensure proper PEM format
+if (credentials && credentials.private_key) {
+  credentials.private_key = credentials.private_key
+    .replace(/\\n/g, '\n') // Replace literal \n with actual newline
+    .replace(/\r\n/g, '\n') // Normalize CRLF to LF
+    .replace(/\r/g, '\n')   // Normalize CR to LF
+    .trim();                // Remove surrounding whitespace
+}
+
+export const hasGoogleCredentials = !!credentials;
+
+// Create a GoogleAuth instance for the given scopes
+export function createGoogleAuth(
+  scopes: string[] = ['https://www.googleapis.com/auth/cloud-platform']
+): GoogleAuth {
+  return credentials
+    ? new GoogleAuth({ credentials, scopes })
+    : new GoogleAuth();
+}
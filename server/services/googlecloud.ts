@@ -1,35 +1,16 @@
 import { SpeechClient } from '@google-cloud/speech';
 import { TranslationServiceClient } from '@google-cloud/translate';
 import { TextToSpeechClient } from '@google-cloud/text-to-speech';
-import { GoogleAuth } from 'google-auth-library';
+import { createGoogleAuth } from './google-auth';
 import { withRetry } from './retry';
 
-// Initialize Google Cloud clients with credentials from environment
-const credentials = process.env.GOOGLE_APPLICATION_CREDENTIALS
-  ? JSON.parse(process.env.GOOGLE_APPLICATION_CREDENTIALS)
-  : undefined;
-
-// Fix private key newlines and ensure proper PEM format
-if (credentials && credentials.private_key) {
-  credentials.private_key = credentials.private_key
-    .replace(/\\n/g, '\n') // Replace literal \n with actual newline
-    .replace(/\r\n/g, '\n') // Normalize CRLF to LF
-    .replace(/\r/g, '\n')   // Normalize CR to LF
-    .trim();                // Remove surrounding whitespace
-}
-
 const projectId = process.env.GOOGLE_CLOUD_PROJECT_ID;
 
 // Create proper GoogleAuth instance
-const auth = credentials
-  ? new GoogleAuth({
-    credentials,
-    scopes: [
-      'https://www.googleapis.com/auth/cloud-platform',
-      'https://www.googleapis.com/auth/cloud-translation',
-    ],
-  })
-  : new GoogleAuth();
+const auth = createGoogleAuth([
+  'https://www.googleapis.com/auth/cloud-platform',
+  'https://www.googleapis.com/auth/cloud-translation',
+]);
 
 const speechClient = new SpeechClient({ auth });
 const translationClient = new TranslationServiceClient({ auth });
@@ -71,7 +52,7 @@ const LANGUAGE_CODE_MAP: Record<string, string> = {
   'Serbian': 'sr-RS',
 };
 
-function getLanguageCode(languageName: string): string {
+export function getLanguageCode(languageName: string): string {
   return LANGUAGE_CODE_MAP[languageName] || 'en-US';
 }
 
@@ -0,0 +1,73 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Signed participant tokens.
+ * Guests join without an account, so the server hands them a token bound to
+ * their participant id and session; it authenticates their WebSocket and the
+ * REST routes that act on their own participant record.
+ */
+
+export interface ParticipantTokenClaims {
+  participantId: string;
+  sessionId: string;
+  expiresAt: number; // ms since epoch
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Resolved when the server starts: only development may sign with a built-in secret
+function resolveSecret(): string {
+  const secret = process.env.PARTICIPANT_TOKEN_SECRET || process.env.SESSION_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === 'development') {
+    console.warn('[Auth] ⚠️ PARTICIPANT_TOKEN_SECRET and SESSION_SECRET are not set; using the development token secret');
+    return 'nihki-development-participant-token-secret';
+  }
+  throw new Error('Set PARTICIPANT_TOKEN_SECRET or SESSION_SECRET to sign participant tokens');
+}
+
+const secret = resolveSecret();
+
+function sign(payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+export function createParticipantToken(
+  participantId: string,
+  sessionId: string,
+  expiresAt: Date = new Date(Date.now() + DEFAULT_TTL_MS)
+): string {
+  const claims: ParticipantTokenClaims = { participantId, sessionId, expiresAt: expiresAt.getTime() };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+// Returns the claims of a valid, unexpired token, otherwise null
+export function verifyParticipantToken(token: string | undefined | null): ParticipantTokenClaims | null {
+  if (!token) {
+    return null;
+  }
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as ParticipantTokenClaims;
+    if (typeof claims.participantId !== 'string' || typeof claims.sessionId !== 'string' || claims.expiresAt < Date.now()) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+}
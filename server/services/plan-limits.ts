@@ -0,0 +1,88 @@
+import { getPlan, isPlanId, PLAN_ERROR_MESSAGES, type Plan, type PlanErrorCode } from '@shared/plans';
+import type { Participant, Session } from '@shared/schema';
+
+/**
+ * Plan limit enforcement (limits are defined in shared/plans.ts).
+ * Checks throw PlanLimitError; routes return its code so clients can explain it.
+ */
+
+export class PlanLimitError extends Error {
+  constructor(public code: PlanErrorCode, message: string = PLAN_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'PlanLimitError';
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_DURATION_HOURS = 24;
+
+// Validate a new session against its plan; fills in seats and expiry the request left out
+export function applyPlanToNewSession(
+  request: { plan?: string; maxParticipants?: number; languages?: string[]; expiresAt?: Date },
+  now: Date = new Date()
+): { plan: Plan; maxParticipants: number; expiresAt: Date } {
+  if (request.plan && !isPlanId(request.plan)) {
+    throw new PlanLimitError('unknown-plan', `Unknown plan: ${request.plan}`);
+  }
+  const plan = getPlan(request.plan);
+
+  const maxParticipants = request.maxParticipants ?? plan.maxParticipants;
+  if (maxParticipants > plan.maxParticipants) {
+    throw new PlanLimitError('participant-limit-exceeded', `The ${plan.label} plan allows at most ${plan.maxParticipants} participants`);
+  }
+
+  const languages = new Set((request.languages || []).map(language => language.toLowerCase()));
+  if (languages.size > plan.maxLanguages) {
+    throw new PlanLimitError('language-limit-exceeded', `The ${plan.label} plan allows at most ${plan.maxLanguages} languages`);
+  }
+
+  const maxExpiresAt = new Date(now.getTime() + plan.maxDurationHours * HOUR_MS);
+  const expiresAt = request.expiresAt
+    || new Date(now.getTime() + Math.min(DEFAULT_DURATION_HOURS, plan.maxDurationHours) * HOUR_MS);
+  if (expiresAt > maxExpiresAt) {
+    throw new PlanLimitError('duration-limit-exceeded', `The ${plan.label} plan allows sessions of at most ${plan.maxDurationHours} hours`);
+  }
+
+  return { plan, maxParticipants, expiresAt };
+}
+
+// Participants who left (were connected, now are not), were rejected or removed give their seat back
+export function holdsSeat(participant: Participant): boolean {
+  return participant.admission !== 'rejected' && participant.admission !== 'removed'
+    && (participant.isActive || !participant.lastSeenAt);
+}
+
+export function assertSeatAvailable(session: Session, participants: Participant[]) {
+  const seats = Math.min(session.maxParticipants, getPlan(session.plan).maxParticipants);
+  if (participants.filter(holdsSeat).length >= seats) {
+    throw new PlanLimitError('session-full');
+  }
+}
+
+// Languages already in use count toward the limit; new ones are allowed while there is room.
+// All language lists must be normalized to the same spelling (language names).
+export function assertLanguagesAllowed(session: Session, inUse: string[], requested: string[]) {
+  const plan = getPlan(session.plan);
+  const languages = new Set(inUse.map(language => language.toLowerCase()));
+  const added = requested.filter(language => !languages.has(language.toLowerCase()));
+  if (added.length === 0) {
+    return;
+  }
+  added.forEach(language => languages.add(language.toLowerCase()));
+  if (languages.size > plan.maxLanguages) {
+    throw new PlanLimitError(
+      'language-limit-exceeded',
+      `This session's ${plan.label} plan allows ${plan.maxLanguages} languages; ${added.join(', ')} cannot be added`
+    );
+  }
+}
+
+export function assertSessionUpdateAllowed(session: Session, updates: { maxParticipants?: number; languages?: string[] }) {
+  const plan = getPlan(session.plan);
+  if (updates.maxParticipants !== undefined && updates.maxParticipants > plan.maxParticipants) {
+    throw new PlanLimitError('participant-limit-exceeded', `The ${plan.label} plan allows at most ${plan.maxParticipants} participants`);
+  }
+  if (updates.languages) {
+    assertLanguagesAllowed(session, [], updates.languages);
+  }
+}
@@ -0,0 +1,80 @@
+import type { Question, QuestionStatus } from '@shared/schema';
+import type { QuestionData } from '@shared/protocol';
+
+/**
+ * Moderated audience Q&A.
+ *   pending ──approve──▶ approved ──answer──▶ answered
+ *   pending / approved ──dismiss──▶ dismissed ──approve──▶ approved
+ * Questions from attendees start pending; the host, co-hosts and moderators approve
+ * them for everyone to see and upvote. Pending and dismissed questions are visible
+ * only to moderators and the asker.
+ */
+
+export const questionActions = ['approve', 'answer', 'dismiss'] as const;
+export type QuestionAction = typeof questionActions[number];
+
+const TRANSITIONS: Record<QuestionAction, { from: QuestionStatus[]; to: QuestionStatus }> = {
+  approve: { from: ['pending', 'dismissed'], to: 'approved' },
+  answer: { from: ['pending', 'approved'], to: 'answered' },
+  dismiss: { from: ['pending', 'approved'], to: 'dismissed' },
+};
+
+export class QuestionTransitionError extends Error {
+  constructor(public action: QuestionAction, public from: QuestionStatus) {
+    super(`Cannot ${action} a question that is ${from}`);
+    this.name = 'QuestionTransitionError';
+  }
+}
+
+// Approved and answered questions are shown to the whole session
+export function isPublicQuestion(status: QuestionStatus): boolean {
+  return status === 'approved' || status === 'answered';
+}
+
+export function canSeeQuestion(question: Question, viewer: { participantId: string | null; moderator: boolean }): boolean {
+  return viewer.moderator || isPublicQuestion(question.status) || (!!viewer.participantId && question.participantId === viewer.participantId);
+}
+
+// Column updates for moderating a question; throws if the action is not allowed
+export function planQuestionTransition(
+  question: Question,
+  action: QuestionAction,
+  moderatedBy: string,
+  now: Date = new Date()
+): Partial<Question> & { status: QuestionStatus } {
+  const transition = TRANSITIONS[action];
+  if (!transition.from.includes(question.status)) {
+    throw new QuestionTransitionError(action, question.status);
+  }
+  return {
+    status: transition.to,
+    moderatedBy,
+    answeredAt: transition.to === 'answered' ? now : null,
+  };
+}
+
+// Open questions first, most upvoted first, then in the order they were asked
+export function sortQuestions(questions: Question[]): Question[] {
+  const answered = (question: Question) => question.status === 'answered' ? 1 : 0;
+  return [...questions].sort((a, b) =>
+    answered(a) - answered(b)
+    || b.upvoteCount - a.upvoteCount
+    || a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
+
+export function toQuestionData(question: Question): QuestionData {
+  return {
+    id: question.id,
+    participantId: question.participantId,
+    authorName: question.authorName,
+    originalText: question.originalText,
+    originalLanguage: question.originalLanguage,
+    translations: question.translations,
+    failedLanguages: question.failedLanguages,
+    status: question.status,
+    upvoteCount: question.upvoteCount,
+    answeredAt: question.answeredAt ? question.answeredAt.toISOString() : null,
+    createdAt: question.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Bounded per-session buffer of sequenced events, replayed to clients that
+ * resume a connection with the last sequence number they saw.
+ */
+
+export interface ReplayResult<T> {
+  entries: Array<{ seq: number; event: T }>;
+  complete: boolean; // False when part of the gap has already been evicted
+}
+
+export class ReplayBuffer<T> {
+  // Entries per session, kept sorted by seq (events from other instances may arrive out of order)
+  private sessions = new Map<string, Array<{ seq: number; event: T }>>();
+
+  constructor(private maxEntriesPerSession: number) {}
+
+  add(sessionId: string, seq: number, event: T) {
+    let entries = this.sessions.get(sessionId);
+    if (!entries) {
+      entries = [];
+      this.sessions.set(sessionId, entries);
+    }
+
+    let index = entries.length;
+    while (index > 0 && entries[index - 1].seq > seq) {
+      index--;
+    }
+    if (index > 0 && entries[index - 1].seq === seq) {
+      return; // Already buffered
+    }
+    entries.splice(index, 0, { seq, event });
+
+    if (entries.length > this.maxEntriesPerSession) {
+      entries.splice(0, entries.length - this.maxEntriesPerSession);
+    }
+  }
+
+  since(sessionId: string, lastSeq: number): ReplayResult<T> {
+    const entries = this.sessions.get(sessionId) || [];
+    const missed = entries.filter(entry => entry.seq > lastSeq);
+    const oldest = entries[0]?.seq;
+    return {
+      entries: missed,
+      // Without buffered history the gap cannot be verified unless nothing was missed
+      complete: oldest !== undefined ? lastSeq >= oldest - 1 : lastSeq === 0,
+    };
+  }
+
+  clear(sessionId: string) {
+    this.sessions.delete(sessionId);
+  }
+}
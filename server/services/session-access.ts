@@ -0,0 +1,58 @@
+import bcrypt from 'bcrypt';
+import { SESSION_ACCESS_ERROR_MESSAGES, type PublicSession, type SessionAccessErrorCode } from '@shared/session-access';
+import type { ParticipantAdmission, Session } from '@shared/schema';
+
+/**
+ * Session access control: passcodes, invite-only allow-lists and the lobby.
+ * Checks throw SessionAccessError; routes return its code so the join page can explain it.
+ */
+
+export class SessionAccessError extends Error {
+  constructor(public code: SessionAccessErrorCode, message: string = SESSION_ACCESS_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'SessionAccessError';
+  }
+}
+
+export function toPublicSession(session: Session, includeAccessList: boolean = false): PublicSession {
+  const { passcodeHash, allowedEmails, ...rest } = session;
+  return {
+    ...rest,
+    hasPasscode: !!passcodeHash,
+    inviteOnly: !!allowedEmails,
+    ...(includeAccessList ? { allowedEmails } : {}),
+  };
+}
+
+export function hashPasscode(passcode: string): Promise<string> {
+  return bcrypt.hash(passcode, 10);
+}
+
+// email is that of the logged-in account, if any (guests have none)
+export async function checkJoinAccess(session: Session, joiner: { email?: string | null; passcode?: string }): Promise<void> {
+  if (session.status === 'ended') {
+    throw new SessionAccessError('session-ended');
+  }
+
+  if (session.allowedEmails) {
+    if (!joiner.email) {
+      throw new SessionAccessError('login-required');
+    }
+    if (!session.allowedEmails.includes(joiner.email.toLowerCase())) {
+      throw new SessionAccessError('not-invited');
+    }
+  }
+
+  if (session.passcodeHash) {
+    if (!joiner.passcode) {
+      throw new SessionAccessError('passcode-required');
+    }
+    if (!await bcrypt.compare(joiner.passcode, session.passcodeHash)) {
+      throw new SessionAccessError('invalid-passcode');
+    }
+  }
+}
+
+export function initialAdmission(session: Session): ParticipantAdmission {
+  return session.requireApproval ? 'waiting' : 'admitted';
+}
@@ -0,0 +1,243 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import type { Pool, PoolClient } from 'pg';
+import type { ServerMessage, TranslationData, AudioSynthesizedData, ChatMessageData, ProtocolErrorCode } from '@shared/protocol';
+
+/**
+ * Session event bus.
+ * WebSocket clients of a session may be connected to different web instances,
+ * so everything sent to a session goes through the bus; each instance delivers
+ * events to the clients connected to it.
+ */
+
+// seq orders replayable events within a session (see nextSequence). Only captions and chat
+// are replayed; clients refetch everything else (participants, floor, lobby) when they resume.
+export type SessionEvent =
+  | { type: 'broadcast'; sessionId: string; message: ServerMessage }
+  | { type: 'translation'; sessionId: string; data: TranslationData; seq: number }
+  | { type: 'audio'; sessionId: string; data: AudioSynthesizedData }
+  // Chat messages carry every language; each instance sends clients their own
+  | { type: 'chat'; sessionId: string; data: ChatMessageData; seq: number }
+  // A connection took over a speaker's recognizer; any other owner must stop transcribing
+  | { type: 'recognizer-claimed'; sessionId: string; participantId: string }
+  // Delivered only to the connections of one participant (e.g. lobby decisions)
+  | { type: 'participant-message'; sessionId: string; participantId: string; message: ServerMessage }
+  // A moderator muted the speaker or revoked their permission; whoever owns the recognizer stops it
+  | { type: 'recognizer-revoked'; sessionId: string; participantId: string; code: ProtocolErrorCode; message: string };
+
+// origin is the instanceId of the publisher
+export type SessionEventHandler = (event: SessionEvent, origin: string) => void;
+
+export interface SessionEventBus {
+  readonly name: string;
+  readonly instanceId: string;
+  publish(event: SessionEvent): Promise<void>;
+  subscribe(handler: SessionEventHandler): () => void;
+  // Next per-session sequence number, monotonically increasing across all instances
+  nextSequence(sessionId: string): Promise<number>;
+  // Drop per-session state once a session has ended or was deleted
+  forgetSession(sessionId: string): void;
+  close(): Promise<void>;
+}
+
+interface Envelope {
+  origin: string;
+  event?: SessionEvent;
+  ref?: string; // Id of a stored payload too large for NOTIFY
+}
+
+// Single instance: events never leave the process
+export class InProcessSessionBus implements SessionEventBus {
+  readonly name = 'memory';
+  readonly instanceId = randomUUID();
+  private emitter = new EventEmitter();
+  private sequences = new Map<string, number>();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish(event: SessionEvent): Promise<void> {
+    this.emitter.emit('event', event, this.instanceId);
+  }
+
+  subscribe(handler: SessionEventHandler): () => void {
+    this.emitter.on('event', handler);
+    return () => this.emitter.off('event', handler);
+  }
+
+  async nextSequence(sessionId: string): Promise<number> {
+    const seq = (this.sequences.get(sessionId) || 0) + 1;
+    this.sequences.set(sessionId, seq);
+    return seq;
+  }
+
+  forgetSession(sessionId: string) {
+    this.sequences.delete(sessionId);
+  }
+
+  async close(): Promise<void> {
+    this.emitter.removeAllListeners();
+  }
+}
+
+// NOTIFY payloads are limited to 8000 bytes; larger events (synthesized audio) are stored
+const MAX_NOTIFY_BYTES = 7500;
+const PAYLOAD_RETENTION_MINUTES = 5;
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * Multi-instance bus over Postgres LISTEN/NOTIFY.
+ * Events are delivered to local subscribers immediately and to other instances
+ * through NOTIFY; each instance ignores its own notifications.
+ */
+export class PostgresSessionBus implements SessionEventBus {
+  readonly name = 'postgres';
+  readonly instanceId = randomUUID();
+  private emitter = new EventEmitter();
+  private listener: PoolClient | null = null;
+  private ready: Promise<void>;
+  private delivery: Promise<void> = Promise.resolve(); // Keeps remote events in NOTIFY order
+  private pruneTimer: NodeJS.Timeout;
+  private closed = false;
+
+  constructor(private pool: Pool, private channel: string = 'nihki_session_events') {
+    this.emitter.setMaxListeners(0);
+    this.ready = this.listen();
+    this.pruneTimer = setInterval(() => {
+      this.pruneStoredPayloads().catch(error => console.error('[SessionBus] Failed to prune stored payloads:', error));
+    }, 60 * 1000);
+    this.pruneTimer.unref();
+  }
+
+  async publish(event: SessionEvent): Promise<void> {
+    this.emitter.emit('event', event, this.instanceId);
+
+    await this.ready;
+    let payload = JSON.stringify({ origin: this.instanceId, event } satisfies Envelope);
+    if (Buffer.byteLength(payload) > MAX_NOTIFY_BYTES) {
+      const { rows } = await this.pool.query<{ id: string }>(
+        'INSERT INTO session_event_payloads (payload) VALUES ($1) RETURNING id',
+        [payload]
+      );
+      payload = JSON.stringify({ origin: this.instanceId, ref: rows[0].id } satisfies Envelope);
+    }
+    await this.pool.query('SELECT pg_notify($1, $2)', [this.channel, payload]);
+  }
+
+  subscribe(handler: SessionEventHandler): () => void {
+    this.emitter.on('event', handler);
+    return () => this.emitter.off('event', handler);
+  }
+
+  // Counter lives in session_event_sequences so every instance draws from the same sequence
+  async nextSequence(sessionId: string): Promise<number> {
+    const { rows } = await this.pool.query<{ last_seq: number }>(
+      `INSERT INTO session_event_sequences (session_id, last_seq) VALUES ($1, 1)
+       ON CONFLICT (session_id) DO UPDATE SET last_seq = session_event_sequences.last_seq + 1
+       RETURNING last_seq`,
+      [sessionId]
+    );
+    return rows[0].last_seq;
+  }
+
+  // Counters are removed with their session
+  forgetSession(_sessionId: string) {}
+
+  async close(): Promise<void> {
+    this.closed = true;
+    clearInterval(this.pruneTimer);
+    this.emitter.removeAllListeners();
+    if (this.listener) {
+      await this.listener.query(`UNLISTEN ${this.channel}`).catch(() => {});
+      this.listener.release();
+      this.listener = null;
+    }
+  }
+
+  private async listen(): Promise<void> {
+    try {
+      const client = await this.pool.connect();
+      client.on('notification', (message) => {
+        if (message.channel === this.channel && message.payload) {
+          const payload = message.payload;
+          this.delivery = this.delivery.then(() => this.handleNotification(payload));
+        }
+      });
+      client.on('error', (error) => {
+        console.error('[SessionBus] ❌ Listener connection failed:', error);
+        this.reconnect(client);
+      });
+      await client.query(`LISTEN ${this.channel}`);
+      this.listener = client;
+      console.log(`[SessionBus] 📡 Instance ${this.instanceId} listening on ${this.channel}`);
+    } catch (error) {
+      console.error('[SessionBus] ❌ Failed to start listening, retrying:', error);
+      setTimeout(() => {
+        if (!this.closed) this.ready = this.listen();
+      }, RECONNECT_DELAY_MS).unref();
+    }
+  }
+
+  // Events published by other instances while disconnected are lost
+  private reconnect(client: PoolClient) {
+    if (this.listener === client) {
+      this.listener = null;
+    }
+    client.release(true);
+    if (!this.closed) {
+      setTimeout(() => {
+        if (!this.closed) this.ready = this.listen();
+      }, RECONNECT_DELAY_MS).unref();
+    }
+  }
+
+  private async handleNotification(payload: string): Promise<void> {
+    try {
+      const envelope = JSON.parse(payload) as Envelope;
+      if (envelope.origin === this.instanceId) {
+        return;
+      }
+
+      let event = envelope.event;
+      if (!event && envelope.ref) {
+        const { rows } = await this.pool.query<{ payload: string }>(
+          'SELECT payload FROM session_event_payloads WHERE id = $1',
+          [envelope.ref]
+        );
+        event = rows[0] ? (JSON.parse(rows[0].payload) as Envelope).event : undefined;
+      }
+
+      if (event) {
+        this.emitter.emit('event', event, envelope.origin);
+      } else {
+        console.warn(`[SessionBus] ⚠️ Dropped notification from ${envelope.origin}: payload missing`);
+      }
+    } catch (error) {
+      console.error('[SessionBus] ❌ Failed to handle notification:', error);
+    }
+  }
+
+  private async pruneStoredPayloads(): Promise<void> {
+    await this.pool.query(
+      `DELETE FROM session_event_payloads WHERE created_at < now() - interval '${PAYLOAD_RETENTION_MINUTES} minutes'`
+    );
+  }
+}
+
+/**
+ * Build the bus from environment:
+ * - SESSION_BUS: "memory" (default, single instance) or "postgres" (LISTEN/NOTIFY across instances)
+ */
+export async function createSessionEventBus(name: string = process.env.SESSION_BUS || 'memory'): Promise<SessionEventBus> {
+  switch (name.toLowerCase()) {
+    case 'postgres': {
+      const { pool } = await import('../db');
+      return new PostgresSessionBus(pool);
+    }
+    case 'memory':
+      return new InProcessSessionBus();
+    default:
+      throw new Error(`Unknown session bus: ${name}. Available: memory, postgres`);
+  }
+}
@@ -0,0 +1,61 @@
+import type { Session, SessionStatus } from '@shared/schema';
+
+/**
+ * Session lifecycle.
+ *   draft ──schedule──▶ scheduled
+ *   draft / scheduled ──start──▶ live ◀──resume── paused
+ *   live ──pause──▶ paused
+ *   any state but ended ──end──▶ ended
+ * Only live sessions accept audio; ended sessions keep their transcript.
+ */
+
+export const sessionActions = ['schedule', 'start', 'pause', 'resume', 'end'] as const;
+export type SessionAction = typeof sessionActions[number];
+
+const TRANSITIONS: Record<SessionAction, { from: SessionStatus[]; to: SessionStatus }> = {
+  schedule: { from: ['draft', 'scheduled'], to: 'scheduled' },
+  start: { from: ['draft', 'scheduled'], to: 'live' },
+  pause: { from: ['live'], to: 'paused' },
+  resume: { from: ['paused'], to: 'live' },
+  end: { from: ['draft', 'scheduled', 'live', 'paused'], to: 'ended' },
+};
+
+export class SessionTransitionError extends Error {
+  constructor(public action: SessionAction, public from: SessionStatus) {
+    super(`Cannot ${action} a session that is ${from}`);
+    this.name = 'SessionTransitionError';
+  }
+}
+
+export function acceptsAudio(status: SessionStatus): boolean {
+  return status === 'live';
+}
+
+// Column updates for applying an action to a session; throws if the action is not allowed
+export function planTransition(
+  session: Session,
+  action: SessionAction,
+  options: { scheduledStartAt?: Date; now?: Date } = {}
+): Partial<Session> & { status: SessionStatus } {
+  const transition = TRANSITIONS[action];
+  if (!transition.from.includes(session.status)) {
+    throw new SessionTransitionError(action, session.status);
+  }
+
+  const now = options.now || new Date();
+  const updates: Partial<Session> & { status: SessionStatus } = {
+    status: transition.to,
+    isActive: transition.to === 'live',
+  };
+
+  if (action === 'schedule') {
+    updates.scheduledStartAt = options.scheduledStartAt || null;
+  }
+  if (action === 'start' && !session.startedAt) {
+    updates.startedAt = now;
+  }
+  if (action === 'end') {
+    updates.endedAt = now;
+  }
+  return updates;
+}
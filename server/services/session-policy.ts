@@ -0,0 +1,91 @@
+import type { Participant, Session } from '@shared/schema';
+
+/**
+ * Authorization policy for session and participant mutations.
+ * A request acts as a logged-in account, a participant (through its signed
+ * token), or both. The session host and co-hosts may manage the session,
+ * moderators run the floor (speaking, muting, raised hands), the Q&A and the chat, and attendees
+ * may only change their own participant record.
+ */
+
+export interface Actor {
+  userId: string | null; // Logged-in account
+  participantId: string | null; // Participant proven by a valid token
+}
+
+export type SessionRole = 'host' | 'co-host' | 'moderator' | 'participant' | 'none';
+
+export type SessionPermission =
+  | 'update-session'
+  | 'change-session-state'
+  | 'delete-session'
+  | 'manage-speakers'
+  | 'grant-speaking'
+  | 'mute-speakers'
+  | 'manage-hand-raises'
+  | 'assign-roles'
+  | 'admit-participants'
+  | 'remove-participants'
+  | 'moderate-questions'
+  | 'moderate-chat'
+  | 'make-announcements';
+
+const PERMISSIONS: Record<SessionPermission, SessionRole[]> = {
+  'update-session': ['host', 'co-host'],
+  'change-session-state': ['host', 'co-host'],
+  'delete-session': ['host'], // Destroys the transcript, so only the owner
+  'manage-speakers': ['host', 'co-host'],
+  'grant-speaking': ['host', 'co-host', 'moderator'],
+  'mute-speakers': ['host', 'co-host', 'moderator'],
+  'manage-hand-raises': ['host', 'co-host', 'moderator'],
+  'assign-roles': ['host'],
+  'admit-participants': ['host', 'co-host'],
+  'remove-participants': ['host', 'co-host'],
+  'moderate-questions': ['host', 'co-host', 'moderator'],
+  'moderate-chat': ['host', 'co-host', 'moderator'],
+  'make-announcements': ['host', 'co-host'],
+};
+
+// Most privileged first
+const ROLE_RANK: SessionRole[] = ['host', 'co-host', 'moderator', 'participant', 'none'];
+const STAFF_ROLES: SessionRole[] = ['host', 'co-host', 'moderator'];
+
+export function roleCan(role: SessionRole, permission: SessionPermission): boolean {
+  return PERMISSIONS[permission].includes(role);
+}
+
+// Unknown and attendee roles (participant, guest) have no privileges
+export function parseSessionRole(role: string): SessionRole {
+  return STAFF_ROLES.includes(role as SessionRole) ? role as SessionRole : 'participant';
+}
+
+export function participantRole(participant: Participant): SessionRole {
+  return parseSessionRole(participant.role);
+}
+
+export function ownsParticipant(actor: Actor, participant: Participant): boolean {
+  if (actor.participantId === participant.id) {
+    return true;
+  }
+  return !!actor.userId && participant.userId === actor.userId;
+}
+
+// Highest role the actor holds in the session, given the session's participants
+export function resolveSessionRole(session: Session, actor: Actor, participants: Participant[]): SessionRole {
+  if (actor.userId && session.hostUserId === actor.userId) {
+    return 'host';
+  }
+
+  let role: SessionRole = 'none';
+  for (const participant of participants) {
+    // A removed participant's role went with them
+    if (participant.sessionId !== session.id || participant.admission === 'removed' || !ownsParticipant(actor, participant)) {
+      continue;
+    }
+    const candidate = participantRole(participant);
+    if (ROLE_RANK.indexOf(candidate) < ROLE_RANK.indexOf(role)) {
+      role = candidate;
+    }
+  }
+  return role;
+}
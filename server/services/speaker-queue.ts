@@ -0,0 +1,75 @@
+import type { Participant } from '@shared/schema';
+
+/**
+ * Speaker queue: admitted attendees with a raised hand, in the order they raised it
+ * unless a floor manager reordered them. "Next speaker" promotes the head of the
+ * queue, optionally for a limited time enforced by SpeakingTimers.
+ */
+
+export class SpeakerQueueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpeakerQueueError';
+  }
+}
+
+export function getSpeakerQueue(participants: Participant[]): Participant[] {
+  return participants
+    .filter(participant => participant.handRaised && participant.admission === 'admitted')
+    .sort((a, b) =>
+      (a.queuePosition ?? Number.MAX_SAFE_INTEGER) - (b.queuePosition ?? Number.MAX_SAFE_INTEGER)
+      || (a.handRaisedAt?.getTime() ?? 0) - (b.handRaisedAt?.getTime() ?? 0)
+    );
+}
+
+// Position for a newly raised hand: behind everyone already queued
+export function nextQueuePosition(participants: Participant[]): number {
+  return participants.reduce((max, participant) => Math.max(max, participant.queuePosition ?? 0), 0) + 1;
+}
+
+// New positions for a reordered queue; the request must list exactly the queued participants
+export function reorderSpeakerQueue(queue: Participant[], participantIds: string[]): Array<{ id: string; queuePosition: number }> {
+  const queued = new Set(queue.map(participant => participant.id));
+  if (participantIds.length !== queued.size || new Set(participantIds).size !== queued.size
+    || !participantIds.every(id => queued.has(id))) {
+    throw new SpeakerQueueError('The queue changed; reload it and try again');
+  }
+  return participantIds.map((id, index) => ({ id, queuePosition: index + 1 }));
+}
+
+// Speakers are warned 30 seconds before their time is up (a quarter of short turns)
+export function speakingWarningLeadMs(timeLimitMs: number): number {
+  return Math.min(30 * 1000, timeLimitMs / 4);
+}
+
+// Warning and expiry timers of time-limited speakers on this instance, by participant id.
+// Handlers re-check the participant before acting, since another instance may have
+// changed their turn in the meantime.
+export class SpeakingTimers {
+  private timers = new Map<string, NodeJS.Timeout[]>();
+
+  start(
+    participantId: string,
+    speakingUntil: Date,
+    handlers: { warn: (remainingSeconds: number) => void; expire: () => void },
+    now: number = Date.now()
+  ) {
+    this.cancel(participantId);
+    const remainingMs = Math.max(0, speakingUntil.getTime() - now);
+    const leadMs = speakingWarningLeadMs(remainingMs);
+
+    const warning = setTimeout(() => handlers.warn(Math.round(leadMs / 1000)), remainingMs - leadMs);
+    const expiry = setTimeout(() => {
+      this.timers.delete(participantId);
+      handlers.expire();
+    }, remainingMs);
+    warning.unref();
+    expiry.unref();
+    this.timers.set(participantId, [warning, expiry]);
+  }
+
+  cancel(participantId: string) {
+    this.timers.get(participantId)?.forEach(clearTimeout);
+    this.timers.delete(participantId);
+  }
+}
@@ -0,0 +1,262 @@
+import { v1 as speechV1 } from '@google-cloud/speech';
+import { EventEmitter } from 'events';
+import { readFileSync } from 'fs';
+import { createGoogleAuth } from './google-auth';
+
+/**
+ * Speech-to-text provider abstraction used by the streaming recognizers.
+ * A provider turns a stream of raw audio into recognition results, so the
+ * live pipeline can run against Google Cloud or a scripted local stand-in.
+ */
+
+export interface RecognitionConfig {
+  sampleRate: number;
+  languageCode: string;
+  alternativeLanguageCodes?: string[];
+  phraseHints?: string[]; // Terms to bias recognition towards (glossary, names)
+  encoding?: 'LINEAR16' | 'WEBM_OPUS';
+  model?: string;
+}
+
+export interface RecognitionResult {
+  transcript: string;
+  confidence: number;
+  isFinal: boolean;
+  languageCode?: string;
+}
+
+/**
+ * A single recognition stream. Emits:
+ * - 'result' (RecognitionResult) for interim and final results
+ * - 'speech-end' when the provider detects the end of an utterance
+ * - 'error' (Error) on failure
+ * - 'end' when the stream has closed
+ */
+export interface RecognitionStream extends EventEmitter {
+  write(audioChunk: Buffer): void;
+  end(): void;
+}
+
+export interface SpeechRecognitionProvider {
+  readonly name: string;
+  createStream(config: RecognitionConfig): RecognitionStream;
+}
+
+// Google Cloud Speech-to-Text (V1 streaming API)
+class GoogleRecognitionStream extends EventEmitter implements RecognitionStream {
+  private stream: any;
+
+  constructor(client: speechV1.SpeechClient, config: RecognitionConfig) {
+    super();
+
+    this.stream = client
+      .streamingRecognize({
+        config: {
+          encoding: config.encoding || 'LINEAR16',
+          sampleRateHertz: config.sampleRate,
+          languageCode: config.languageCode,
+          enableAutomaticPunctuation: true,
+          model: config.model || 'default',
+          useEnhanced: true,
+          alternativeLanguageCodes: config.alternativeLanguageCodes,
+          speechContexts: config.phraseHints?.length ? [{ phrases: config.phraseHints }] : undefined,
+        },
+        interimResults: true,
+        singleUtterance: false,
+      })
+      .on('error', (error: any) => this.emit('error', error))
+      .on('data', (data: any) => this.handleResponse(data))
+      .on('end', () => this.emit('end'));
+  }
+
+  private handleResponse(data: any) {
+    if (data.speechEventType === 'END_OF_SINGLE_UTTERANCE') {
+      this.emit('speech-end');
+    }
+
+    const result = data.results?.[0];
+    const alternative = result?.alternatives?.[0];
+    if (!alternative) {
+      return;
+    }
+
+    const recognitionResult: RecognitionResult = {
+      transcript: alternative.transcript || '',
+      confidence: alternative.confidence || 0,
+      isFinal: !!result.isFinal,
+      languageCode: result.languageCode || undefined,
+    };
+    this.emit('result', recognitionResult);
+  }
+
+  write(audioChunk: Buffer) {
+    this.stream.write(audioChunk);
+  }
+
+  end() {
+    this.stream.end();
+  }
+}
+
+export class GoogleSpeechProvider implements SpeechRecognitionProvider {
+  readonly name = 'google';
+  private client: speechV1.SpeechClient | null = null;
+
+  createStream(config: RecognitionConfig): RecognitionStream {
+    // Create the client lazily so local runs never touch Google credentials
+    if (!this.client) {
+      this.client = new speechV1.SpeechClient({ auth: createGoogleAuth() });
+    }
+    return new GoogleRecognitionStream(this.client, config);
+  }
+}
+
+// Local stand-in: replays scripted transcripts against incoming audio (PCM or Opus)
+export interface ScriptedUtterance {
+  text: string;
+  languageCode?: string;
+  confidence?: number;
+}
+
+export interface LocalSpeechProviderOptions {
+  script?: ScriptedUtterance[];
+  msPerWord?: number; // Audio duration needed to "recognize" one word
+}
+
+// Opus chunks are clocked by arrival; a longer gap (microphone off) counts as this much audio
+const MAX_OPUS_CHUNK_GAP_MS = 1000;
+
+const DEFAULT_SCRIPT: ScriptedUtterance[] = [
+  { text: 'Good morning everyone and welcome to the session.' },
+  { text: 'Today we will walk through the agenda together.' },
+  { text: 'Please raise your hand if you have any questions.' },
+];
+
+class LocalRecognitionStream extends EventEmitter implements RecognitionStream {
+  private receivedMs = 0;
+  private lastChunkAt: number | null = null;
+  private utteranceIndex = 0;
+  private wordsEmitted = 0;
+  private ended = false;
+
+  constructor(
+    private config: RecognitionConfig,
+    private script: ScriptedUtterance[],
+    private msPerWord: number
+  ) {
+    super();
+  }
+
+  write(audioChunk: Buffer) {
+    if (this.ended || this.script.length === 0) {
+      return;
+    }
+
+    this.receivedMs += this.chunkDurationMs(audioChunk);
+
+    const utterance = this.script[this.utteranceIndex % this.script.length];
+    const words = utterance.text.split(/\s+/).filter(Boolean);
+    const wordsDue = Math.min(words.length, Math.floor(this.receivedMs / this.msPerWord));
+
+    if (wordsDue <= this.wordsEmitted) {
+      return;
+    }
+
+    this.wordsEmitted = wordsDue;
+    const isFinal = wordsDue === words.length;
+
+    const recognitionResult: RecognitionResult = {
+      transcript: words.slice(0, wordsDue).join(' '),
+      confidence: utterance.confidence ?? 0.9,
+      isFinal,
+      languageCode: utterance.languageCode || this.config.languageCode,
+    };
+    this.emit('result', recognitionResult);
+
+    if (isFinal) {
+      // Advance to the next scripted utterance, starting its clock from zero
+      this.utteranceIndex++;
+      this.wordsEmitted = 0;
+      this.receivedMs = 0;
+    }
+  }
+
+  private chunkDurationMs(audioChunk: Buffer): number {
+    if ((this.config.encoding || 'LINEAR16') === 'LINEAR16') {
+      // LINEAR16 mono: 2 bytes per sample
+      return (audioChunk.length / 2 / this.config.sampleRate) * 1000;
+    }
+
+    // Opus frames vary in size, so the byte count says nothing about duration; clients capture
+    // and send in real time, so the time between chunks does
+    const now = Date.now();
+    const elapsed = this.lastChunkAt === null ? 0 : Math.min(now - this.lastChunkAt, MAX_OPUS_CHUNK_GAP_MS);
+    this.lastChunkAt = now;
+    return elapsed;
+  }
+
+  end() {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    setImmediate(() => this.emit('end'));
+  }
+}
+
+export class LocalSpeechProvider implements SpeechRecognitionProvider {
+  readonly name = 'local';
+  private script: ScriptedUtterance[];
+  private msPerWord: number;
+
+  constructor(options: LocalSpeechProviderOptions = {}) {
+    this.script = options.script || DEFAULT_SCRIPT;
+    this.msPerWord = options.msPerWord || 300;
+  }
+
+  createStream(config: RecognitionConfig): RecognitionStream {
+    return new LocalRecognitionStream(config, this.script, this.msPerWord);
+  }
+}
+
+// Load a local script from LOCAL_STT_SCRIPT (JSON array of strings or utterances)
+function loadLocalScript(): ScriptedUtterance[] | undefined {
+  const scriptPath = process.env.LOCAL_STT_SCRIPT;
+  if (!scriptPath) {
+    return undefined;
+  }
+
+  try {
+    const entries = JSON.parse(readFileSync(scriptPath, 'utf8'));
+    return (entries as Array<string | ScriptedUtterance>).map(entry =>
+      typeof entry === 'string' ? { text: entry } : entry
+    );
+  } catch (error) {
+    console.error(`[STT] Failed to load local script from ${scriptPath}:`, error);
+    return undefined;
+  }
+}
+
+const providers = new Map<string, SpeechRecognitionProvider>();
+
+// Resolve a provider by name (defaults to STT_PROVIDER, then Google)
+export function getSpeechRecognitionProvider(
+  name: string = process.env.STT_PROVIDER || 'google'
+): SpeechRecognitionProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    if (name === 'local') {
+      provider = new LocalSpeechProvider({
+        script: loadLocalScript(),
+        msPerWord: process.env.LOCAL_STT_MS_PER_WORD ? parseInt(process.env.LOCAL_STT_MS_PER_WORD, 10) : undefined,
+      });
+    } else if (name === 'google') {
+      provider = new GoogleSpeechProvider();
+    } else {
+      throw new Error(`Unknown speech recognition provider: ${name}`);
+    }
+    console.log(`[STT] Using speech recognition provider: ${provider.name}`);
+    providers.set(name, provider);
+  }
+  return provider;
+}
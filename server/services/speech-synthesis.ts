@@ -0,0 +1,232 @@
+import { generateSpeech as googleGenerateSpeech } from './googlecloud';
+import { generateSpeech as openaiGenerateSpeech } from './openai';
+
+/**
+ * Text-to-speech provider abstraction.
+ * Each provider synthesizes text in a language with an optional voice and
+ * reports the audio MIME type so clients can play it back correctly.
+ */
+
+export interface SynthesisRequest {
+  text: string;
+  languageCode: string;
+  voice?: string | null;
+}
+
+export interface SynthesizedAudio {
+  audio: Buffer;
+  mimeType: string;
+}
+
+export interface VoiceOption {
+  name: string;
+  label: string;
+  gender: string;
+}
+
+export interface SpeechSynthesisProvider {
+  readonly name: string;
+  readonly audioConfig: string; // Output format and synthesis settings, part of audio cache keys
+  synthesize(request: SynthesisRequest): Promise<SynthesizedAudio>;
+  listVoices(languageCode: string): VoiceOption[];
+}
+
+// Voice options for each language (male/female/neutral variations)
+const GOOGLE_VOICE_OPTIONS: Record<string, VoiceOption[]> = {
+  'en-US': [
+    { name: 'en-US-Neural2-F', label: 'Female - Warm', gender: 'female' },
+    { name: 'en-US-Neural2-C', label: 'Female - Clear', gender: 'female' },
+    { name: 'en-US-Neural2-D', label: 'Male - Deep', gender: 'male' },
+    { name: 'en-US-Neural2-A', label: 'Male - Friendly', gender: 'male' },
+  ],
+  'es-ES': [
+    { name: 'es-ES-Neural2-A', label: 'Female', gender: 'female' },
+    { name: 'es-ES-Neural2-B', label: 'Male', gender: 'male' },
+  ],
+  'fr-FR': [
+    { name: 'fr-FR-Neural2-A', label: 'Female', gender: 'female' },
+    { name: 'fr-FR-Neural2-B', label: 'Male', gender: 'male' },
+  ],
+  'de-DE': [
+    { name: 'de-DE-Neural2-A', label: 'Female', gender: 'female' },
+    { name: 'de-DE-Neural2-B', label: 'Male', gender: 'male' },
+  ],
+  'it-IT': [
+    { name: 'it-IT-Neural2-A', label: 'Female', gender: 'female' },
+    { name: 'it-IT-Neural2-C', label: 'Male', gender: 'male' },
+  ],
+  'pt-PT': [
+    { name: 'pt-PT-Wavenet-A', label: 'Female', gender: 'female' },
+    { name: 'pt-PT-Wavenet-B', label: 'Male', gender: 'male' },
+  ],
+  'pt-BR': [
+    { name: 'pt-BR-Neural2-A', label: 'Female', gender: 'female' },
+    { name: 'pt-BR-Neural2-B', label: 'Male', gender: 'male' },
+  ],
+  'ja-JP': [
+    { name: 'ja-JP-Neural2-B', label: 'Female', gender: 'female' },
+    { name: 'ja-JP-Neural2-C', label: 'Male', gender: 'male' },
+  ],
+  'ko-KR': [
+    { name: 'ko-KR-Neural2-A', label: 'Female', gender: 'female' },
+    { name: 'ko-KR-Neural2-C', label: 'Male', gender: 'male' },
+  ],
+  'ar-XA': [
+    { name: 'ar-XA-Wavenet-A', label: 'Female', gender: 'female' },
+    { name: 'ar-XA-Wavenet-B', label: 'Male', gender: 'male' },
+    { name: 'ar-XA-Wavenet-C', label: 'Male - Deep', gender: 'male' },
+  ],
+  'ar-SA': [
+    { name: 'ar-XA-Wavenet-A', label: 'Female', gender: 'female' },
+    { name: 'ar-XA-Wavenet-B', label: 'Male', gender: 'male' },
+    { name: 'ar-XA-Wavenet-C', label: 'Male - Deep', gender: 'male' },
+  ],
+  'zh-CN': [
+    { name: 'cmn-CN-Wavenet-A', label: 'Female', gender: 'female' },
+    { name: 'cmn-CN-Wavenet-B', label: 'Male', gender: 'male' },
+  ],
+  'hi-IN': [
+    { name: 'hi-IN-Neural2-A', label: 'Female', gender: 'female' },
+    { name: 'hi-IN-Neural2-B', label: 'Female - Warm', gender: 'female' },
+    { name: 'hi-IN-Neural2-C', label: 'Male', gender: 'male' },
+  ],
+  'ru-RU': [
+    { name: 'ru-RU-Wavenet-A', label: 'Female', gender: 'female' },
+    { name: 'ru-RU-Wavenet-B', label: 'Male', gender: 'male' },
+  ],
+};
+
+export class GoogleSpeechSynthesisProvider implements SpeechSynthesisProvider {
+  readonly name = 'google';
+  readonly audioConfig = 'mp3;rate=1.0;pitch=0.0';
+
+  async synthesize({ text, languageCode, voice }: SynthesisRequest): Promise<SynthesizedAudio> {
+    const audio = await googleGenerateSpeech(text, languageCode, voice || undefined);
+    return { audio, mimeType: 'audio/mpeg' };
+  }
+
+  listVoices(languageCode: string): VoiceOption[] {
+    const voices = GOOGLE_VOICE_OPTIONS[languageCode] || [];
+
+    // If no specific voices found, return default using the language code
+    if (voices.length === 0) {
+      return [{ name: `${languageCode}-Wavenet-A`, label: 'Default', gender: 'neutral' }];
+    }
+    return voices;
+  }
+}
+
+const OPENAI_VOICES: VoiceOption[] = [
+  { name: 'nova', label: 'Female - Bright', gender: 'female' },
+  { name: 'shimmer', label: 'Female - Soft', gender: 'female' },
+  { name: 'alloy', label: 'Neutral', gender: 'neutral' },
+  { name: 'echo', label: 'Male', gender: 'male' },
+  { name: 'onyx', label: 'Male - Deep', gender: 'male' },
+  { name: 'fable', label: 'Male - Expressive', gender: 'male' },
+];
+
+// OpenAI voices are multilingual, so the language only comes from the text
+export class OpenAISpeechSynthesisProvider implements SpeechSynthesisProvider {
+  readonly name = 'openai';
+  readonly audioConfig = 'tts-1;mp3';
+
+  async synthesize({ text, voice }: SynthesisRequest): Promise<SynthesizedAudio> {
+    const openaiVoice = OPENAI_VOICES.some(v => v.name === voice) ? voice! : 'nova';
+    const audio = await openaiGenerateSpeech(text, openaiVoice);
+    return { audio, mimeType: 'audio/mpeg' };
+  }
+
+  listVoices(): VoiceOption[] {
+    return OPENAI_VOICES;
+  }
+}
+
+const LOCAL_VOICES: VoiceOption[] = [
+  { name: 'local-high', label: 'Local - High', gender: 'neutral' },
+  { name: 'local-low', label: 'Local - Low', gender: 'neutral' },
+];
+
+// Encode 16-bit mono PCM samples as a WAV file
+function encodeWav(samples: Int16Array, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + samples.byteLength, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);             // PCM chunk size
+  header.writeUInt16LE(1, 20);              // PCM format
+  header.writeUInt16LE(1, 22);              // Mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28); // Byte rate
+  header.writeUInt16LE(2, 32);              // Block align
+  header.writeUInt16LE(16, 34);             // Bits per sample
+  header.write('data', 36);
+  header.writeUInt32LE(samples.byteLength, 40);
+
+  return Buffer.concat([header, Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength)]);
+}
+
+/**
+ * Local stand-in: produces a deterministic WAV with one short tone per word.
+ * The pitch depends on language and voice so different groups are audibly distinct.
+ */
+export class LocalSpeechSynthesisProvider implements SpeechSynthesisProvider {
+  readonly name = 'local';
+  private readonly SAMPLE_RATE = 16000;
+  private readonly TONE_MS = 180;
+  private readonly GAP_MS = 70;
+  readonly audioConfig = `wav;${this.SAMPLE_RATE}hz`;
+
+  async synthesize({ text, languageCode, voice }: SynthesisRequest): Promise<SynthesizedAudio> {
+    const words = Math.max(1, text.split(/\s+/).filter(Boolean).length);
+    const toneSamples = Math.round(this.SAMPLE_RATE * this.TONE_MS / 1000);
+    const gapSamples = Math.round(this.SAMPLE_RATE * this.GAP_MS / 1000);
+    const samples = new Int16Array(words * (toneSamples + gapSamples));
+
+    const seed = `${languageCode}|${voice || ''}`;
+    let hash = 0;
+    for (let i = 0; i < seed.length; i++) {
+      hash = (hash * 31 + seed.charCodeAt(i)) >>> 0;
+    }
+    const baseFrequency = (voice === 'local-low' ? 160 : 320) + (hash % 160);
+
+    for (let w = 0; w < words; w++) {
+      const offset = w * (toneSamples + gapSamples);
+      const frequency = baseFrequency * (w % 2 === 0 ? 1 : 1.25);
+      for (let i = 0; i < toneSamples; i++) {
+        // Short fade in/out to avoid clicks
+        const envelope = Math.min(1, i / 160, (toneSamples - i) / 160);
+        samples[offset + i] = Math.round(Math.sin(2 * Math.PI * frequency * i / this.SAMPLE_RATE) * 8000 * envelope);
+      }
+    }
+
+    return { audio: encodeWav(samples, this.SAMPLE_RATE), mimeType: 'audio/wav' };
+  }
+
+  listVoices(): VoiceOption[] {
+    return LOCAL_VOICES;
+  }
+}
+
+const providers = new Map<string, SpeechSynthesisProvider>();
+
+// Resolve a provider by name (defaults to TTS_PROVIDER, then Google)
+export function getSpeechSynthesisProvider(
+  name: string = process.env.TTS_PROVIDER || 'google'
+): SpeechSynthesisProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    if (name === 'google') {
+      provider = new GoogleSpeechSynthesisProvider();
+    } else if (name === 'openai') {
+      provider = new OpenAISpeechSynthesisProvider();
+    } else if (name === 'local') {
+      provider = new LocalSpeechSynthesisProvider();
+    } else {
+      throw new Error(`Unknown speech synthesis provider: ${name}`);
+    }
+    console.log(`[TTS] Using speech synthesis provider: ${provider.name}`);
+    providers.set(name, provider);
+  }
+  return provider;
+}
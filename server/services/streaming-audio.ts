@@ -1,35 +1,28 @@
-import { v1 as speechV1 } from '@google-cloud/speech';
-import { GoogleAuth } from 'google-auth-library';
 import { EventEmitter } from 'events';
-
-// Initialize Google Cloud Speech client (using V1 explicitly)
-const credentials = process.env.GOOGLE_APPLICATION_CREDENTIALS
-  ? JSON.parse(process.env.GOOGLE_APPLICATION_CREDENTIALS)
-  : undefined;
-
-// Fix private key newlines and ensure proper PEM format
-if (credentials && credentials.private_key) {
-  credentials.private_key = credentials.private_key
-    .replace(/\\n/g, '\n') // Replace literal \n with actual newline
-    .replace(/\r\n/g, '\n') // Normalize CRLF to LF
-    .replace(/\r/g, '\n')   // Normalize CR to LF
-    .trim();                // Remove surrounding whitespace
+import {
+  getSpeechRecognitionProvider,
+  type RecognitionResult,
+  type RecognitionStream,
+  type SpeechRecognitionProvider
+} from './speech-recognition';
+
+// Payload of the 'sentence' event
+export interface SentenceEvent {
+  text: string;
+  language: string;       // Locale detected for this sentence (falls back to the stream language)
+  streamLanguage: string; // Primary locale the stream was configured with
+  confidence: number;
+  participantId: string;
+  speakerName: string;
+  sessionId: string;
 }
 
-const auth = credentials
-  ? new GoogleAuth({
-    credentials,
-    scopes: ['https://www.googleapis.com/auth/cloud-platform'],
-  })
-  : new GoogleAuth();
-
-const speechClient = new speechV1.SpeechClient({ auth });
-
 // Streaming recognizer for a single speaker
 export class SpeakerStreamRecognizer extends EventEmitter {
-  private recognizeStream: any = null;
-  private oldRecognizeStream: any = null; // For stream rotation
+  private recognizeStream: RecognitionStream | null = null;
+  private oldRecognizeStream: RecognitionStream | null = null; // For stream rotation
   private interimTranscript: string = '';
+  private sentenceLanguageWords = new Map<string, number>(); // Detected locale -> word count for the pending sentence
   private sentenceBuffer: string[] = [];
   private isActive: boolean = false;
   private isStarting: boolean = false;
@@ -55,7 +48,8 @@ export class SpeakerStreamRecognizer extends EventEmitter {
   constructor(
     private participantId: string,
     private speakerName: string,
-    private sessionId: string
+    private sessionId: string,
+    private provider: SpeechRecognitionProvider = getSpeechRecognitionProvider()
   ) {
     super();
     this.sampleRate = 16000; // Default, can be updated
@@ -65,26 +59,19 @@ export class SpeakerStreamRecognizer extends EventEmitter {
   // Allow updating stream configuration
   public sampleRate: number;
   public languageCode: string;
+  public alternativeLanguageCodes: string[] = []; // Other languages the speaker may switch to
+  public phraseHints: string[] = []; // Glossary terms passed to the provider as speech contexts
+
+  private createNewStream(): RecognitionStream {
+    console.log(`[Stream] Creating ${this.provider.name} stream with ${this.sampleRate}Hz, lang: ${this.languageCode}`);
+    const stream = this.provider.createStream({
+      sampleRate: this.sampleRate,
+      languageCode: this.languageCode,
+      alternativeLanguageCodes: this.alternativeLanguageCodes,
+      phraseHints: this.phraseHints,
+    });
 
-  private createNewStream() {
-    console.log(`[Stream] Creating stream with ${this.sampleRate}Hz, lang: ${this.languageCode}`);
-    return speechClient
-      .streamingRecognize({
-        config: {
-          encoding: 'LINEAR16' as const,
-          sampleRateHertz: this.sampleRate,
-          languageCode: this.languageCode,
-          enableAutomaticPunctuation: true,
-          model: 'default',
-          useEnhanced: true,
-          alternativeLanguageCodes: [
-            'es-ES', 'fr-FR', 'de-DE', 'it-IT', 'pt-PT',
-            'zh-CN', 'ja-JP', 'ko-KR', 'ar-SA', 'hi-IN'
-          ],
-        },
-        interimResults: true,
-        singleUtterance: false,
-      })
+    stream
       .on('error', (error: any) => {
         console.error(`[Stream] ❌ Error for ${this.speakerName}:`, error);
         this.emit('error', error);
@@ -97,12 +84,14 @@ export class SpeakerStreamRecognizer extends EventEmitter {
 
         this.restart();
       })
-      .on('data', (data: any) => {
-        this.handleStreamingResponse(data);
+      .on('result', (result: RecognitionResult) => {
+        this.handleRecognitionResult(result);
       })
       .on('end', () => {
         console.log(`[Stream] Stream ended for ${this.speakerName}`);
       });
+
+    return stream;
   }
 
   private startStreamRotationCheck() {
@@ -171,7 +160,7 @@ export class SpeakerStreamRecognizer extends EventEmitter {
     this.audioChunkCount = 0;
     this.streamCreatedTime = Date.now();
 
-    // Pass config directly to streamingRecognize() - this is the correct V1 API usage
+    // Open a recognition stream on the configured provider
     this.recognizeStream = this.createNewStream();
 
     console.log(`[Stream] ✅ Stream started successfully for ${this.speakerName}`);
@@ -193,24 +182,13 @@ export class SpeakerStreamRecognizer extends EventEmitter {
     }
   }
 
-  private handleStreamingResponse(data: any) {
+  private handleRecognitionResult(result: RecognitionResult) {
     this.lastActivityTime = Date.now();
 
-    if (!data.results || data.results.length === 0) {
-      return;
-    }
-
-    const result = data.results[0];
-    if (!result.alternatives || result.alternatives.length === 0) {
-      return;
-    }
-
-    const alternative = result.alternatives[0];
-    const transcript = alternative.transcript || '';
-    const confidence = alternative.confidence || 0;
+    const { transcript, confidence } = result;
 
     if (result.isFinal) {
-      // Final result - this is a complete utterance from Google Cloud
+      // Final result - this is a complete utterance from the provider
       console.log(`[Stream] Final: "${transcript}" (confidence: ${confidence.toFixed(2)})`);
 
       if (transcript.trim()) {
@@ -220,6 +198,11 @@ export class SpeakerStreamRecognizer extends EventEmitter {
         // This allows us to wait for complete sentences with proper pauses
         this.interimTranscript += transcript + ' ';
 
+        // Weight the detected language by words so a short aside doesn't flip the sentence
+        const detectedLanguage = result.languageCode || this.languageCode;
+        const words = transcript.trim().split(/\s+/).length;
+        this.sentenceLanguageWords.set(detectedLanguage, (this.sentenceLanguageWords.get(detectedLanguage) || 0) + words);
+
         // Check if this looks like a sentence end
         const hasSentenceEnd = /[.!?]\s*$/.test(transcript);
         const hasMinimumLength = this.interimTranscript.trim().split(' ').length >= 3;
@@ -251,6 +234,31 @@ export class SpeakerStreamRecognizer extends EventEmitter {
     }
   }
 
+  // Language most of the pending sentence was recognized in
+  private getSentenceLanguage(): string {
+    let dominant = this.languageCode;
+    let maxWords = 0;
+    this.sentenceLanguageWords.forEach((words, language) => {
+      if (words > maxWords) {
+        dominant = language;
+        maxWords = words;
+      }
+    });
+    return dominant;
+  }
+
+  private buildSentenceEvent(text: string): SentenceEvent {
+    return {
+      text,
+      language: this.getSentenceLanguage(),
+      streamLanguage: this.languageCode,
+      confidence: 0.8,
+      participantId: this.participantId,
+      speakerName: this.speakerName,
+      sessionId: this.sessionId
+    };
+  }
+
   private scheduleEmissionCheck() {
     // Clear any existing timeout
     if (this.sentenceEmitTimeout) {
@@ -278,17 +286,11 @@ export class SpeakerStreamRecognizer extends EventEmitter {
 
     console.log(`[Stream] Emitting sentence: "${completeSentence}"`);
 
-    this.emit('sentence', {
-      text: completeSentence,
-      language: this.languageCode,
-      confidence: 0.8,
-      participantId: this.participantId,
-      speakerName: this.speakerName,
-      sessionId: this.sessionId
-    });
+    this.emit('sentence', this.buildSentenceEvent(completeSentence));
 
     // Clear the accumulated transcript
     this.interimTranscript = '';
+    this.sentenceLanguageWords.clear();
 
     // Clear any pending timeout
     if (this.sentenceEmitTimeout) {
@@ -368,7 +370,7 @@ export class SpeakerStreamRecognizer extends EventEmitter {
     this.lastActivityTime = Date.now();
     this.audioChunkCount++;
 
-    // Write raw audio buffer directly to stream - V1 API accepts Buffer directly
+    // Write raw audio buffer directly to the provider stream
     this.recognizeStream.write(audioChunk);
 
     // Log every 10 chunks sent (not including filtered frames)
@@ -383,15 +385,9 @@ export class SpeakerStreamRecognizer extends EventEmitter {
   flush() {
     if (this.interimTranscript.trim()) {
       console.log(`[Stream] Flushing accumulated: "${this.interimTranscript}"`);
-      this.emit('sentence', {
-        text: this.interimTranscript.trim(),
-        language: this.languageCode,
-        confidence: 0.8,
-        participantId: this.participantId,
-        speakerName: this.speakerName,
-        sessionId: this.sessionId
-      });
+      this.emit('sentence', this.buildSentenceEvent(this.interimTranscript.trim()));
       this.interimTranscript = '';
+      this.sentenceLanguageWords.clear();
     }
   }
 
@@ -456,7 +452,7 @@ export class StreamingAudioManager {
   private streams = new Map<string, SpeakerStreamRecognizer>();
   private cleanupInterval: NodeJS.Timeout;
 
-  constructor() {
+  constructor(private provider: SpeechRecognitionProvider = getSpeechRecognitionProvider()) {
     // Cleanup inactive streams every 30 seconds
     this.cleanupInterval = setInterval(() => {
       this.cleanupInactiveStreams();
@@ -473,13 +469,19 @@ export class StreamingAudioManager {
     let stream = this.streams.get(key);
     if (!stream) {
       console.log(`[Manager] Creating new stream for ${speakerName}`);
-      stream = new SpeakerStreamRecognizer(participantId, speakerName, sessionId);
+      stream = new SpeakerStreamRecognizer(participantId, speakerName, sessionId, this.provider);
       this.streams.set(key, stream);
     }
 
     return stream;
   }
 
+  getStreamsForSession(sessionId: string): SpeakerStreamRecognizer[] {
+    return Array.from(this.streams.entries())
+      .filter(([key]) => key.startsWith(`${sessionId}:`))
+      .map(([, stream]) => stream);
+  }
+
   stopStream(participantId: string, sessionId: string) {
     const key = `${sessionId}:${participantId}`;
     const stream = this.streams.get(key);
@@ -1,28 +1,10 @@
-import { SpeechClient } from '@google-cloud/speech';
-import { GoogleAuth } from 'google-auth-library';
 import { EventEmitter } from 'events';
-
-const credentials = process.env.GOOGLE_APPLICATION_CREDENTIALS
-  ? JSON.parse(process.env.GOOGLE_APPLICATION_CREDENTIALS)
-  : undefined;
-
-// Fix private key newlines and ensure proper PEM format
-if (credentials && credentials.private_key) {
-  credentials.private_key = credentials.private_key
-    .replace(/\\n/g, '\n') // Replace literal \n with actual newline
-    .replace(/\r\n/g, '\n') // Normalize CRLF to LF
-    .replace(/\r/g, '\n')   // Normalize CR to LF
-    .trim();                // Remove surrounding whitespace
-}
-
-const auth = credentials
-  ? new GoogleAuth({
-    credentials,
-    scopes: ['https://www.googleapis.com/auth/cloud-platform'],
-  })
-  : new GoogleAuth();
-
-const speechClient = new SpeechClient({ auth });
+import {
+  getSpeechRecognitionProvider,
+  type RecognitionResult,
+  type RecognitionStream,
+  type SpeechRecognitionProvider
+} from './speech-recognition';
 
 interface TranscriptionEvent {
   text: string;
@@ -37,12 +19,15 @@ interface SpeechActivityEvent {
 }
 
 export class StreamingTranscriber extends EventEmitter {
-  private recognizeStream: any = null;
+  private recognizeStream: RecognitionStream | null = null;
   private isActive = false;
   private audioQueue: Buffer[] = [];
   private processingQueue = false;
 
-  constructor(private languageCode: string = 'en-US') {
+  constructor(
+    private languageCode: string = 'en-US',
+    private provider: SpeechRecognitionProvider = getSpeechRecognitionProvider()
+  ) {
     super();
   }
 
@@ -55,53 +40,39 @@ export class StreamingTranscriber extends EventEmitter {
     console.log('[StreamingTranscriber] Starting streaming recognition');
     this.isActive = true;
 
-    const request = {
-      config: {
-        encoding: 'WEBM_OPUS' as const,
-        sampleRateHertz: 48000,
+    this.recognizeStream = this.provider
+      .createStream({
+        encoding: 'WEBM_OPUS',
+        sampleRate: 48000,
         languageCode: this.languageCode,
-        enableAutomaticPunctuation: true,
         model: 'latest_long',
-        useEnhanced: true,
         alternativeLanguageCodes: ['es-ES', 'fr-FR', 'de-DE', 'it-IT', 'pt-PT', 'zh-CN', 'ja-JP', 'ko-KR'],
-      },
-      interimResults: true,
-      singleUtterance: false,
-    };
-
-    this.recognizeStream = speechClient
-      .streamingRecognize(request)
+      })
       .on('error', (error: Error) => {
         console.error('[StreamingTranscriber] Stream error:', error);
         this.emit('error', error);
         this.restart();
       })
-      .on('data', (data: any) => {
-        if (data.results && data.results.length > 0) {
-          const result = data.results[0];
-          const alternative = result.alternatives[0];
-
-          if (alternative && alternative.transcript) {
-            const transcription: TranscriptionEvent = {
-              text: alternative.transcript,
-              language: result.languageCode || this.languageCode,
-              confidence: alternative.confidence || 0.9,
-              isFinal: result.isFinal || false,
-            };
-
-            console.log(`[StreamingTranscriber] ${transcription.isFinal ? 'FINAL' : 'interim'}: "${transcription.text}"`);
-            this.emit('transcription', transcription);
-
-            if (transcription.isFinal) {
-              this.emit('final-transcription', transcription);
-            }
+      .on('result', (result: RecognitionResult) => {
+        if (result.transcript) {
+          const transcription: TranscriptionEvent = {
+            text: result.transcript,
+            language: result.languageCode || this.languageCode,
+            confidence: result.confidence || 0.9,
+            isFinal: result.isFinal,
+          };
+
+          console.log(`[StreamingTranscriber] ${transcription.isFinal ? 'FINAL' : 'interim'}: "${transcription.text}"`);
+          this.emit('transcription', transcription);
+
+          if (transcription.isFinal) {
+            this.emit('final-transcription', transcription);
           }
         }
-
-        if (data.speechEventType === 'END_OF_SINGLE_UTTERANCE') {
-          console.log('[StreamingTranscriber] End of utterance detected');
-          this.emit('speech-end');
-        }
+      })
+      .on('speech-end', () => {
+        console.log('[StreamingTranscriber] End of utterance detected');
+        this.emit('speech-end');
       })
       .on('end', () => {
         console.log('[StreamingTranscriber] Stream ended');
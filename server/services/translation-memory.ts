@@ -0,0 +1,206 @@
+import type { TranslationMemoryOutcome } from '@shared/schema';
+import type { IStorage } from '../storage';
+
+/**
+ * Translation memory.
+ * Sentences translated for a host are stored per language pair and reused on
+ * later sessions: exact matches on normalized text first, then close fuzzy
+ * matches, before any provider is called. A fuzzy match must carry the same
+ * numbers, links and addresses, so "at 2 pm" never reuses "at 3 pm".
+ */
+
+export type TranslationMemoryStore = Pick<IStorage,
+  | 'findTranslationMemory'
+  | 'getTranslationMemoryCandidates'
+  | 'saveTranslationMemory'
+  | 'recordTranslationMemoryHit'
+  | 'getTranslationMemorySummary'
+  | 'recordTranslationMemoryLookup'
+  | 'getTranslationMemoryLookups'
+>;
+
+interface TranslationMemoryContext {
+  ownerUserId: string;
+  sessionId?: string; // Attributes hit/miss stats to a session
+}
+
+// Memory bound to one host (and optionally a session), passed with translation options
+export interface ScopedTranslationMemory {
+  lookup(text: string, fromLanguage: string, toLanguage: string): Promise<string | null>;
+  remember(text: string, fromLanguage: string, toLanguage: string, translatedText: string, provider: string): Promise<void>;
+}
+
+export interface TranslationMemoryStats {
+  exactHits: number;
+  fuzzyHits: number;
+  misses: number;
+  hitRate: number;
+}
+
+// Fuzzy matching only for sentences long enough that a few edits don't change the meaning
+const MIN_FUZZY_LENGTH = 20;
+const FUZZY_CANDIDATE_LIMIT = 200;
+
+// Lowercase, unify quotes and collapse whitespace so trivial differences still match exactly
+export function normalizeSource(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Numbers, URLs and email addresses; a fuzzy match must keep every one of them as is
+const PROTECTED_TOKEN = /https?:\/\/\S+|\S+@\S+\.\S+|\d+(?:[.,:/-]\d+)*/g;
+
+export function protectedTokens(normalized: string): string[] {
+  return normalized.match(PROTECTED_TOKEN) || [];
+}
+
+function sameProtectedTokens(a: string, b: string): boolean {
+  const tokensA = protectedTokens(a);
+  const tokensB = protectedTokens(b);
+  return tokensA.length === tokensB.length && tokensA.every((token, i) => token === tokensB[i]);
+}
+
+// Levenshtein similarity in [0, 1]
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+export class TranslationMemory {
+  constructor(
+    private store: TranslationMemoryStore,
+    private fuzzyThreshold: number = Number(process.env.TRANSLATION_MEMORY_FUZZY_THRESHOLD) || 0.9
+  ) {}
+
+  forOwner(ownerUserId: string, sessionId?: string): ScopedTranslationMemory {
+    const context = { ownerUserId, sessionId };
+    return {
+      lookup: (text, fromLanguage, toLanguage) => this.lookup(text, fromLanguage, toLanguage, context),
+      remember: (text, fromLanguage, toLanguage, translatedText, provider) =>
+        this.remember(text, fromLanguage, toLanguage, translatedText, provider, context),
+    };
+  }
+
+  // Returns a remembered translation, or null if the providers need to be called
+  private async lookup(text: string, fromLanguage: string, toLanguage: string, context: TranslationMemoryContext): Promise<string | null> {
+    const normalized = normalizeSource(text);
+
+    try {
+      const exact = await this.store.findTranslationMemory(context.ownerUserId, fromLanguage, toLanguage, normalized);
+      if (exact) {
+        await this.record(context.sessionId, 'exactHits');
+        await this.store.recordTranslationMemoryHit(exact.id);
+        return exact.translatedText;
+      }
+
+      // Glossary placeholders must line up exactly, so only plain sentences are fuzzy-matched
+      if (normalized.length >= MIN_FUZZY_LENGTH && !normalized.includes('[#g')) {
+        const slack = Math.floor(normalized.length * (1 - this.fuzzyThreshold));
+        const candidates = await this.store.getTranslationMemoryCandidates(
+          context.ownerUserId,
+          fromLanguage,
+          toLanguage,
+          normalized.length - slack,
+          normalized.length + slack,
+          FUZZY_CANDIDATE_LIMIT
+        );
+
+        let best: { id: string; translatedText: string; score: number } | null = null;
+        for (const candidate of candidates) {
+          if (!sameProtectedTokens(normalized, candidate.normalizedSource)) {
+            continue;
+          }
+          const score = similarity(normalized, candidate.normalizedSource);
+          if (score >= this.fuzzyThreshold && (!best || score > best.score)) {
+            best = { id: candidate.id, translatedText: candidate.translatedText, score };
+          }
+        }
+
+        if (best) {
+          console.log(`[TM] Fuzzy hit (${best.score.toFixed(2)}) for ${fromLanguage} → ${toLanguage}`);
+          await this.record(context.sessionId, 'fuzzyHits');
+          await this.store.recordTranslationMemoryHit(best.id);
+          return best.translatedText;
+        }
+      }
+    } catch (error) {
+      // The memory is an optimization - fall through to the providers
+      console.error('[TM] Lookup failed:', error);
+    }
+
+    await this.record(context.sessionId, 'misses');
+    return null;
+  }
+
+  private async remember(
+    text: string,
+    fromLanguage: string,
+    toLanguage: string,
+    translatedText: string,
+    provider: string,
+    context: TranslationMemoryContext
+  ): Promise<void> {
+    const normalizedSource = normalizeSource(text);
+    if (!normalizedSource || !translatedText.trim()) {
+      return;
+    }
+
+    try {
+      await this.store.saveTranslationMemory({
+        ownerUserId: context.ownerUserId,
+        sourceLanguage: fromLanguage,
+        targetLanguage: toLanguage,
+        sourceText: text,
+        normalizedSource,
+        sourceLength: normalizedSource.length,
+        translatedText,
+        provider,
+      });
+    } catch (error) {
+      console.error('[TM] Failed to store translation:', error);
+    }
+  }
+
+  async getSessionStats(sessionId: string): Promise<TranslationMemoryStats> {
+    const stats = await this.store.getTranslationMemoryLookups(sessionId);
+    const lookups = stats.exactHits + stats.fuzzyHits + stats.misses;
+    return {
+      ...stats,
+      hitRate: lookups > 0 ? (stats.exactHits + stats.fuzzyHits) / lookups : 0,
+    };
+  }
+
+  getSummary(ownerUserId: string): Promise<{ entries: number; totalHits: number }> {
+    return this.store.getTranslationMemorySummary(ownerUserId);
+  }
+
+  private async record(sessionId: string | undefined, outcome: TranslationMemoryOutcome) {
+    if (!sessionId) {
+      return;
+    }
+    try {
+      await this.store.recordTranslationMemoryLookup(sessionId, outcome);
+    } catch (error) {
+      console.error('[TM] Failed to record lookup:', error);
+    }
+  }
+}
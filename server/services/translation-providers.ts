@@ -0,0 +1,269 @@
+import { readFileSync } from 'fs';
+import { translateText as googleTranslate } from './googlecloud';
+import { translateText as openaiTranslate } from './openai';
+import type { GlossaryEntry } from './glossary';
+import type { ScopedTranslationMemory } from './translation-memory';
+
+/**
+ * Translation provider registry.
+ * Resolves an ordered chain of providers for a session or language pair and
+ * falls back to the next provider when one fails (after its own retries).
+ */
+
+export interface TranslationProvider {
+  readonly name: string;
+  readonly cacheable?: boolean; // false: results must not go into translation memory (default true)
+  translate(text: string, fromLanguage: string, toLanguage: string): Promise<string>;
+}
+
+export interface TranslationOptions {
+  providers?: string[] | null; // Session-level provider chain
+  glossary?: GlossaryEntry[];   // Terms to keep or force (applied by translateAudio)
+  memory?: ScopedTranslationMemory; // Translation memory consulted before any provider
+}
+
+export interface ProviderTranslation {
+  text: string;
+  provider: string;
+  cacheable: boolean;
+}
+
+// Thrown when every provider in the chain failed
+export class TranslationUnavailableError extends Error {
+  constructor(
+    public fromLanguage: string,
+    public toLanguage: string,
+    public failures: Array<{ provider: string; message: string }>
+  ) {
+    super(`No translation provider succeeded for ${fromLanguage} → ${toLanguage}: ${
+      failures.map(f => `${f.provider} (${f.message})`).join(', ') || 'no providers configured'
+    }`);
+    this.name = 'TranslationUnavailableError';
+  }
+}
+
+export class GoogleTranslationProvider implements TranslationProvider {
+  readonly name = 'google';
+
+  translate(text: string, fromLanguage: string, toLanguage: string): Promise<string> {
+    return googleTranslate(text, fromLanguage, toLanguage);
+  }
+}
+
+export class OpenAITranslationProvider implements TranslationProvider {
+  readonly name = 'openai';
+
+  translate(text: string, fromLanguage: string, toLanguage: string): Promise<string> {
+    return openaiTranslate(text, fromLanguage, toLanguage);
+  }
+}
+
+// Dictionary: target language -> (lowercase source phrase or word -> translation)
+export type OfflineDictionary = Record<string, Record<string, string>>;
+
+/**
+ * Offline provider for local runs. Uses exact phrase matches, then word-by-word
+ * dictionary lookups, and otherwise echoes the text tagged with the target language.
+ */
+export class OfflineTranslationProvider implements TranslationProvider {
+  readonly name = 'offline';
+  readonly cacheable = false; // Its echoes would otherwise be served from memory for good
+
+  constructor(private dictionary: OfflineDictionary = {}) {}
+
+  async translate(text: string, fromLanguage: string, toLanguage: string): Promise<string> {
+    const entries = this.dictionary[toLanguage] || {};
+
+    const phrase = entries[text.trim().toLowerCase()];
+    if (phrase) {
+      return phrase;
+    }
+
+    let matched = false;
+    const translated = text.split(/(\s+)/).map((token) => {
+      // Keep trailing punctuation attached to the translated word
+      const [, word, punctuation] = token.match(/^(.*?)([.,!?;:]*)$/) || [token, token, ''];
+      const replacement = entries[word.toLowerCase()];
+      if (replacement) {
+        matched = true;
+        return replacement + punctuation;
+      }
+      return token;
+    }).join('');
+
+    return matched ? translated : `[${toLanguage}] ${text}`;
+  }
+}
+
+const PROVIDER_TIMEOUT_MS = 10000;
+const PROVIDER_MAX_RETRIES = 2;
+const PROVIDER_RETRY_DELAY_MS = 500;
+
+export class TranslationProviderRegistry {
+  private providers = new Map<string, TranslationProvider>();
+  private defaultChain: string[] = [];
+  private pairRoutes = new Map<string, string[]>();
+
+  register(provider: TranslationProvider) {
+    this.providers.set(provider.name, provider);
+  }
+
+  setDefaultChain(names: string[]) {
+    this.defaultChain = names;
+  }
+
+  // Route a language pair to a chain; either side may be '*'
+  setPairRoute(fromLanguage: string, toLanguage: string, names: string[]) {
+    this.pairRoutes.set(this.pairKey(fromLanguage, toLanguage), names);
+  }
+
+  getProviderNames(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  // Names in a requested chain that no registered provider answers to
+  findUnknownProviders(names: string[]): string[] {
+    return names.filter(name => !this.providers.has(name));
+  }
+
+  private pairKey(fromLanguage: string, toLanguage: string): string {
+    return `${fromLanguage.toLowerCase()}>${toLanguage.toLowerCase()}`;
+  }
+
+  // Session chain wins, then the most specific pair route, then the default chain
+  resolveChain(fromLanguage: string, toLanguage: string, options: TranslationOptions = {}): TranslationProvider[] {
+    const names = (options.providers && options.providers.length > 0 ? options.providers : null)
+      || this.pairRoutes.get(this.pairKey(fromLanguage, toLanguage))
+      || this.pairRoutes.get(this.pairKey(fromLanguage, '*'))
+      || this.pairRoutes.get(this.pairKey('*', toLanguage))
+      || this.defaultChain;
+
+    const unknown = this.findUnknownProviders(names);
+    if (unknown.length > 0) {
+      console.warn(`[Translation] Skipping unknown providers for ${fromLanguage} → ${toLanguage}: ${unknown.join(', ')}`);
+    }
+    const chain = names
+      .map(name => this.providers.get(name))
+      .filter((provider): provider is TranslationProvider => !!provider);
+
+    // A session chain naming only providers that no longer exist falls back to the routes
+    if (chain.length === 0 && options.providers && options.providers.length > 0) {
+      return this.resolveChain(fromLanguage, toLanguage, { ...options, providers: null });
+    }
+    return chain;
+  }
+
+  // One provider attempt, bounded by the timeout so a hanging provider can't block the chain
+  private async attempt(provider: TranslationProvider, text: string, fromLanguage: string, toLanguage: string): Promise<string> {
+    let timeout: NodeJS.Timeout | undefined;
+    try {
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timeout = setTimeout(() => reject(new Error('Translation timeout')), PROVIDER_TIMEOUT_MS);
+      });
+      return await Promise.race([
+        provider.translate(text, fromLanguage, toLanguage),
+        timeoutPromise
+      ]);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // Retry a provider with exponential backoff before falling back to the next one
+  private async translateWithRetry(provider: TranslationProvider, text: string, fromLanguage: string, toLanguage: string): Promise<string> {
+    for (let retryCount = 0; ; retryCount++) {
+      try {
+        return await this.attempt(provider, text, fromLanguage, toLanguage);
+      } catch (error) {
+        if (retryCount >= PROVIDER_MAX_RETRIES) {
+          throw error;
+        }
+        const delay = PROVIDER_RETRY_DELAY_MS * Math.pow(2, retryCount);
+        console.error(`[Translation] Provider ${provider.name} attempt ${retryCount + 1}/${PROVIDER_MAX_RETRIES + 1} failed, retrying in ${delay}ms:`,
+          error instanceof Error ? error.message : error);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  async translate(
+    text: string,
+    fromLanguage: string,
+    toLanguage: string,
+    options: TranslationOptions = {}
+  ): Promise<ProviderTranslation> {
+    const chain = this.resolveChain(fromLanguage, toLanguage, options);
+    const failures: Array<{ provider: string; message: string }> = [];
+
+    for (const provider of chain) {
+      try {
+        const translated = await this.translateWithRetry(provider, text, fromLanguage, toLanguage);
+        return { text: translated, provider: provider.name, cacheable: provider.cacheable !== false };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[Translation] Provider ${provider.name} failed (${fromLanguage} → ${toLanguage}): ${message}`);
+        failures.push({ provider: provider.name, message });
+      }
+    }
+
+    throw new TranslationUnavailableError(fromLanguage, toLanguage, failures);
+  }
+}
+
+function parseProviderList(value: string): string[] {
+  return value.split(',').map(name => name.trim()).filter(Boolean);
+}
+
+function loadOfflineDictionary(): OfflineDictionary {
+  const dictionaryPath = process.env.OFFLINE_TRANSLATION_DICTIONARY;
+  if (!dictionaryPath) {
+    return {};
+  }
+
+  try {
+    const raw = JSON.parse(readFileSync(dictionaryPath, 'utf8')) as OfflineDictionary;
+    // Normalize source keys for case-insensitive lookups
+    const dictionary: OfflineDictionary = {};
+    for (const [language, entries] of Object.entries(raw)) {
+      dictionary[language] = Object.fromEntries(
+        Object.entries(entries).map(([source, target]) => [source.toLowerCase(), target])
+      );
+    }
+    return dictionary;
+  } catch (error) {
+    console.error(`[Translation] Failed to load offline dictionary from ${dictionaryPath}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Build the registry from environment:
+ * - TRANSLATION_PROVIDERS: default chain, e.g. "google,openai" or "offline"
+ * - TRANSLATION_ROUTES: per-pair chains, e.g. "Arabic>English:openai,google;*>Japanese:openai"
+ */
+function createDefaultRegistry(): TranslationProviderRegistry {
+  const registry = new TranslationProviderRegistry();
+  registry.register(new GoogleTranslationProvider());
+  registry.register(new OpenAITranslationProvider());
+  registry.register(new OfflineTranslationProvider(loadOfflineDictionary()));
+
+  const defaultChain = process.env.TRANSLATION_PROVIDERS
+    ? parseProviderList(process.env.TRANSLATION_PROVIDERS)
+    : process.env.OPENAI_API_KEY ? ['google', 'openai'] : ['google'];
+  registry.setDefaultChain(defaultChain);
+
+  for (const route of (process.env.TRANSLATION_ROUTES || '').split(';').filter(Boolean)) {
+    const [pair, names] = route.split(':');
+    const [fromLanguage, toLanguage] = (pair || '').split('>').map(part => part.trim());
+    if (!fromLanguage || !toLanguage || !names) {
+      console.error(`[Translation] Ignoring malformed route: ${route}`);
+      continue;
+    }
+    registry.setPairRoute(fromLanguage, toLanguage, parseProviderList(names));
+  }
+
+  console.log(`[Translation] Default provider chain: ${defaultChain.join(' → ')}`);
+  return registry;
+}
+
+export const translationProviders = createDefaultRegistry();
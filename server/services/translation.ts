@@ -1,4 +1,6 @@
-import { transcribeAudio as googleTranscribe, translateText, detectLanguage, improveTranscription } from "./googlecloud";
+import { transcribeAudio as googleTranscribe, detectLanguage, improveTranscription } from "./googlecloud";
+import { translationProviders, type TranslationOptions } from "./translation-providers";
+import { protectTerms } from "./glossary";
 
 export interface TranscriptionResult {
   text: string;
@@ -63,7 +65,7 @@ const LANGUAGE_CODES: Record<string, string> = {
 };
 
 // Get standardized language name
-function standardizeLanguageName(language: string): string {
+export function standardizeLanguageName(language: string): string {
   // If it's already a full name, return as is
   if (Object.values(LANGUAGE_CODES).includes(language)) {
     return language;
@@ -108,45 +110,35 @@ export async function translateAudio(
   text: string, 
   fromLanguage: string, 
   toLanguage: string,
-  retryCount = 0
+  options: TranslationOptions = {}
 ): Promise<string> {
-  const MAX_RETRIES = 2;
-  const RETRY_DELAY = 500;
-  const TIMEOUT = 10000; // 10 seconds
+  // Skip translation if source and target languages are the same
+  const standardizedFrom = standardizeLanguageName(fromLanguage);
+  const standardizedTo = standardizeLanguageName(toLanguage);
   
-  try {
-    // Skip translation if source and target languages are the same
-    const standardizedFrom = standardizeLanguageName(fromLanguage);
-    const standardizedTo = standardizeLanguageName(toLanguage);
-    
-    if (standardizedFrom.toLowerCase() === standardizedTo.toLowerCase()) {
-      return text;
-    }
+  if (standardizedFrom.toLowerCase() === standardizedTo.toLowerCase()) {
+    return text;
+  }
 
-    // Add timeout to prevent hanging in production
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Translation timeout')), TIMEOUT);
-    });
-    
-    const translationPromise = translateText(text, standardizedFrom, standardizedTo);
-    const translatedText = await Promise.race([translationPromise, timeoutPromise]);
-    
-    return translatedText;
-  } catch (error) {
-    console.error(`Translation failed (attempt ${retryCount + 1}/${MAX_RETRIES + 1}):`, error);
-    
-    // Retry with exponential backoff
-    if (retryCount < MAX_RETRIES) {
-      const delay = RETRY_DELAY * Math.pow(2, retryCount);
-      console.log(`Retrying translation in ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return translateAudio(text, fromLanguage, toLanguage, retryCount + 1);
+  // Hide glossary terms from the providers so they come back exactly as configured
+  const glossaryText = protectTerms(text, standardizedFrom, standardizedTo, options.glossary || []);
+
+  // Memory entries keep glossary placeholders, so later glossary edits still apply to them
+  const { memory } = options;
+  if (memory) {
+    const remembered = await memory.lookup(glossaryText.text, standardizedFrom, standardizedTo);
+    if (remembered !== null) {
+      return glossaryText.restore(remembered);
     }
-    
-    // Return original text if all retries fail (keep system running)
-    console.error("Translation max retries reached, returning original text");
-    return text;
   }
+
+  // Walk the provider chain; throws TranslationUnavailableError if every provider fails
+  const result = await translationProviders.translate(glossaryText.text, standardizedFrom, standardizedTo, options);
+
+  if (memory && result.cacheable) {
+    await memory.remember(glossaryText.text, standardizedFrom, standardizedTo, result.text, result.provider);
+  }
+  return glossaryText.restore(result.text);
 }
 
 export async function batchTranslate(
@@ -166,7 +158,7 @@ export async function batchTranslate(
         return { language: standardizedTo, translation: text };
       }
       
-      const translation = await translateText(text, standardizedFrom, standardizedTo);
+      const translation = await translateAudio(text, standardizedFrom, standardizedTo);
       return { language: standardizedTo, translation };
     } catch (error) {
       console.error(`Translation to ${standardizedTo} failed:`, error);
@@ -201,76 +193,3 @@ export function validateLanguage(language: string): boolean {
   const standardized = standardizeLanguageName(language);
   return Object.values(LANGUAGE_CODES).includes(standardized);
 }
-
-export class TranslationCache {
-  private cache = new Map<string, { translation: string; timestamp: number }>();
-  private readonly TTL = 1000 * 60 * 60; // 1 hour
-
-  private getCacheKey(text: string, fromLang: string, toLang: string): string {
-    return `${fromLang}:${toLang}:${text}`;
-  }
-
-  get(text: string, fromLang: string, toLang: string): string | null {
-    const key = this.getCacheKey(text, fromLang, toLang);
-    const cached = this.cache.get(key);
-    
-    if (cached && Date.now() - cached.timestamp < this.TTL) {
-      return cached.translation;
-    }
-    
-    if (cached) {
-      this.cache.delete(key); // Remove expired entry
-    }
-    
-    return null;
-  }
-
-  set(text: string, fromLang: string, toLang: string, translation: string): void {
-    const key = this.getCacheKey(text, fromLang, toLang);
-    this.cache.set(key, {
-      translation,
-      timestamp: Date.now()
-    });
-    
-    // Clean up old entries periodically
-    if (this.cache.size > 1000) {
-      this.cleanup();
-    }
-  }
-
-  private cleanup(): void {
-    const now = Date.now();
-    Array.from(this.cache.entries()).forEach(([key, value]) => {
-      if (now - value.timestamp > this.TTL) {
-        this.cache.delete(key);
-      }
-    });
-  }
-
-  clear(): void {
-    this.cache.clear();
-  }
-}
-
-export const translationCache = new TranslationCache();
-
-// Enhanced translation function with caching
-export async function translateWithCache(
-  text: string, 
-  fromLanguage: string, 
-  toLanguage: string
-): Promise<string> {
-  // Check cache first
-  const cached = translationCache.get(text, fromLanguage, toLanguage);
-  if (cached) {
-    return cached;
-  }
-
-  // Perform translation
-  const translation = await translateAudio(text, fromLanguage, toLanguage);
-  
-  // Cache the result
-  translationCache.set(text, fromLanguage, toLanguage, translation);
-  
-  return translation;
-}
@@ -3,12 +3,31 @@ import {
   type InsertUser,
   type Session, 
   type InsertSession, 
+  type SessionStatus,
   type Participant, 
   type InsertParticipant,
   type Speaker,
   type InsertSpeaker,
-  type Translation
+  type Translation,
+  type GlossaryTerm,
+  type InsertGlossaryTerm,
+  type GlossaryScope,
+  type TranslationMemoryEntry,
+  type InsertTranslationMemoryEntry,
+  type TranslationMemoryLookupCounts,
+  type TranslationMemoryOutcome,
+  type ModerationAction,
+  type InsertModerationAction,
+  type BanIdentifiers,
+  type Question,
+  type InsertQuestion,
+  type QuestionStatus,
+  type ChatMessage,
+  type InsertChatMessage,
+  type Announcement,
+  type InsertAnnouncement
 } from "@shared/schema";
+import type { PlanId } from "@shared/plans";
 import { randomUUID } from "crypto";
 
 export interface IStorage {
@@ -16,18 +35,29 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserById(id: string): Promise<User | undefined>;
+  setUserPlan(id: string, plan: PlanId): Promise<User | undefined>;
+  backfillUserPlans(): Promise<number>;
   validatePassword(email: string, password: string): Promise<User | null>;
   
   // Session management
   getSession(id: string): Promise<Session | undefined>;
   createSession(session: InsertSession & { 
     expiresAt: Date, 
+    plan: string, // The host's plan
     hostUserId: string,
     hostName: string, 
-    hostEmail: string 
+    hostEmail: string,
+    passcodeHash?: string | null
   }): Promise<Session>;
   updateSession(id: string, updates: Partial<Session>): Promise<Session | undefined>;
+  transitionSession(id: string, fromStatus: SessionStatus, updates: Partial<Session>): Promise<Session | undefined>;
+  // Sessions past expiresAt that have not ended yet
+  getExpiredSessions(now: Date): Promise<Session[]>;
+  // Sessions created before lifecycle states were added all read as draft; live ones become live again
+  backfillSessionStatus(): Promise<number>;
   deleteSession(id: string): Promise<void>;
+  // Clears the floor only if this participant still holds it
+  releaseFloor(sessionId: string, participantId: string): Promise<Session | undefined>;
 
   // Participant management
   getParticipant(id: string): Promise<Participant | undefined>;
@@ -36,6 +66,15 @@ export interface IStorage {
   updateParticipant(id: string, updates: Partial<Participant>): Promise<Participant | undefined>;
   deleteParticipant(id: string): Promise<void>;
   deleteParticipantWithTranslations(id: string): Promise<void>;
+  // Kick or ban: the participant loses their seat and state but stays in the transcript
+  removeParticipant(id: string): Promise<Participant | undefined>;
+  // Time-limited speaking turns: those still running, and ending one only if it is still that turn
+  getTimedSpeakers(): Promise<Participant[]>;
+  endSpeakingTurn(id: string, speakingUntil: Date): Promise<Participant | undefined>;
+  // Presence: each returns only the participants whose isActive actually changed
+  setParticipantPresence(id: string, isActive: boolean): Promise<Participant | undefined>;
+  touchParticipants(ids: string[]): Promise<Participant[]>;
+  expireStaleParticipants(seenBefore: Date): Promise<Participant[]>;
 
   // Speaker management
   getSpeaker(id: string): Promise<Speaker | undefined>;
@@ -49,6 +88,52 @@ export interface IStorage {
   createTranslation(translation: Omit<Translation, 'id'>): Promise<Translation>;
   getTranslationsBySession(sessionId: string): Promise<Translation[]>;
   getTranslationsBySpeaker(participantId: string): Promise<Translation[]>;
+
+  // Glossary management
+  getGlossaryTerms(scope: GlossaryScope): Promise<GlossaryTerm[]>;
+  getGlossaryTerm(id: string): Promise<GlossaryTerm | undefined>;
+  createGlossaryTerms(scope: GlossaryScope, terms: InsertGlossaryTerm[], replace?: boolean): Promise<GlossaryTerm[]>;
+  updateGlossaryTerm(id: string, updates: Partial<InsertGlossaryTerm>): Promise<GlossaryTerm | undefined>;
+  deleteGlossaryTerm(id: string): Promise<void>;
+
+  // Translation memory
+  findTranslationMemory(ownerUserId: string, sourceLanguage: string, targetLanguage: string, normalizedSource: string): Promise<TranslationMemoryEntry | undefined>;
+  getTranslationMemoryCandidates(ownerUserId: string, sourceLanguage: string, targetLanguage: string, minLength: number, maxLength: number, limit: number): Promise<TranslationMemoryEntry[]>;
+  saveTranslationMemory(entry: InsertTranslationMemoryEntry): Promise<void>;
+  recordTranslationMemoryHit(id: string): Promise<void>;
+  getTranslationMemorySummary(ownerUserId: string): Promise<{ entries: number; totalHits: number }>;
+  recordTranslationMemoryLookup(sessionId: string, outcome: TranslationMemoryOutcome): Promise<void>;
+  getTranslationMemoryLookups(sessionId: string): Promise<TranslationMemoryLookupCounts>;
+
+  // Moderation (kicks and bans)
+  recordModerationAction(action: InsertModerationAction): Promise<ModerationAction>;
+  getModerationActionsBySession(sessionId: string): Promise<ModerationAction[]>;
+  findSessionBan(sessionId: string, identifiers: BanIdentifiers): Promise<ModerationAction | undefined>;
+  // Device and address a participant joined from
+  getParticipantOrigin(participantId: string): Promise<BanIdentifiers>;
+
+  // Audience Q&A
+  createQuestion(question: InsertQuestion): Promise<Question>;
+  getQuestion(id: string): Promise<Question | undefined>;
+  getQuestionsBySession(sessionId: string): Promise<Question[]>;
+  transitionQuestion(id: string, fromStatus: QuestionStatus, updates: Partial<Question>): Promise<Question | undefined>;
+  // Adds or removes the participant's upvote and recounts the question's upvotes
+  setQuestionVote(questionId: string, participantId: string, upvoted: boolean): Promise<Question | undefined>;
+  getUpvotedQuestionIds(sessionId: string, participantId: string): Promise<string[]>;
+
+  // Session chat
+  createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+  getChatMessage(id: string): Promise<ChatMessage | undefined>;
+  getChatMessagesBySession(sessionId: string): Promise<ChatMessage[]>;
+  // Marks the message deleted unless it already was
+  deleteChatMessage(id: string, deletedBy: string): Promise<ChatMessage | undefined>;
+
+  // Host announcements
+  createAnnouncement(announcement: InsertAnnouncement): Promise<Announcement>;
+  getAnnouncement(id: string): Promise<Announcement | undefined>;
+  getAnnouncementsBySession(sessionId: string): Promise<Announcement[]>;
+  addAnnouncementTranslation(id: string, language: string, translated: string): Promise<Announcement | undefined>;
+  deleteAnnouncement(id: string): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
@@ -77,7 +162,7 @@ export class MemStorage implements IStorage {
     return session;
   }
 
-  async createSession(sessionData: InsertSession & { expiresAt: Date }): Promise<Session> {
+  async createSession(sessionData: InsertSession & { expiresAt: Date, plan?: string }): Promise<Session> {
     const id = randomUUID();
     const session: Session = {
       ...sessionData,
@@ -86,7 +171,18 @@ export class MemStorage implements IStorage {
       languages: (sessionData.languages || []) as string[],
       maxParticipants: sessionData.maxParticipants || 50,
       plan: sessionData.plan || "basic",
+      translationProviders: sessionData.translationProviders ?? null,
       isActive: false,
+      status: sessionData.scheduledStartAt ? "scheduled" : "draft",
+      scheduledStartAt: sessionData.scheduledStartAt ? new Date(sessionData.scheduledStartAt) : null,
+      startedAt: null,
+      endedAt: null,
+      passcodeHash: null,
+      allowedEmails: sessionData.allowedEmails ?? null,
+      requireApproval: sessionData.requireApproval ?? false,
+      speakerTimeLimitSeconds: null,
+      floorPolicy: "open",
+      floorHolderId: null,
       createdAt: new Date(),
       expiresAt: sessionData.expiresAt
     };
@@ -133,11 +229,18 @@ export class MemStorage implements IStorage {
       id,
       preferredOutput: participantData.preferredOutput || "voice",
       joinedAt: new Date(),
-      isActive: true,
+      isActive: false,
+      lastSeenAt: null,
+      isMuted: false,
+      chatMuted: false,
+      admission: "admitted",
       handRaised: false,
       isSpeaking: participantData.isSpeaking ?? false,
       preferredVoice: null,
-      userId: participantData.userId || null
+      userId: participantData.userId || null,
+      handRaisedAt: null,
+      queuePosition: null,
+      speakingUntil: null
     };
     
     this.participants.set(id, participant);
@@ -0,0 +1,47 @@
+// Subscription plans and the limits each one enforces. Shared so the dashboard and
+// join page can show limits and explain plan errors returned by the API.
+
+export const planIds = ["basic", "professional", "enterprise"] as const;
+export type PlanId = typeof planIds[number];
+
+export interface Plan {
+  id: PlanId;
+  label: string;
+  maxParticipants: number; // Seats, including the host
+  maxLanguages: number; // Distinct languages a session may translate into
+  maxDurationHours: number; // Longest allowed time between creation and expiry
+  voiceOutput: boolean; // Synthesized speech; otherwise listeners get text only
+}
+
+export const PLANS: Record<PlanId, Plan> = {
+  basic: { id: "basic", label: "Basic", maxParticipants: 50, maxLanguages: 3, maxDurationHours: 4, voiceOutput: false },
+  professional: { id: "professional", label: "Professional", maxParticipants: 500, maxLanguages: 10, maxDurationHours: 12, voiceOutput: true },
+  enterprise: { id: "enterprise", label: "Enterprise", maxParticipants: 5000, maxLanguages: 40, maxDurationHours: 72, voiceOutput: true },
+};
+
+export function isPlanId(value: string): value is PlanId {
+  return (planIds as readonly string[]).includes(value);
+}
+
+// Sessions stored with an unknown plan get the most restrictive limits
+export function getPlan(id: string | null | undefined): Plan {
+  return id && isPlanId(id) ? PLANS[id] : PLANS.basic;
+}
+
+// Returned as `code` alongside `message` when a request exceeds its session's plan
+export const planErrorCodes = [
+  "unknown-plan",
+  "participant-limit-exceeded", // Requested more seats than the plan allows
+  "session-full",
+  "language-limit-exceeded",
+  "duration-limit-exceeded",
+] as const;
+export type PlanErrorCode = typeof planErrorCodes[number];
+
+export const PLAN_ERROR_MESSAGES: Record<PlanErrorCode, string> = {
+  "unknown-plan": "That plan does not exist.",
+  "participant-limit-exceeded": "The session's plan does not allow that many participants.",
+  "session-full": "This session is full. Ask the host for a session with more seats.",
+  "language-limit-exceeded": "This session has reached the number of languages its plan allows. Pick one of the languages already in use.",
+  "duration-limit-exceeded": "The session's plan does not allow a session that long.",
+};
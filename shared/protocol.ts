@@ -0,0 +1,375 @@
+import { z } from "zod";
+import { floorPolicies, participantAdmissions, participantRoles, questionStatuses, sessionStatuses } from "./schema";
+
+// Real-time WebSocket protocol shared by the server and the client.
+// Bump PROTOCOL_VERSION on any breaking change to a message shape.
+export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS = [1];
+
+// Close code for connections of a participant who was rejected or removed; clients must not reconnect
+export const CLOSE_CODE_REMOVED = 4003;
+
+// ---------------------------------------------------------------------------
+// Client -> server
+// ---------------------------------------------------------------------------
+
+// Must be the first message on every connection
+export const helloMessageSchema = z.object({
+  type: z.literal("hello"),
+  protocolVersion: z.number().int(),
+});
+
+// Language channels a client receives translations (and optionally speech) for.
+// Without one, the server subscribes the connection to its participant's language.
+export const languageSubscriptionSchema = z.object({
+  languages: z.array(z.string().min(1)).min(1).max(20), // Language names or codes
+  audio: z.boolean().default(true), // Also receive synthesized speech for these languages
+  voice: z.string().nullable().optional(), // Only speech in this voice; omit for any voice
+});
+
+export const joinSessionMessageSchema = z.object({
+  type: z.literal("join-session"),
+  sessionId: z.string().min(1),
+  subscription: languageSubscriptionSchema.optional(),
+  lastSeq: z.number().int().nonnegative().optional(), // Resume: replay sequenced messages after this one
+});
+
+// Change the language channels of an already joined connection
+export const subscribeMessageSchema = languageSubscriptionSchema.extend({
+  type: z.literal("subscribe"),
+});
+
+// Configures the speaker's recognizer; binary PCM frames follow
+export const audioMetadataMessageSchema = z.object({
+  type: z.literal("audio_metadata"),
+  participantId: z.string().min(1),
+  sampleRate: z.number().int().positive().max(192000),
+  targetLanguage: z.string().optional(),
+});
+
+// Sent before binary frames to bind them to a speaker
+export const audioChunkMetadataMessageSchema = z.object({
+  type: z.literal("audio-chunk-metadata"),
+  data: z.object({
+    participantId: z.string().min(1),
+    speakerName: z.string().optional(),
+    isParticipant: z.boolean().optional(),
+  }),
+});
+
+export const speakerStatusDataSchema = z.object({
+  sessionId: z.string().optional(),
+  participantId: z.string().min(1),
+  speakerName: z.string().optional(),
+  isActive: z.boolean(),
+  isMuted: z.boolean(),
+});
+
+export const handRaiseDataSchema = z.object({
+  sessionId: z.string().optional(),
+  participantId: z.string().min(1),
+  participantName: z.string().optional(),
+  handRaised: z.boolean(),
+});
+
+export const speakPermissionDataSchema = z.object({
+  sessionId: z.string().optional(),
+  participantId: z.string().min(1),
+  isSpeaking: z.boolean(),
+});
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  helloMessageSchema,
+  joinSessionMessageSchema,
+  subscribeMessageSchema,
+  audioMetadataMessageSchema,
+  audioChunkMetadataMessageSchema,
+  z.object({ type: z.literal("speaker-status"), data: speakerStatusDataSchema }),
+  z.object({ type: z.literal("hand-raise"), data: handRaiseDataSchema }),
+]);
+
+// ---------------------------------------------------------------------------
+// Server -> client
+// ---------------------------------------------------------------------------
+
+export const protocolErrorCodes = [
+  "handshake-required",
+  "unsupported-version",
+  "invalid-message",
+  "message-too-large",
+  "session-not-found",
+  "not-in-session",
+  "participant-not-found",
+  "participant-session-mismatch",
+  "not-speaking",
+  "forbidden", // Connection's participant may not perform this action
+  "superseded", // Another connection took over this speaker's recognizer
+  "session-not-live", // Audio is only accepted while the session is live
+  "language-limit-exceeded", // The session's plan allows no more languages
+  "muted", // A moderator muted this speaker
+  "not-admitted", // Participant is waiting in the lobby
+  "removed", // The host removed this participant from the session
+  "speaking-time-expired", // The speaker's time-limited turn ended
+  "floor-taken", // Another speaker took the floor; send audio metadata to take it back
+  "floor-held", // Another speaker holds the floor
+  "internal-error",
+] as const;
+
+export const errorMessageSchema = z.object({
+  type: z.literal("error"),
+  code: z.enum(protocolErrorCodes),
+  message: z.string(),
+  requestType: z.string().optional(), // Type of the client message that failed, if known
+});
+
+export const welcomeMessageSchema = z.object({
+  type: z.literal("welcome"),
+  protocolVersion: z.number().int(),
+});
+
+export const sessionJoinedMessageSchema = z.object({
+  type: z.literal("session-joined"),
+  sessionId: z.string(),
+});
+
+// Sent after join-session with lastSeq, once the missed messages have been replayed
+export const resumedMessageSchema = z.object({
+  type: z.literal("resumed"),
+  lastSeq: z.number().int(),
+  replayed: z.number().int(),
+  complete: z.boolean(), // False when some missed messages were no longer buffered
+});
+
+export const subscribedMessageSchema = languageSubscriptionSchema.extend({
+  type: z.literal("subscribed"),
+});
+
+export const participantJoinedDataSchema = z.object({
+  sessionId: z.string(),
+  participantId: z.string(),
+  name: z.string(),
+  role: z.string(),
+  language: z.string(),
+});
+
+export const participantLeftDataSchema = z.object({
+  sessionId: z.string(),
+  participantId: z.string(),
+  name: z.string(),
+});
+
+// Sent only to a participant waiting in the lobby when the host decides
+export const admissionDataSchema = z.object({
+  sessionId: z.string(),
+  participantId: z.string(),
+  admission: z.enum(participantAdmissions),
+});
+
+// Sent to the session when someone enters the lobby or is admitted or rejected
+export const lobbyUpdatedDataSchema = admissionDataSchema.extend({
+  name: z.string(),
+});
+
+// Sent only to a participant the host kicked or banned, before their connections are closed
+export const removedDataSchema = z.object({
+  sessionId: z.string(),
+  participantId: z.string(),
+  banned: z.boolean(),
+  reason: z.string().nullable(),
+});
+
+// Sent to the session whenever the speaker queue changes (raised or lowered hands, reordering, promotion)
+export const speakerQueueDataSchema = z.object({
+  sessionId: z.string(),
+  queue: z.array(z.object({
+    participantId: z.string(),
+    name: z.string(),
+    raisedAt: z.string().nullable(), // ISO timestamp
+  })),
+});
+
+// Sent only to a time-limited speaker shortly before their turn ends
+export const speakingTimeWarningDataSchema = z.object({
+  sessionId: z.string(),
+  participantId: z.string(),
+  remainingSeconds: z.number().int(),
+});
+
+// Sent whenever the floor changes hands or the session's floor policy changes
+export const floorChangedDataSchema = z.object({
+  sessionId: z.string(),
+  policy: z.enum(floorPolicies),
+  holderId: z.string().nullable(),
+  holderName: z.string().nullable(),
+  reason: z.enum(["grant", "voice", "released", "policy"]),
+});
+
+export const questionDataSchema = z.object({
+  id: z.string(),
+  participantId: z.string().nullable(),
+  authorName: z.string(),
+  originalText: z.string(),
+  originalLanguage: z.string(),
+  translations: z.record(z.string(), z.string()), // language -> translated text
+  failedLanguages: z.array(z.string()),
+  status: z.enum(questionStatuses),
+  upvoteCount: z.number().int(),
+  answeredAt: z.string().nullable(), // ISO timestamp
+  createdAt: z.string(), // ISO timestamp
+});
+
+// Sent when a question is asked, moderated or upvoted. Pending and dismissed questions
+// only reach moderators and the asker, unless the question was public before.
+export const questionUpdatedDataSchema = z.object({
+  sessionId: z.string(),
+  question: questionDataSchema,
+});
+
+// Each recipient gets only the translations for their language channels, plus the original
+export const chatMessageDataSchema = z.object({
+  id: z.string(),
+  sessionId: z.string(),
+  participantId: z.string().nullable(),
+  authorName: z.string(),
+  originalText: z.string(),
+  originalLanguage: z.string(),
+  translations: z.record(z.string(), z.string()), // language -> translated text
+  failedLanguages: z.array(z.string()),
+  createdAt: z.string(), // ISO timestamp
+});
+
+// Sent when a moderator deletes a chat message
+export const chatMessageDeletedDataSchema = z.object({
+  sessionId: z.string(),
+  messageId: z.string(),
+  deletedBy: z.string(),
+});
+
+// Sent when a moderator mutes or unmutes a participant in the chat
+export const chatMutedDataSchema = z.object({
+  sessionId: z.string(),
+  participantId: z.string(),
+  isMuted: z.boolean(),
+});
+
+// Sent to the session when the host pins an announcement; carries every language
+export const announcementDataSchema = z.object({
+  id: z.string(),
+  sessionId: z.string(),
+  originalText: z.string(),
+  originalLanguage: z.string(),
+  translations: z.record(z.string(), z.string()), // language -> translated text
+  failedLanguages: z.array(z.string()),
+  createdBy: z.string(),
+  createdAt: z.string(), // ISO timestamp
+});
+
+export const announcementRemovedDataSchema = z.object({
+  sessionId: z.string(),
+  announcementId: z.string(),
+});
+
+// Sent when the host promotes or demotes an attendee
+export const participantRoleDataSchema = z.object({
+  sessionId: z.string(),
+  participantId: z.string(),
+  role: z.enum(participantRoles),
+});
+
+// Sent whenever the host changes the session's lifecycle state
+export const sessionStatusDataSchema = z.object({
+  sessionId: z.string(),
+  status: z.enum(sessionStatuses),
+  scheduledStartAt: z.string().nullable(), // ISO timestamp
+  changedAt: z.number(),
+});
+
+export const interimTranscriptDataSchema = z.object({
+  sessionId: z.string(),
+  participantId: z.string(),
+  speakerName: z.string(),
+  text: z.string(),
+});
+
+export const translationDataSchema = z.object({
+  sessionId: z.string(),
+  participantId: z.string(),
+  speakerName: z.string(),
+  originalText: z.string(),
+  originalLanguage: z.string(),
+  translations: z.record(z.string(), z.string()), // language -> translated text
+  timestamp: z.number(),
+  hasErrors: z.boolean(),
+  errorCount: z.number().int(),
+  failedLanguages: z.array(z.string()),
+});
+
+export const audioSynthesizedDataSchema = z.object({
+  participantId: z.string().nullable(), // Speaker; null when voicing an announcement
+  announcementId: z.string().nullable(),
+  speakerName: z.string(),
+  language: z.string(),
+  voice: z.string().nullable(),
+  text: z.string(),
+  audioContent: z.string(), // base64 encoded audio
+  mimeType: z.string(),
+  timestamp: z.number(),
+});
+
+const serverMessageBodySchema = z.discriminatedUnion("type", [
+  welcomeMessageSchema,
+  sessionJoinedMessageSchema,
+  resumedMessageSchema,
+  subscribedMessageSchema,
+  errorMessageSchema,
+  z.object({ type: z.literal("participant-joined"), data: participantJoinedDataSchema }),
+  z.object({ type: z.literal("participant-left"), data: participantLeftDataSchema }),
+  z.object({ type: z.literal("session-status"), data: sessionStatusDataSchema }),
+  z.object({ type: z.literal("participant-role"), data: participantRoleDataSchema }),
+  z.object({ type: z.literal("admission"), data: admissionDataSchema }),
+  z.object({ type: z.literal("lobby-updated"), data: lobbyUpdatedDataSchema }),
+  z.object({ type: z.literal("removed"), data: removedDataSchema }),
+  z.object({ type: z.literal("speaker-queue"), data: speakerQueueDataSchema }),
+  z.object({ type: z.literal("speaking-time-warning"), data: speakingTimeWarningDataSchema }),
+  z.object({ type: z.literal("floor-changed"), data: floorChangedDataSchema }),
+  z.object({ type: z.literal("question-updated"), data: questionUpdatedDataSchema }),
+  z.object({ type: z.literal("chat-message"), data: chatMessageDataSchema }),
+  z.object({ type: z.literal("chat-message-deleted"), data: chatMessageDeletedDataSchema }),
+  z.object({ type: z.literal("chat-muted"), data: chatMutedDataSchema }),
+  z.object({ type: z.literal("announcement"), data: announcementDataSchema }),
+  z.object({ type: z.literal("announcement-removed"), data: announcementRemovedDataSchema }),
+  z.object({ type: z.literal("interim-transcript"), data: interimTranscriptDataSchema }),
+  z.object({ type: z.literal("translation"), data: translationDataSchema }),
+  z.object({ type: z.literal("audio-synthesized"), data: audioSynthesizedDataSchema }),
+  z.object({ type: z.literal("speaker-status"), data: speakerStatusDataSchema }),
+  z.object({ type: z.literal("hand-raise"), data: handRaiseDataSchema }),
+  z.object({ type: z.literal("speak-permission"), data: speakPermissionDataSchema }),
+]);
+
+// Session broadcasts that can be replayed carry a per-session sequence number
+export const serverMessageSchema = serverMessageBodySchema.and(z.object({
+  seq: z.number().int().positive().optional(),
+}));
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type ProtocolErrorCode = typeof protocolErrorCodes[number];
+export type ErrorMessage = z.infer<typeof errorMessageSchema>;
+export type LanguageSubscription = z.infer<typeof languageSubscriptionSchema>;
+export type SessionStatusData = z.infer<typeof sessionStatusDataSchema>;
+export type RemovedData = z.infer<typeof removedDataSchema>;
+export type SpeakerQueueData = z.infer<typeof speakerQueueDataSchema>;
+export type FloorChangedData = z.infer<typeof floorChangedDataSchema>;
+export type QuestionData = z.infer<typeof questionDataSchema>;
+export type ChatMessageData = z.infer<typeof chatMessageDataSchema>;
+export type AnnouncementData = z.infer<typeof announcementDataSchema>;
+export type InterimTranscriptData = z.infer<typeof interimTranscriptDataSchema>;
+export type TranslationData = z.infer<typeof translationDataSchema>;
+export type AudioSynthesizedData = z.infer<typeof audioSynthesizedDataSchema>;
+
+// Summarize zod issues for an error reply
+export function describeProtocolError(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.join(".") || "message"}: ${issue.message}`)
+    .join("; ");
+}
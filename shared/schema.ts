@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,9 +9,18 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   preferredLanguage: text("preferred_language").notNull(),
+  plan: text("plan").notNull().default("professional"), // Subscription; the sessions a user hosts get its limits
+  planSetAt: timestamp("plan_set_at"), // When an operator last assigned the plan (npm run user:plan); null while on the default
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+// Session lifecycle (see server/services/session-lifecycle.ts for the allowed transitions)
+export const sessionStatuses = ["draft", "scheduled", "live", "paused", "ended"] as const;
+export type SessionStatus = typeof sessionStatuses[number];
+// Floor control for overlapping speakers (see server/services/floor-control.ts)
+export const floorPolicies = ["open", "single"] as const;
+export type FloorPolicy = typeof floorPolicies[number];
+
 export const sessions = pgTable("sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -20,26 +29,65 @@ export const sessions = pgTable("sessions", {
   hostName: text("host_name").notNull(),
   hostEmail: text("host_email").notNull(),
   languages: jsonb("languages").$type<string[]>().notNull().default([]),
-  isActive: boolean("is_active").notNull().default(false),
+  isActive: boolean("is_active").notNull().default(false), // True while live
+  status: text("status").$type<SessionStatus>().notNull().default("draft"),
+  scheduledStartAt: timestamp("scheduled_start_at"),
+  startedAt: timestamp("started_at"), // First time the session went live
+  endedAt: timestamp("ended_at"),
   maxParticipants: integer("max_participants").notNull().default(50),
   plan: text("plan").notNull().default("basic"), // basic, professional, enterprise
+  translationProviders: jsonb("translation_providers").$type<string[]>(), // ordered provider chain, null = server default
+  // Access control (see server/services/session-access.ts)
+  passcodeHash: text("passcode_hash"), // bcrypt hash; null = no passcode
+  allowedEmails: jsonb("allowed_emails").$type<string[]>(), // Invite-only list of account emails; null = anyone with the link
+  requireApproval: boolean("require_approval").notNull().default(false), // Joiners wait in the lobby until admitted
+  speakerTimeLimitSeconds: integer("speaker_time_limit_seconds"), // Default turn length for "next speaker"; null = unlimited
+  floorPolicy: text("floor_policy").$type<FloorPolicy>().notNull().default("open"),
+  floorHolderId: varchar("floor_holder_id"), // Participant holding the floor under the single policy
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   expiresAt: timestamp("expires_at").notNull(),
 });
 
+// Participant roles; co-hosts and moderators share the floor management of the host
+// (see server/services/session-policy.ts for what each role may do)
+export const participantRoles = ["host", "co-host", "moderator", "participant", "guest"] as const;
+export type ParticipantRole = typeof participantRoles[number];
+// Lobby state: joiners of sessions that require approval wait until admitted or rejected;
+// kicked or banned participants are removed (kept so the transcript keeps their words)
+export const participantAdmissions = ["waiting", "admitted", "rejected", "removed"] as const;
+export type ParticipantAdmission = typeof participantAdmissions[number];
+// Roles the host can promote or demote attendees to
+export const assignableRoles = ["co-host", "moderator", "participant"] as const;
+
 export const participants = pgTable("participants", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   language: text("language").notNull(),
-  role: text("role").notNull().default("participant"), // host, participant, guest
+  role: text("role").notNull().default("participant"), // One of participantRoles
+  admission: text("admission").$type<ParticipantAdmission>().notNull().default("admitted"),
   preferredOutput: text("preferred_output").notNull().default("voice"),
   preferredVoice: text("preferred_voice"),
   joinedAt: timestamp("joined_at").notNull().default(sql`now()`),
-  isActive: boolean("is_active").notNull().default(true),
+  isActive: boolean("is_active").notNull().default(false), // Currently connected over WebSocket (presence)
+  lastSeenAt: timestamp("last_seen_at"), // Last connect or heartbeat
   isSpeaking: boolean("is_speaking").notNull().default(false),
+  isMuted: boolean("is_muted").notNull().default(false), // Silenced by a moderator; audio is refused
+  chatMuted: boolean("chat_muted").notNull().default(false), // May read but not post in the session chat
   handRaised: boolean("hand_raised").notNull().default(false),
+  // Speaker queue (see server/services/speaker-queue.ts); cleared when the hand is lowered
+  handRaisedAt: timestamp("hand_raised_at"),
+  queuePosition: integer("queue_position"),
+  speakingUntil: timestamp("speaking_until"), // End of a time-limited speaking turn
+});
+
+// Where a participant joined from; a ban blocks both (see moderationActions). Kept apart from
+// participants so the identifiers are never sent to other attendees.
+export const participantOrigins = pgTable("participant_origins", {
+  participantId: varchar("participant_id").primaryKey().references(() => participants.id, { onDelete: "cascade" }),
+  deviceId: text("device_id"),
+  ipAddress: text("ip_address"),
 });
 
 export const speakers = pgTable("speakers", {
@@ -63,8 +111,155 @@ export const translations = pgTable("translations", {
   timestamp: timestamp("timestamp").notNull().default(sql`now()`),
 });
 
+// Glossary terms belong to a session, or to a host account (organization-wide, applied to all their sessions)
+export const glossaryTerms = pgTable("glossary_terms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id, { onDelete: "cascade" }),
+  ownerUserId: varchar("owner_user_id").references(() => users.id, { onDelete: "cascade" }),
+  term: text("term").notNull(),
+  sourceLanguage: text("source_language"), // null = match in any spoken language
+  doNotTranslate: boolean("do_not_translate").notNull().default(false),
+  caseSensitive: boolean("case_sensitive").notNull().default(false),
+  renderings: jsonb("renderings").$type<Record<string, string>>().notNull().default({}), // target language -> forced rendering
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Translation memory: previously translated sentences, reused across a host's sessions
+export const translationMemory = pgTable("translation_memory", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerUserId: varchar("owner_user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  sourceLanguage: text("source_language").notNull(),
+  targetLanguage: text("target_language").notNull(),
+  sourceText: text("source_text").notNull(),
+  normalizedSource: text("normalized_source").notNull(),
+  sourceLength: integer("source_length").notNull(), // Length of normalizedSource, narrows fuzzy candidates
+  translatedText: text("translated_text").notNull(),
+  provider: text("provider").notNull(),
+  hitCount: integer("hit_count").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  lastUsedAt: timestamp("last_used_at").notNull().default(sql`now()`),
+}, (table) => [
+  uniqueIndex("translation_memory_pair_source_idx").on(table.ownerUserId, table.sourceLanguage, table.targetLanguage, table.normalizedSource),
+  index("translation_memory_pair_length_idx").on(table.ownerUserId, table.sourceLanguage, table.targetLanguage, table.sourceLength),
+]);
+
+// Translation memory lookups per session, kept in the database so the host's reuse rate
+// survives restarts and is the same on every instance
+export const translationMemoryStats = pgTable("translation_memory_stats", {
+  sessionId: varchar("session_id").primaryKey().references(() => sessions.id, { onDelete: "cascade" }),
+  exactHits: integer("exact_hits").notNull().default(0),
+  fuzzyHits: integer("fuzzy_hits").notNull().default(0),
+  misses: integer("misses").notNull().default(0),
+});
+
+// Participants removed by the host or a co-host; bans also block rejoining the session
+// by account, device or IP address
+export const moderationActionTypes = ["kick", "ban"] as const;
+export type ModerationActionType = typeof moderationActionTypes[number];
+
+export const moderationActions = pgTable("moderation_actions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  action: text("action").$type<ModerationActionType>().notNull(),
+  participantId: varchar("participant_id").notNull(), // No foreign key: outlives a deleted participant
+  participantName: text("participant_name").notNull(),
+  userId: varchar("user_id"),
+  deviceId: text("device_id"),
+  ipAddress: text("ip_address"),
+  reason: text("reason"),
+  performedBy: text("performed_by").notNull(), // Name of the host or co-host
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("moderation_actions_session_idx").on(table.sessionId),
+]);
+
+// Audience Q&A: questions typed in the asker's language, translated for the host and the
+// session's languages (see server/services/questions.ts for moderation and visibility)
+export const questionStatuses = ["pending", "approved", "answered", "dismissed"] as const;
+export type QuestionStatus = typeof questionStatuses[number];
+
+export const questions = pgTable("questions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  participantId: varchar("participant_id").references(() => participants.id, { onDelete: "set null" }), // null once the asker is removed
+  authorName: text("author_name").notNull(),
+  originalText: text("original_text").notNull(),
+  originalLanguage: text("original_language").notNull(),
+  translations: jsonb("translations").$type<Record<string, string>>().notNull().default({}), // language -> translated text
+  failedLanguages: jsonb("failed_languages").$type<string[]>().notNull().default([]), // Shown untranslated
+  status: text("status").$type<QuestionStatus>().notNull().default("pending"),
+  upvoteCount: integer("upvote_count").notNull().default(0),
+  moderatedBy: text("moderated_by"), // Name of whoever last approved, answered or dismissed it
+  answeredAt: timestamp("answered_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("questions_session_idx").on(table.sessionId),
+]);
+
+// One upvote per participant and question
+export const questionVotes = pgTable("question_votes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  questionId: varchar("question_id").notNull().references(() => questions.id, { onDelete: "cascade" }),
+  participantId: varchar("participant_id").notNull().references(() => participants.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  uniqueIndex("question_votes_question_participant_idx").on(table.questionId, table.participantId),
+]);
+
+// Session chat: each message is stored once with its translations and delivered to every
+// participant in their own language. Deleted messages are kept as tombstones.
+export const chatMessages = pgTable("chat_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  participantId: varchar("participant_id").references(() => participants.id, { onDelete: "set null" }), // null once the author is removed
+  authorName: text("author_name").notNull(),
+  originalText: text("original_text").notNull(),
+  originalLanguage: text("original_language").notNull(),
+  translations: jsonb("translations").$type<Record<string, string>>().notNull().default({}), // language -> translated text
+  failedLanguages: jsonb("failed_languages").$type<string[]>().notNull().default([]), // Shown untranslated
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: text("deleted_by"), // Name of the moderator who deleted it
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("chat_messages_session_idx").on(table.sessionId, table.createdAt),
+]);
+
+// Host announcements, translated into every language in use and pinned for everyone
+// (late joiners included) until the host removes them
+export const announcements = pgTable("announcements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  originalText: text("original_text").notNull(),
+  originalLanguage: text("original_language").notNull(),
+  translations: jsonb("translations").$type<Record<string, string>>().notNull().default({}), // language -> translated text
+  failedLanguages: jsonb("failed_languages").$type<string[]>().notNull().default([]), // Shown untranslated
+  createdBy: text("created_by").notNull(), // Name of the host or co-host
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("announcements_session_idx").on(table.sessionId),
+]);
+
+// Sequence of the last replayable WebSocket event per session, shared by every instance
+// (a narrow row of its own, so numbering events never rewrites the session row)
+export const sessionEventSequences = pgTable("session_event_sequences", {
+  sessionId: varchar("session_id").primaryKey().references(() => sessions.id, { onDelete: "cascade" }),
+  lastSeq: integer("last_seq").notNull().default(0),
+});
+
+// Session bus events too large for a NOTIFY payload (e.g. synthesized audio); pruned after a few minutes
+export const sessionEventPayloads = pgTable("session_event_payloads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  payload: text("payload").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("session_event_payloads_created_idx").on(table.createdAt),
+]);
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  plan: true,
+  planSetAt: true,
   createdAt: true,
 });
 
@@ -78,9 +273,17 @@ export const insertSessionSchema = createInsertSchema(sessions).pick({
   description: true,
   languages: true,
   maxParticipants: true,
-  plan: true,
 }).extend({
-  expiresAt: z.union([z.date(), z.string()]).optional()
+  expiresAt: z.union([z.date(), z.string()]).optional(),
+  scheduledStartAt: z.union([z.date(), z.string()]).nullable().optional(), // Creates the session as scheduled
+  translationProviders: z.array(z.string()).nullable().optional(),
+  passcode: z.string().min(4).max(64).optional(), // Stored hashed
+  allowedEmails: z.array(z.string().trim().toLowerCase().email()).nullable().optional(),
+  requireApproval: z.boolean().optional(),
+});
+
+export const scheduleSessionSchema = z.object({
+  scheduledStartAt: z.coerce.date(),
 });
 
 export const insertParticipantSchema = createInsertSchema(participants).pick({
@@ -92,6 +295,10 @@ export const insertParticipantSchema = createInsertSchema(participants).pick({
   preferredOutput: true,
 }).extend({
   isSpeaking: z.boolean().optional(),
+  admission: z.enum(participantAdmissions).optional(),
+  passcode: z.string().optional(), // Checked against the session passcode, never stored
+  deviceId: z.string().nullable().optional(),
+  ipAddress: z.string().nullable().optional(),
 });
 
 export const insertSpeakerSchema = createInsertSchema(speakers).pick({
@@ -99,6 +306,86 @@ export const insertSpeakerSchema = createInsertSchema(speakers).pick({
   name: true,
 });
 
+// Fields each mutation route may change; anything else in the body is rejected
+export const updateSessionSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().nullable(),
+  languages: z.array(z.string()),
+  maxParticipants: z.number().int().positive(),
+  translationProviders: z.array(z.string()).nullable(),
+  passcode: z.string().min(4).max(64).nullable(), // null removes the passcode
+  allowedEmails: z.array(z.string().trim().toLowerCase().email()).nullable(),
+  requireApproval: z.boolean(),
+  speakerTimeLimitSeconds: z.number().int().min(10).max(3600).nullable(),
+  floorPolicy: z.enum(floorPolicies),
+}).partial().strict();
+
+export const updateSpeakerSchema = z.object({
+  name: z.string().trim().min(1),
+  isActive: z.boolean(),
+  isMuted: z.boolean(),
+}).partial().strict();
+
+export const raiseHandSchema = z.object({
+  handRaised: z.boolean(),
+}).strict();
+
+export const participantPreferencesSchema = z.object({
+  preferredVoice: z.string().nullable(),
+}).strict();
+
+export const speakingPermissionSchema = z.object({
+  isSpeaking: z.boolean(),
+  timeLimitSeconds: z.number().int().min(10).max(3600).nullable().optional(), // Limits a granted turn
+}).strict();
+
+export const reorderSpeakerQueueSchema = z.object({
+  participantIds: z.array(z.string()),
+}).strict();
+
+export const nextSpeakerSchema = z.object({
+  timeLimitSeconds: z.number().int().min(10).max(3600).nullable().optional(), // Defaults to the session's limit
+}).strict();
+
+export const assignRoleSchema = z.object({
+  role: z.enum(assignableRoles),
+}).strict();
+
+export const muteParticipantSchema = z.object({
+  isMuted: z.boolean(),
+}).strict();
+
+export const removeParticipantSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+}).strict();
+
+export const askQuestionSchema = z.object({
+  text: z.string().trim().min(1).max(500),
+}).strict();
+
+export const sendChatMessageSchema = z.object({
+  text: z.string().trim().min(1).max(1000),
+}).strict();
+
+export const createAnnouncementSchema = z.object({
+  text: z.string().trim().min(1).max(500),
+}).strict();
+
+export const insertGlossaryTermSchema = z.object({
+  term: z.string().trim().min(1).max(200),
+  sourceLanguage: z.string().nullable().optional(),
+  doNotTranslate: z.boolean().optional(),
+  caseSensitive: z.boolean().optional(),
+  renderings: z.record(z.string(), z.string().trim().min(1)).optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const glossaryImportSchema = z.object({
+  format: z.enum(["csv", "tbx"]),
+  content: z.string().min(1),
+  replace: z.boolean().optional(), // Drop existing terms in this scope first
+});
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginCredentials = z.infer<typeof loginSchema>;
@@ -108,78 +395,23 @@ export type Participant = typeof participants.$inferSelect;
 export type InsertParticipant = z.infer<typeof insertParticipantSchema>;
 export type Speaker = typeof speakers.$inferSelect;
 export type InsertSpeaker = z.infer<typeof insertSpeakerSchema>;
+export type UpdateSession = z.infer<typeof updateSessionSchema>;
+export type UpdateSpeaker = z.infer<typeof updateSpeakerSchema>;
 export type Translation = typeof translations.$inferSelect;
-
-// WebSocket message types
-export interface WebSocketMessage {
-  type: 'audio-chunk' | 'translation' | 'speaker-status' | 'participant-joined' | 'participant-left' | 'hand-raise' | 'speak-permission' | 'translation-word';
-  data: any;
-}
-
-export interface AudioChunkMessage {
-  type: 'audio-chunk';
-  data: {
-    sessionId: string;
-    participantId: string;
-    audioData: string; // base64 encoded audio
-    timestamp: number;
-  };
-}
-
-export interface TranslationMessage {
-  type: 'translation';
-  data: {
-    sessionId: string;
-    participantId: string;
-    speakerName: string;
-    originalText: string;
-    originalLanguage: string;
-    translations: Record<string, string>; // language -> translated text
-    timestamp: number;
-  };
-}
-
-export interface SpeakerStatusMessage {
-  type: 'speaker-status';
-  data: {
-    sessionId: string;
-    participantId: string;
-    speakerName: string;
-    isActive: boolean;
-    isMuted: boolean;
-  };
-}
-
-export interface HandRaiseMessage {
-  type: 'hand-raise';
-  data: {
-    sessionId: string;
-    participantId: string;
-    participantName: string;
-    handRaised: boolean;
-  };
-}
-
-export interface SpeakPermissionMessage {
-  type: 'speak-permission';
-  data: {
-    sessionId: string;
-    participantId: string;
-    isSpeaking: boolean;
-  };
-}
-
-export interface TranslationWordMessage {
-  type: 'translation-word';
-  data: {
-    sessionId: string;
-    speakerId: string;
-    speakerName: string;
-    word: string;
-    wordIndex: number;
-    totalWords: number;
-    language: string;
-    originalLanguage: string;
-    timestamp: number;
-  };
-}
+export type GlossaryTerm = typeof glossaryTerms.$inferSelect;
+export type InsertGlossaryTerm = z.infer<typeof insertGlossaryTermSchema>;
+export type TranslationMemoryEntry = typeof translationMemory.$inferSelect;
+export type InsertTranslationMemoryEntry = Omit<TranslationMemoryEntry, 'id' | 'hitCount' | 'createdAt' | 'lastUsedAt'>;
+export type TranslationMemoryLookupCounts = Omit<typeof translationMemoryStats.$inferSelect, 'sessionId'>;
+export type TranslationMemoryOutcome = keyof TranslationMemoryLookupCounts;
+export type GlossaryScope = { sessionId: string } | { ownerUserId: string };
+export type ModerationAction = typeof moderationActions.$inferSelect;
+export type InsertModerationAction = Omit<ModerationAction, 'id' | 'createdAt'>;
+export type Question = typeof questions.$inferSelect;
+export type InsertQuestion = Omit<Question, 'id' | 'upvoteCount' | 'moderatedBy' | 'answeredAt' | 'createdAt'>;
+export type ChatMessage = typeof chatMessages.$inferSelect;
+export type InsertChatMessage = Omit<ChatMessage, 'id' | 'deletedAt' | 'deletedBy' | 'createdAt'>;
+export type Announcement = typeof announcements.$inferSelect;
+export type InsertAnnouncement = Omit<Announcement, 'id' | 'createdAt'>;
+// Identifiers a session ban is matched against
+export type BanIdentifiers = { userId?: string | null; deviceId?: string | null; ipAddress?: string | null };
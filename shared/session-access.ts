@@ -0,0 +1,31 @@
+// Who may join a session: optional passcode, invite-only email list and host approval.
+// Shared so the join page can explain the error codes returned by POST /api/participants.
+
+import type { Session } from "./schema";
+
+// Session as returned by the API: the passcode hash never leaves the server and the
+// invite list is only shown to those who manage the session
+export type PublicSession = Omit<Session, "passcodeHash" | "allowedEmails"> & {
+  hasPasscode: boolean;
+  inviteOnly: boolean;
+  allowedEmails?: string[] | null;
+};
+
+export const sessionAccessErrorCodes = [
+  "session-ended",
+  "login-required", // Invite-only session; sign in with an invited email
+  "not-invited",
+  "passcode-required",
+  "invalid-passcode",
+  "banned",
+] as const;
+export type SessionAccessErrorCode = typeof sessionAccessErrorCodes[number];
+
+export const SESSION_ACCESS_ERROR_MESSAGES: Record<SessionAccessErrorCode, string> = {
+  "session-ended": "This session has ended.",
+  "login-required": "This session is invite-only. Sign in with the email address you were invited with.",
+  "not-invited": "Your account is not on this session's invite list. Ask the host to invite you.",
+  "passcode-required": "This session requires a passcode.",
+  "invalid-passcode": "That passcode is not correct.",
+  "banned": "You have been removed from this session and cannot rejoin.",
+};